@@ -1,9 +1,42 @@
 #!/usr/bin/env bun
-import { LightspeedTokenService } from "./services/token-service";
+import {
+  DEFAULT_ACCOUNT_ID,
+  LightspeedTokenService,
+} from "./services/token-service";
+import { ConsumerService } from "./services/consumer-service";
+import {
+  TokenEventService,
+  type TokenEventSource,
+  type TokenEventType,
+} from "./services/token-events";
+import { buildAuthorizeUrl } from "./services/lightspeed-oauth";
+import {
+  CallbackListenError,
+  OAuthLoginFlow,
+  waitForOAuthCallback,
+  waitForServiceLogin,
+  type OAuthCallbackResult,
+} from "./services/oauth-callback";
+import { AlertService } from "./services/alert-service";
+import { DEFAULT_OAUTH_SCOPE, diffScopes, formatScopes, parseScopes } from "./services/scopes";
+import { parseDuration } from "./services/refresh-policy";
+import {
+  ConfigError,
+  describeConfig,
+  getConfig,
+  getLightspeedCredentials,
+  getResolvedEnvironment,
+  lightspeedCredentialProblems,
+  parseConfig,
+  type ConfigSection,
+} from "./services/config";
 import * as readline from "readline";
 import { spawn } from "child_process";
 
-const tokenService = new LightspeedTokenService();
+// Built in main() once the configuration has been validated
+let tokenService: LightspeedTokenService;
+let consumerService: ConsumerService;
+let eventService: TokenEventService;
 
 function promptUser(question: string): Promise<string> {
   return new Promise((resolve) => {
@@ -19,17 +52,46 @@ function promptUser(question: string): Promise<string> {
   });
 }
 
+/**
+ * Read the value of an option given as `--name value` or `--name=value`
+ */
+function getOption(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+function hasFlag(args: string[], name: string): boolean {
+  return args.includes(`--${name}`);
+}
+
+/**
+ * Account selected with --account, falling back to the default account
+ */
+function getAccountId(args: string[]): string {
+  return getOption(args, "account")?.trim() || DEFAULT_ACCOUNT_ID;
+}
+
 interface Command {
   name: string;
   description: string;
   handler: (args: string[]) => Promise<void>;
+  standalone?: boolean; // Runs without a valid configuration or the token services
+  lightspeed?: boolean; // Calls Lightspeed, so needs the client credentials
 }
 
 const commands: Command[] = [
   {
     name: "login",
-    description: "Interactive OAuth login to get initial tokens",
+    description: "OAuth login to get initial tokens (serves the redirect URI; --manual to paste the code)",
     handler: handleLogin,
+    lightspeed: true,
   },
   {
     name: "set",
@@ -40,6 +102,7 @@ const commands: Command[] = [
     name: "refresh",
     description: "Force refresh the current tokens",
     handler: handleRefresh,
+    lightspeed: true,
   },
   {
     name: "status",
@@ -48,7 +111,7 @@ const commands: Command[] = [
   },
   {
     name: "clear",
-    description: "Clear all stored tokens",
+    description: "Clear stored tokens (--account <id> or --all)",
     handler: handleClear,
   },
   {
@@ -56,40 +119,173 @@ const commands: Command[] = [
     description: "Display decrypted tokens (use with caution)",
     handler: handleShowTokens,
   },
+  {
+    name: "history",
+    description: "Show token event history, or prune it (history prune --older-than 90d)",
+    handler: handleHistory,
+  },
+  {
+    name: "consumers",
+    description: "Manage API consumers (add|list|revoke|enable|rotate)",
+    handler: handleConsumers,
+  },
+  {
+    name: "alerts",
+    description: "Send a test alert to every configured notifier (alerts test)",
+    handler: handleAlerts,
+  },
+  {
+    name: "rotate-key",
+    description: "Re-encrypt all stored tokens under the primary encryption key",
+    handler: handleRotateKey,
+  },
+  {
+    name: "migrate-encryption",
+    description: "Upgrade tokens stored in older encryption formats to envelope encryption",
+    handler: handleMigrateEncryption,
+  },
   {
     name: "setup",
     description: "Initialize database schema and run migrations",
     handler: handleSetup,
   },
+  {
+    name: "config",
+    description: "Show the resolved configuration with secrets masked and validate it (config check)",
+    handler: handleConfig,
+    standalone: true,
+  },
   {
     name: "help",
     description: "Show this help message",
     handler: handleHelp,
+    standalone: true,
   },
 ];
 
-async function handleLogin(_args: string[]): Promise<void> {
-  console.log("🔐 Interactive OAuth Login");
+/**
+ * Whether a redirect URI points at this machine, so the CLI can serve it
+ */
+function isLocalRedirect(redirectUri: string): boolean {
+  try {
+    return ["localhost", "127.0.0.1", "[::1]"].includes(new URL(redirectUri).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Print the scopes a login gained or lost compared to the previous grant
+ */
+async function reportScopeChange(accountId: string, previousScope: string | null): Promise<void> {
+  const status = await tokenService.getTokenStatus(accountId);
+  const grantedScope = status?.scope ?? null;
+  if (grantedScope === null) {
+    return;
+  }
+
+  const { added, removed } = diffScopes(previousScope, grantedScope);
+  if (previousScope === null) {
+    console.log(`🔑 Granted scope: ${grantedScope}`);
+  } else if (added.length === 0 && removed.length === 0) {
+    console.log(`🔑 Scope unchanged: ${grantedScope}`);
+  } else {
+    if (added.length > 0) {
+      console.log(`➕ Scopes added: ${formatScopes(added)}`);
+    }
+    if (removed.length > 0) {
+      console.log(`➖ Scopes removed: ${formatScopes(removed)}`);
+    }
+  }
+}
+
+async function handleLogin(args: string[]): Promise<void> {
+  const accountId = getAccountId(args);
+
+  console.log(`🔐 Interactive OAuth Login (account: ${accountId})`);
   console.log("");
 
   try {
-    // Get the OAuth scope from user (with default)
-    const scope = await promptUser("🔧 Enter OAuth scope (default: employee:all): ");
-    const finalScope = scope.trim() || "employee:all";
-    
-    // Get required environment variables
-    const clientId = process.env.LIGHTSPEED_CLIENT_ID;
-    const redirectUri = process.env.LIGHTSPEED_REDIRECT_URI || "https://localhost:3000/auth/callback";
+    const previousScope = (await tokenService.getTokenStatus(accountId))?.scope ?? null;
+    const addScope = getOption(args, "add-scope");
+    let finalScope: string;
+
+    if (addScope !== undefined) {
+      // Re-authorize with everything already granted plus the new scopes
+      const additions = parseScopes(addScope);
+      if (additions.length === 0) {
+        console.error("❌ --add-scope needs at least one scope");
+        process.exit(1);
+      }
+      if (previousScope === null) {
+        console.log(`⚠️  The current scope is unknown, assuming ${DEFAULT_OAUTH_SCOPE}`);
+      }
+      finalScope = formatScopes(parseScopes(`${previousScope ?? DEFAULT_OAUTH_SCOPE} ${formatScopes(additions)}`));
+      console.log(`🔧 Requesting scope: ${finalScope}`);
+    } else {
+      // Get the OAuth scope from --scope or the user (with default)
+      const scope =
+        getOption(args, "scope") ??
+        (await promptUser(`🔧 Enter OAuth scope (default: ${DEFAULT_OAUTH_SCOPE}): `));
+      finalScope = formatScopes(parseScopes(scope)) || DEFAULT_OAUTH_SCOPE;
+    }
     
-    if (!clientId) {
-      console.error("❌ LIGHTSPEED_CLIENT_ID environment variable is required");
-      process.exit(1);
+    const { redirectUri } = getConfig().lightspeed;
+    const { clientId } = getLightspeedCredentials();
+    const callbackTls = getConfig().lightspeed.callbackTls ?? undefined;
+    const listenReason = hasFlag(args, "manual")
+      ? "--manual was given"
+      : !isLocalRedirect(redirectUri)
+        ? `the redirect URI ${redirectUri} is not on this machine`
+        : redirectUri.startsWith("https:") && !callbackTls
+          ? "the redirect URI uses https and OAUTH_CALLBACK_TLS_CERT/OAUTH_CALLBACK_TLS_KEY are not set"
+          : null;
+
+    if (!listenReason) {
+      // Serve the redirect URI ourselves so the browser completes the login, or let
+      // the running service do it when it already listens there
+      const flow = new OAuthLoginFlow(tokenService);
+      const startedAt = new Date();
+      const { authorizeUrl } = await flow.begin({ clientId, redirectUri, scope: finalScope, accountId });
+
+      console.log("");
+      console.log("📋 Visit this URL in your browser and authorize the application:");
+      console.log("");
+      console.log(`   ${authorizeUrl}`);
+      console.log("");
+      console.log(`⏳ Waiting for Lightspeed to redirect to ${redirectUri} ...`);
+
+      let callback: OAuthCallbackResult;
+      try {
+        callback = await waitForOAuthCallback(flow, { redirectUri, tls: callbackTls });
+      } catch (error) {
+        if (!(error instanceof CallbackListenError && error.code === "EADDRINUSE")) {
+          throw error;
+        }
+        console.log(`💡 ${new URL(redirectUri).host} is in use - the running service will complete the login`);
+        console.log("   (if the browser cannot reach it, press Ctrl+C and log in with --manual)");
+        callback = await waitForServiceLogin(eventService, accountId, startedAt);
+      }
+      if (!callback.success) {
+        console.error(`❌ ${callback.message}`);
+        process.exit(1);
+      }
+
+      console.log(`✅ ${callback.message}`);
+      await reportScopeChange(accountId, previousScope);
+      const statusResult = await tokenService.cliStatus(accountId);
+      if (statusResult.formatted) {
+        console.log("");
+        console.log(statusResult.formatted);
+      }
+      return;
     }
 
     // Generate the OAuth authorization URL
-    const authUrl = `https://cloud.lightspeedapp.com/auth/oauth/authorize?response_type=code&client_id=${clientId}&redirect_uri=${redirectUri}&scope=${finalScope}`;
+    const authUrl = buildAuthorizeUrl({ clientId, redirectUri, scope: finalScope });
     
     console.log("");
+    console.log(`💡 Pasting the code by hand because ${listenReason}`);
     console.log("📋 To get an authorization code:");
     console.log("1. Visit this URL in your browser:");
     console.log("");
@@ -106,14 +302,15 @@ async function handleLogin(_args: string[]): Promise<void> {
       process.exit(1);
     }
 
-    const result = await tokenService.cliLogin(authCode);
+    const result = await tokenService.cliLogin(authCode, accountId, finalScope);
     
     if (result.success) {
       console.log(`✅ ${result.message}`);
+      await reportScopeChange(accountId, previousScope);
       
       // Show status after successful login
       if (result.status) {
-        const statusResult = await tokenService.cliStatus();
+        const statusResult = await tokenService.cliStatus(accountId);
         if (statusResult.formatted) {
           console.log("");
           console.log(statusResult.formatted);
@@ -129,15 +326,16 @@ async function handleLogin(_args: string[]): Promise<void> {
   }
 }
 
-async function handleRefresh(_args: string[]): Promise<void> {
-  const result = await tokenService.cliRefresh();
+async function handleRefresh(args: string[]): Promise<void> {
+  const accountId = getAccountId(args);
+  const result = await tokenService.cliRefresh(accountId);
   
   if (result.success) {
     console.log(`✅ ${result.message}`);
     
     // Show status after successful refresh
     if (result.status) {
-      const statusResult = await tokenService.cliStatus();
+      const statusResult = await tokenService.cliStatus(accountId);
       if (statusResult.formatted) {
         console.log("");
         console.log(statusResult.formatted);
@@ -145,12 +343,29 @@ async function handleRefresh(_args: string[]): Promise<void> {
     }
   } else {
     console.error(`❌ ${result.message}`);
-    process.exit(1);
+    // Exit 2 when retrying will not help, so scripts can tell it apart from an outage
+    process.exit(result.reason ? 2 : 1);
   }
 }
 
-async function handleStatus(_args: string[]): Promise<void> {
-  const result = await tokenService.cliStatus();
+async function handleStatus(args: string[]): Promise<void> {
+  if (hasFlag(args, "all")) {
+    const accounts = await tokenService.listAccounts();
+
+    if (accounts.length === 0) {
+      console.error("❌ No tokens found for any account");
+      process.exit(1);
+    }
+
+    for (const accountId of accounts) {
+      const result = await tokenService.cliStatus(accountId);
+      console.log(result.formatted ?? `❌ ${result.message}`);
+      console.log("");
+    }
+    return;
+  }
+
+  const result = await tokenService.cliStatus(getAccountId(args));
   
   if (result.success && result.formatted) {
     console.log(result.formatted);
@@ -162,8 +377,10 @@ async function handleStatus(_args: string[]): Promise<void> {
   }
 }
 
-async function handleClear(_args: string[]): Promise<void> {
-  const result = await tokenService.cliClear();
+async function handleClear(args: string[]): Promise<void> {
+  const result = await tokenService.cliClear(
+    hasFlag(args, "all") ? undefined : getAccountId(args)
+  );
   
   if (result.success) {
     console.log(`✅ ${result.message}`);
@@ -173,8 +390,10 @@ async function handleClear(_args: string[]): Promise<void> {
   }
 }
 
-async function handleShowTokens(_args: string[]): Promise<void> {
-  console.log("🔓 Displaying decrypted tokens");
+async function handleShowTokens(args: string[]): Promise<void> {
+  const accountId = getAccountId(args);
+
+  console.log(`🔓 Displaying decrypted tokens (account: ${accountId})`);
   console.log("");
   console.log("🚨 SECURITY WARNING:");
   console.log("   • These tokens provide full access to your Lightspeed account");
@@ -190,7 +409,7 @@ async function handleShowTokens(_args: string[]): Promise<void> {
   }
 
   console.log("");
-  const result = await tokenService.cliShowTokens();
+  const result = await tokenService.cliShowTokens(accountId);
   
   if (result.success && result.tokens) {
     console.log("📋 Current Tokens:");
@@ -207,6 +426,205 @@ async function handleShowTokens(_args: string[]): Promise<void> {
   }
 }
 
+async function handleHistory(args: string[]): Promise<void> {
+  if (args[0] === "prune") {
+    const retention = getOption(args, "older-than") || "90d";
+    const retentionMs = parseDuration(retention);
+
+    if (retentionMs === null) {
+      console.error(`❌ Invalid --older-than value: ${retention} (use e.g. 30d, 12h)`);
+      process.exit(1);
+    }
+
+    const result = await eventService.cliPrune(new Date(Date.now() - retentionMs));
+
+    if (result.success) {
+      console.log(`✅ ${result.message}`);
+    } else {
+      console.error(`❌ ${result.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  let since: Date | undefined;
+  const sinceOption = getOption(args, "since");
+  if (sinceOption) {
+    const sinceMs = parseDuration(sinceOption);
+    since = sinceMs !== null ? new Date(Date.now() - sinceMs) : new Date(sinceOption);
+
+    if (isNaN(since.getTime())) {
+      console.error(`❌ Invalid --since value: ${sinceOption} (use e.g. 7d or an ISO date)`);
+      process.exit(1);
+    }
+  }
+
+  const limitOption = getOption(args, "limit");
+  const limit = limitOption ? parseInt(limitOption, 10) : undefined;
+  if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+    console.error("❌ --limit must be a positive number");
+    process.exit(1);
+  }
+
+  const result = await eventService.cliHistory({
+    accountId: getOption(args, "account")?.trim() || undefined,
+    type: getOption(args, "type") as TokenEventType | undefined,
+    source: getOption(args, "source") as TokenEventSource | undefined,
+    since,
+    limit,
+  });
+
+  if (result.success && result.formatted) {
+    console.log(result.formatted);
+  } else {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+}
+
+async function handleConsumers(args: string[]): Promise<void> {
+  const [subcommand, name] = args;
+
+  switch (subcommand) {
+    case "add":
+    case "rotate": {
+      if (!name) {
+        console.error(`❌ Usage: consumers ${subcommand} <name>`);
+        process.exit(1);
+      }
+
+      const result =
+        subcommand === "add"
+          ? await consumerService.cliAdd(name)
+          : await consumerService.cliRotate(name);
+
+      if (result.success && result.apiKey) {
+        console.log(`✅ ${result.message}`);
+        console.log("");
+        console.log(`   API Key: ${result.apiKey}`);
+        console.log("");
+        console.log("🔒 This key is shown only once - store it in the consumer's secrets now");
+      } else {
+        console.error(`❌ ${result.message}`);
+        process.exit(1);
+      }
+      return;
+    }
+
+    case "revoke":
+    case "enable": {
+      if (!name) {
+        console.error(`❌ Usage: consumers ${subcommand} <name>`);
+        process.exit(1);
+      }
+
+      const result =
+        subcommand === "revoke"
+          ? await consumerService.cliRevoke(name)
+          : await consumerService.cliEnable(name);
+
+      if (result.success) {
+        console.log(`✅ ${result.message}`);
+      } else {
+        console.error(`❌ ${result.message}`);
+        process.exit(1);
+      }
+      return;
+    }
+
+    case "list":
+    case undefined: {
+      const result = await consumerService.cliList();
+
+      if (result.success && result.formatted) {
+        console.log(result.formatted);
+      } else {
+        console.error(`❌ ${result.message}`);
+        process.exit(1);
+      }
+      return;
+    }
+
+    default:
+      console.error(`❌ Unknown consumers subcommand: ${subcommand}`);
+      console.log("Usage: consumers <add|list|revoke|enable|rotate> [name]");
+      process.exit(1);
+  }
+}
+
+async function handleAlerts(args: string[]): Promise<void> {
+  if (args[0] !== "test") {
+    console.error("❌ Usage: bun run tokens alerts test");
+    process.exit(1);
+  }
+
+  const alerts = AlertService.fromConfig();
+
+  if (alerts.notifierNames.length === 0) {
+    console.error("❌ No notifiers configured - set ALERT_WEBHOOK_URL, ALERT_SLACK_WEBHOOK_URL or ALERT_SMTP_HOST");
+    process.exit(1);
+  }
+
+  let failed = false;
+  for (const result of await alerts.sendTest()) {
+    if (result.error) {
+      failed = true;
+      console.error(`❌ ${result.notifier}: ${result.error}`);
+    } else {
+      console.log(`✅ ${result.notifier}: test alert sent`);
+    }
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+async function handleRotateKey(_args: string[]): Promise<void> {
+  console.log("🔑 Encryption Key Rotation");
+  console.log("");
+  console.log("This re-encrypts every stored token with the configured provider's");
+  console.log("current master key. Before running it:");
+  console.log("• env/file providers: add the new key to the keyring (keep the old key listed)");
+  console.log("  and set TOKEN_ENCRYPTION_PRIMARY_KEY_ID to the new key's id");
+  console.log("• kms provider: set TOKEN_KMS_KEY_ID to the new master key");
+  console.log("Afterwards the old key can be removed.");
+  console.log("");
+
+  const confirm = await promptUser("Continue with key rotation? (y/N): ");
+  if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+    console.log("❌ Key rotation cancelled");
+    return;
+  }
+
+  const result = await tokenService.cliRotateKey();
+
+  if (result.success) {
+    console.log(`✅ ${result.message}`);
+  } else {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+}
+
+async function handleMigrateEncryption(_args: string[]): Promise<void> {
+  console.log("🔐 Encryption Migration");
+  console.log("");
+  console.log("This rewrites tokens stored with AES-256-CBC (no integrity check) or");
+  console.log("direct AES-256-GCM using envelope encryption: a per-record data key");
+  console.log("wrapped by the configured encryption provider.");
+  console.log("");
+
+  const result = await tokenService.cliMigrateEncryption();
+
+  if (result.success) {
+    console.log(`✅ ${result.message}`);
+  } else {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+}
+
 async function handleSetup(_args: string[]): Promise<void> {
   console.log("🏗️  Database Setup");
   console.log("");
@@ -216,14 +634,14 @@ async function handleSetup(_args: string[]): Promise<void> {
   console.log("• Create the lightspeedTokens table if it doesn't exist");
   console.log("");
 
-  // Check if DATABASE_URL is set
-  if (!process.env.DATABASE_URL) {
-    console.error("❌ DATABASE_URL environment variable is required");
-    console.log("Please set DATABASE_URL in your .env file");
-    process.exit(1);
+  const { type: storeName, databaseUrl } = getConfig().store;
+  if (storeName !== "postgres" || !databaseUrl) {
+    console.log(`ℹ️  TOKEN_STORE is "${storeName}" - no database setup needed`);
+    console.log("   The store creates its schema on first use");
+    return;
   }
 
-  console.log(`🔗 Using database: ${process.env.DATABASE_URL.split('@')[1] || 'configured database'}`);
+  console.log(`🔗 Using database: ${databaseUrl.split('@')[1] || 'configured database'}`);
   console.log("");
 
   const confirm = await promptUser("Continue with database setup? (y/N): ");
@@ -258,7 +676,8 @@ async function handleSetup(_args: string[]): Promise<void> {
     await new Promise<void>((resolve, reject) => {
       const migrate = spawn('bunx', ['prisma', 'migrate', 'deploy'], {
         stdio: 'inherit',
-        cwd: process.cwd()
+        cwd: process.cwd(),
+        env: { ...process.env, DATABASE_URL: databaseUrl }, // It may come from the config file
       });
       
       migrate.on('close', (code) => {
@@ -285,8 +704,50 @@ async function handleSetup(_args: string[]): Promise<void> {
   }
 }
 
-async function handleSetTokens(_args: string[]): Promise<void> {
-  console.log("🔐 Interactive Token Setup");
+async function handleConfig(args: string[]): Promise<void> {
+  if (args[0] !== "check") {
+    console.error("❌ Usage: bun run tokens config check");
+    process.exit(1);
+  }
+
+  // The service calls Lightspeed, so the check asks for the client credentials too
+  const resolution = getResolvedEnvironment();
+  const { config, problems: configProblems } = parseConfig(resolution.env);
+  const problems = [...resolution.problems, ...configProblems, ...lightspeedCredentialProblems(config)];
+
+  console.log("🔧 Resolved configuration");
+  if (resolution.configFile) {
+    console.log(`   Config file: ${resolution.configFile}`);
+  }
+
+  let section: ConfigSection | null = null;
+  for (const entry of describeConfig(resolution)) {
+    if (entry.section !== section) {
+      section = entry.section;
+      console.log("");
+      console.log(`[${section}]`);
+    }
+    const source = entry.source ? ` (${entry.source})` : "";
+    console.log(`  ${entry.name.padEnd(32)} ${entry.value ?? "-"}${source}`);
+  }
+  console.log("");
+
+  if (problems.length === 0) {
+    console.log("✅ Configuration is valid");
+    return;
+  }
+
+  console.error(`❌ ${problems.length} problem${problems.length === 1 ? "" : "s"} found:`);
+  for (const problem of problems) {
+    console.error(`   - ${problem}`);
+  }
+  process.exit(1);
+}
+
+async function handleSetTokens(args: string[]): Promise<void> {
+  const accountId = getAccountId(args);
+
+  console.log(`🔐 Interactive Token Setup (account: ${accountId})`);
   console.log("💡 Tokens will be encrypted and stored securely");
   console.log("");
 
@@ -314,14 +775,23 @@ async function handleSetTokens(_args: string[]): Promise<void> {
       }
     }
 
-    const result = await tokenService.cliSetTokens(accessToken, refreshToken, expiresInMinutes);
+    // Tokens pasted by hand do not say what they were granted; keep the recorded scope unless told
+    const scope = formatScopes(parseScopes(getOption(args, "scope"))) || undefined;
+
+    const result = await tokenService.cliSetTokens(
+      accessToken,
+      refreshToken,
+      expiresInMinutes,
+      accountId,
+      scope
+    );
     
     if (result.success) {
       console.log(`✅ ${result.message}`);
       
       // Show status after successful token setting
       if (result.status) {
-        const statusResult = await tokenService.cliStatus();
+        const statusResult = await tokenService.cliStatus(accountId);
         if (statusResult.formatted) {
           console.log("");
           console.log(statusResult.formatted);
@@ -346,20 +816,108 @@ async function handleHelp(_args: string[]): Promise<void> {
     console.log(`  ${command.name.padEnd(10)} - ${command.description}`);
   }
   
+  console.log("");
+  console.log("Options:");
+  console.log("  --account <id>  Lightspeed account to act on (default: \"default\")");
+  console.log("                  Applies to login, set, refresh, status, clear and tokens");
+  console.log("  --all           status/clear: act on every account");
+  console.log("  --manual        login: paste the authorization code instead of serving the redirect URI");
+  console.log("  --scope <s>     login: OAuth scope to request (default: employee:all)");
+  console.log("                  set: scope the tokens were granted (default: keep the recorded scope)");
+  console.log("  --add-scope <s> login: re-authorize with the current scope plus <s>");
+  console.log("");
+  console.log("History options:");
+  console.log("  --account <id>  Only events for this account (default: all accounts)");
+  console.log("  --type <type>   login, login_failure, manual_set, refresh_attempt,");
+  console.log("                  refresh_success, refresh_failure or clear");
+  console.log("  --source <src>  scheduler, cli, on_demand or api");
+  console.log("  --since <when>  Duration (e.g. 7d, 12h, 30m) or ISO date");
+  console.log("  --limit <n>     Maximum events to show (default: 50)");
   console.log("");
   console.log("Examples:");
   console.log("  bun cli.ts setup                  # Initialize database schema");
-  console.log("  bun cli.ts login                  # Interactive OAuth login");
+  console.log("  bun cli.ts login                  # OAuth login: authorize in the browser, done");
   console.log("  bun cli.ts set                    # Interactive token setup");
   console.log("  bun cli.ts status");
   console.log("  bun cli.ts tokens                 # Show decrypted tokens");
   console.log("  bun cli.ts refresh");
+  console.log("  bun cli.ts login --account store-2    # Login for a second account");
+  console.log("  bun cli.ts login --add-scope employee:reports  # Grant an extra scope");
+  console.log("  bun cli.ts status --all");
+  console.log("  bun cli.ts history --type refresh_failure --since 7d");
+  console.log("  bun cli.ts history prune --older-than 90d");
+  console.log("  bun cli.ts consumers add my-app   # Issue an API key for a consumer");
+  console.log("  bun cli.ts consumers list");
+  console.log("  bun cli.ts consumers revoke my-app");
+  console.log("  bun cli.ts consumers rotate my-app");
+  console.log("  bun cli.ts alerts test");
+  console.log("  bun cli.ts config check");
+  console.log("");
+  console.log("Configuration:");
+  console.log("  Settings come from environment variables, optionally merged over CONFIG_FILE");
+  console.log("  (a JSON or YAML object using the same names). Secrets can be read from files");
+  console.log("  with <NAME>_FILE, e.g. LIGHTSPEED_CLIENT_SECRET_FILE=/run/secrets/client_secret");
+  console.log("  bun cli.ts config check - show the resolved settings (secrets masked) and problems");
   console.log("");
   console.log("Environment variables required:");
-  console.log("  DATABASE_URL - PostgreSQL connection string");
+  console.log("  TOKEN_STORE - postgres (default), sqlite, file or memory");
+  console.log("    postgres: DATABASE_URL - PostgreSQL connection string");
+  console.log("    sqlite/file: TOKEN_STORE_PATH - defaults to ./data/tokens.sqlite or ./data/tokens.json.enc");
   console.log("  TOKEN_ENCRYPTION_KEY - 32-byte hex string for encryption");
+  console.log("    or TOKEN_ENCRYPTION_KEYS - keyring as \"<id>:<hex>,<id>:<hex>\"");
+  console.log("       (primary key: TOKEN_ENCRYPTION_PRIMARY_KEY_ID, default first entry)");
+  console.log("  TOKEN_ENCRYPTION_PROVIDER - env (default), file or kms");
+  console.log("    file: TOKEN_ENCRYPTION_KEY_FILE_PATH - path to a hex key or <id>:<hex> lines");
+  console.log("    kms:  TOKEN_KMS_URL, TOKEN_KMS_KEY_ID, TOKEN_KMS_TOKEN - wrap/unwrap API");
   console.log("  LIGHTSPEED_CLIENT_ID - OAuth client ID");
   console.log("  LIGHTSPEED_CLIENT_SECRET - OAuth client secret");
+  console.log("  LIGHTSPEED_OAUTH_BASE_URL - OAuth server (default https://cloud.lightspeedapp.com)");
+  console.log("    use http://localhost:8300 with the mock server: bun run mock:oauth");
+  console.log("  LIGHTSPEED_API_BASE_URL - Retail API behind /proxy (default https://api.lightspeedapp.com)");
+  console.log("  LIGHTSPEED_REDIRECT_URI - OAuth redirect URI (default https://localhost:3000/auth/callback)");
+  console.log("    login serves it when it points at localhost; for https set OAUTH_CALLBACK_TLS_CERT");
+  console.log("    and OAUTH_CALLBACK_TLS_KEY (PEM files, e.g. from mkcert). If the service already listens");
+  console.log("    on that port, its own callback route completes the login instead");
+  console.log("");
+  console.log("Alerting (optional):");
+  console.log("  ALERT_WEBHOOK_URL - POST alerts as JSON (ALERT_WEBHOOK_TOKEN adds a bearer token)");
+  console.log("  ALERT_SLACK_WEBHOOK_URL - Slack-compatible incoming webhook");
+  console.log("  ALERT_SMTP_HOST, ALERT_SMTP_PORT, ALERT_SMTP_FROM, ALERT_SMTP_TO - email alerts");
+  console.log("    ALERT_SMTP_USER, ALERT_SMTP_PASSWORD, ALERT_SMTP_SECURE=true (TLS), ALERT_SMTP_STARTTLS=false");
+  console.log("  ALERT_EXPIRY_THRESHOLD_MINUTES - alert when tokens expire within this (default 5)");
+  console.log("  ALERT_COOLDOWN_MINUTES - minimum time between repeats of the same alert (default 60)");
+  console.log("");
+  console.log("Refresh policy (optional, shown by status):");
+  console.log("  REFRESH_BUFFER - refresh this long before expiry, e.g. 10m (default), or a share of");
+  console.log("    the token lifetime, e.g. 20%");
+  console.log("  REFRESH_JITTER - refresh up to this much earlier at random, e.g. 2m (default 0s)");
+  console.log("  REFRESH_CHECK_SCHEDULE - cron for the safety-net poll that catches tokens changed by");
+  console.log("    other processes (default \"*/15 * * * *\"); refreshes themselves run when due");
+  console.log("  HEALTH_CHECK_SCHEDULE - cron for the health check (default \"0 * * * *\")");
+  console.log("  EXPIRY_WARNING_MINUTES - health check warns below this many minutes left (default 30)");
+  console.log("  DEFAULT_TOKEN_LIFETIME - lifetime assumed when Lightspeed omits expires_in (default 1h)");
+  console.log("");
+  console.log("Leader election (optional, for running several replicas):");
+  console.log("  Replicas sharing a store elect one leader through a lease; only it refreshes on schedule");
+  console.log("  LEADER_LEASE_TTL - how long followers wait after the leader stops renewing (default 30s)");
+  console.log("  LEADER_HEARTBEAT_INTERVAL - how often the lease is renewed or claimed (default 10s)");
+  console.log("");
+  console.log("Logging (optional):");
+  console.log("  LOG_LEVEL - debug, info (default), warn, error or silent");
+  console.log("  LOG_FORMAT - pretty (default) or json (one JSON object per line)");
+  console.log("    tokens, secrets and authorization codes are always redacted");
+  console.log("");
+  console.log("Metrics (optional):");
+  console.log("  GET /metrics serves Prometheus metrics on the API port");
+  console.log("  METRICS_TOKEN - require Authorization: Bearer <token> to scrape /metrics");
+  console.log("");
+  console.log("Health probes (no API key, JSON detail, 503 when failing):");
+  console.log("  GET /healthz - liveness: the server process and its scheduler are running");
+  console.log("  GET /readyz  - readiness: store reachable, encryption key valid, tokens present and unexpired");
+  console.log("");
+  console.log("API proxy:");
+  console.log("  /proxy/API/V3/Account/<id>/...?account=<token account> forwards to the Lightspeed API");
+  console.log("    with the stored access token (consumer API key required, 401s refresh and retry once)");
 }
 
 // Main CLI logic
@@ -383,6 +941,30 @@ async function main() {
     process.exit(1);
   }
 
+  if (!command.standalone) {
+    try {
+      getConfig();
+      if (command.lightspeed) {
+        getLightspeedCredentials();
+      }
+    } catch (error) {
+      if (!(error instanceof ConfigError)) {
+        throw error;
+      }
+      console.error("❌ Invalid configuration:");
+      for (const problem of error.problems) {
+        console.error(`   - ${problem}`);
+      }
+      console.log("");
+      console.log("💡 Run `bun run tokens config check` to see the resolved configuration");
+      process.exit(1);
+    }
+
+    tokenService = new LightspeedTokenService();
+    consumerService = new ConsumerService();
+    eventService = new TokenEventService();
+  }
+
   try {
     await command.handler(commandArgs);
   } catch (error) {
@@ -0,0 +1,31 @@
+// The token service refused to hand out a token (bad API key, no tokens, re-login needed, ...)
+export class TokenServiceError extends Error {
+  readonly status: number;
+  readonly code: string; // `error` field of the token service response, e.g. "reauth_required"
+  readonly body: unknown;
+
+  constructor(status: number, code: string, message: string, body?: unknown) {
+    super(`Token service answered ${status} (${code}): ${message}`);
+    this.name = "TokenServiceError";
+    this.status = status;
+    this.code = code;
+    this.body = body;
+  }
+}
+
+// The Lightspeed API answered with a non-2xx status
+export class LightspeedApiError extends Error {
+  readonly status: number;
+  readonly method: string;
+  readonly url: string;
+  readonly body: string;
+
+  constructor(status: number, method: string, url: string, body: string) {
+    super(`Lightspeed API ${method} ${new URL(url).pathname} failed with HTTP ${status}`);
+    this.name = "LightspeedApiError";
+    this.status = status;
+    this.method = method;
+    this.url = url;
+    this.body = body;
+  }
+}
@@ -0,0 +1,19 @@
+export {
+  LightspeedClient,
+  DEFAULT_API_BASE_URL,
+  type LightspeedClientOptions,
+  type PaginateOptions,
+  type Query,
+  type QueryValue,
+  type RequestOptions,
+} from "./lightspeed-client";
+export {
+  TokenServiceSource,
+  REJECTED_TOKEN_HEADER,
+  type FetchLike,
+  type TokenServiceSourceOptions,
+  type TokenServiceToken,
+  type TokenSource,
+} from "./token-source";
+export { LeakyBucket, type LeakyBucketOptions } from "./leaky-bucket";
+export { LightspeedApiError, TokenServiceError } from "./errors";
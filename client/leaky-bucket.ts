@@ -0,0 +1,103 @@
+// Lightspeed's documented defaults: a 60 unit bucket draining 1 unit per second
+const DEFAULT_BUCKET_SIZE = 60;
+const DEFAULT_DRIP_RATE = 1;
+
+export interface LeakyBucketOptions {
+  size?: number; // Units the bucket holds
+  dripRate?: number; // Units drained per second
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Client-side model of the Lightspeed API rate limit. Requests wait in FIFO order
+ * until the bucket has room for their cost; the model is corrected from the
+ * X-LS-API-Bucket-Level and X-LS-API-Drip-Rate headers of every response.
+ */
+export class LeakyBucket {
+  private size: number;
+  private dripRate: number;
+  private level = 0;
+  private updatedAt: number;
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(options: LeakyBucketOptions = {}) {
+    this.size = options.size ?? DEFAULT_BUCKET_SIZE;
+    this.dripRate = options.dripRate ?? DEFAULT_DRIP_RATE;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.updatedAt = this.now();
+  }
+
+  /**
+   * Units a request costs: reads are 1, writes are 10
+   */
+  static cost(method: string): number {
+    return method.toUpperCase() === "GET" || method.toUpperCase() === "HEAD" ? 1 : 10;
+  }
+
+  /**
+   * Wait for room in the bucket, then reserve `cost` units
+   */
+  acquire(cost: number): Promise<void> {
+    const turn = this.queue.then(() => this.waitForRoom(cost));
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  /**
+   * Adopt the bucket state Lightspeed reported
+   */
+  update(headers: Headers): void {
+    const level = headers.get("x-ls-api-bucket-level")?.match(/^\s*([\d.]+)\s*\/\s*([\d.]+)\s*$/);
+    if (level) {
+      this.level = Number(level[1]);
+      this.size = Number(level[2]);
+      this.updatedAt = this.now();
+    }
+
+    const dripRate = Number(headers.get("x-ls-api-drip-rate"));
+    if (dripRate > 0) {
+      this.dripRate = dripRate;
+    }
+  }
+
+  /**
+   * Hold every request for `ms`, after Lightspeed answered 429
+   */
+  pause(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, this.now() + ms);
+  }
+
+  /**
+   * Estimated units in the bucket right now
+   */
+  currentLevel(): number {
+    const drained = ((this.now() - this.updatedAt) / 1000) * this.dripRate;
+    return Math.max(0, this.level - drained);
+  }
+
+  private async waitForRoom(cost: number): Promise<void> {
+    // A request costing more than the whole bucket could never fit otherwise
+    const needed = Math.min(cost, this.size);
+
+    for (;;) {
+      const now = this.now();
+      const level = this.currentLevel();
+      const overflow = level + needed - this.size;
+
+      if (now >= this.blockedUntil && overflow <= 0) {
+        this.level = level + cost;
+        this.updatedAt = now;
+        return;
+      }
+
+      await this.sleep(
+        Math.max(this.blockedUntil - now, Math.ceil((overflow / this.dripRate) * 1000), 1)
+      );
+    }
+  }
+}
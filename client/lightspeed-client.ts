@@ -0,0 +1,222 @@
+import { LightspeedApiError } from "./errors";
+import { LeakyBucket } from "./leaky-bucket";
+import { TokenServiceSource, type FetchLike, type TokenSource } from "./token-source";
+
+export const DEFAULT_API_BASE_URL = "https://api.lightspeedapp.com";
+
+const DEFAULT_MAX_RETRIES = 3; // Per request, for 429 responses
+const DEFAULT_RETRY_AFTER_MS = 1000; // When a 429 carries no Retry-After
+const PAGE_SIZE = 100; // Largest page Lightspeed serves
+
+export type QueryValue = string | number | boolean | undefined;
+export type Query = Record<string, QueryValue>;
+
+export interface RequestOptions {
+  query?: Query;
+  body?: unknown; // Sent as JSON
+}
+
+export interface PaginateOptions {
+  query?: Query;
+  key?: string; // Property holding the records, e.g. "Item" (default: from the path)
+}
+
+// Paging metadata of a Lightspeed V3 list response
+interface PageAttributes {
+  next?: string;
+  previous?: string;
+  count?: string;
+}
+
+export interface LightspeedClientOptions {
+  accountId: string | number; // Lightspeed Retail account ID used in API paths
+  tokenServiceUrl?: string; // Token service to fetch access tokens from
+  apiKey?: string; // Consumer API key for the token service
+  tokenAccount?: string; // Account name in the token service (default "default")
+  scopes?: string[]; // Scopes the app needs; the token service rejects tokens without them
+  tokenSource?: TokenSource; // Replaces tokenServiceUrl/apiKey/tokenAccount/scopes
+  baseUrl?: string; // Lightspeed API host (default https://api.lightspeedapp.com)
+  maxRetries?: number;
+  fetch?: FetchLike;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Typed wrapper around the Lightspeed Retail API (V3) for apps that use the
+ * token service: tokens are fetched and cached for you, requests are throttled
+ * to the account's rate limit and list endpoints can be paged through.
+ *
+ *   const client = new LightspeedClient({ accountId: 12345, tokenServiceUrl, apiKey });
+ *   const item = await client.get<{ Item: Item }>("Item/7.json");
+ *   for await (const item of client.paginate<Item>("Item.json")) { ... }
+ */
+export class LightspeedClient {
+  readonly accountId: string;
+  private readonly baseUrl: string;
+  private readonly tokens: TokenSource;
+  private readonly bucket: LeakyBucket;
+  private readonly maxRetries: number;
+  private readonly fetch: FetchLike;
+
+  constructor(options: LightspeedClientOptions) {
+    this.accountId = String(options.accountId);
+    this.baseUrl = (options.baseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.bucket = new LeakyBucket({ now: options.now, sleep: options.sleep });
+
+    if (options.tokenSource) {
+      this.tokens = options.tokenSource;
+    } else {
+      if (!options.tokenServiceUrl || !options.apiKey) {
+        throw new Error("LightspeedClient needs tokenServiceUrl and apiKey, or a tokenSource");
+      }
+      this.tokens = new TokenServiceSource({
+        url: options.tokenServiceUrl,
+        apiKey: options.apiKey,
+        account: options.tokenAccount,
+        scopes: options.scopes,
+        fetch: this.fetch,
+        now: options.now,
+      });
+    }
+  }
+
+  get<T>(path: string, query?: Query): Promise<T> {
+    return this.request<T>("GET", path, { query });
+  }
+
+  post<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>("POST", path, { body });
+  }
+
+  put<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>("PUT", path, { body });
+  }
+
+  delete<T>(path: string): Promise<T> {
+    return this.request<T>("DELETE", path);
+  }
+
+  /**
+   * Call the API. `path` is relative to the account (e.g. "Item.json"); absolute
+   * URLs on the API host are used as they are. A 401 has the rejected token
+   * refreshed and retries once; a 429 waits for Retry-After and retries up to maxRetries times.
+   */
+  async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const url = this.resolveUrl(path, options.query);
+    const body = options.body === undefined ? undefined : JSON.stringify(options.body);
+    let renewedToken = false;
+    let retries = 0;
+
+    for (;;) {
+      await this.bucket.acquire(LeakyBucket.cost(method));
+      const accessToken = await this.tokens.getToken();
+
+      const response = await this.fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: "application/json",
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body,
+      });
+      this.bucket.update(response.headers);
+
+      if (response.status === 401 && !renewedToken) {
+        renewedToken = true;
+        this.tokens.invalidate(accessToken);
+        await response.body?.cancel();
+        continue;
+      }
+
+      if (response.status === 429 && retries < this.maxRetries) {
+        retries++;
+        this.bucket.pause(retryAfterMs(response.headers.get("retry-after")));
+        await response.body?.cancel();
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new LightspeedApiError(response.status, method, url, await response.text());
+      }
+
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+  }
+
+  /**
+   * Yield every record of a list endpoint, following Lightspeed's `next` links
+   */
+  async *paginate<T>(path: string, options: PaginateOptions = {}): AsyncGenerator<T> {
+    const key = options.key ?? resourceKey(path);
+    let next: string | undefined = this.resolveUrl(path, { limit: PAGE_SIZE, ...options.query });
+
+    while (next) {
+      const page: Record<string, unknown> = await this.get(next);
+      const records = page[key];
+
+      if (Array.isArray(records)) {
+        yield* records as T[];
+      } else if (records !== undefined) {
+        yield records as T; // Single results are not wrapped in an array
+      }
+
+      next = (page["@attributes"] as PageAttributes | undefined)?.next || undefined;
+    }
+  }
+
+  /**
+   * Every record of a list endpoint as one array
+   */
+  async getAll<T>(path: string, options: PaginateOptions = {}): Promise<T[]> {
+    const records: T[] = [];
+    for await (const record of this.paginate<T>(path, options)) {
+      records.push(record);
+    }
+    return records;
+  }
+
+  private resolveUrl(path: string, query: Query = {}): string {
+    let url: URL;
+
+    if (/^https?:\/\//.test(path)) {
+      url = new URL(path);
+      // Never send the access token anywhere but the API host
+      if (url.origin !== new URL(this.baseUrl).origin) {
+        throw new Error(`Refusing to call ${url.origin} with a Lightspeed token`);
+      }
+    } else {
+      url = new URL(`${this.baseUrl}/API/V3/Account/${this.accountId}/${path.replace(/^\/+/, "")}`);
+    }
+
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+    return url.toString();
+  }
+}
+
+/**
+ * "Item.json" holds its records under "Item", "Sale/5/SaleLine.json" under "SaleLine"
+ */
+function resourceKey(path: string): string {
+  const name = new URL(path, "http://x").pathname
+    .split("/")
+    .filter((segment) => /^[A-Z]/.test(segment))
+    .pop();
+  if (!name) {
+    throw new Error(`Cannot tell which property holds the records of ${path}; pass options.key`);
+  }
+  return name.replace(/\.json$/, "");
+}
+
+function retryAfterMs(header: string | null): number {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_RETRY_AFTER_MS;
+}
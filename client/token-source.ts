@@ -0,0 +1,115 @@
+import { TokenServiceError } from "./errors";
+
+export type FetchLike = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+// Successful GET /v1/token response from the token service
+export interface TokenServiceToken {
+  accountId: string;
+  accessToken: string;
+  tokenType: "Bearer";
+  expiresAt: string | null;
+  expiresIn: number;
+  scope: string | null;
+}
+
+// Header telling GET /v1/token which access token Lightspeed rejected, so it is refreshed
+export const REJECTED_TOKEN_HEADER = "X-Rejected-Token";
+
+// Anything that can supply a Lightspeed access token to the client
+export interface TokenSource {
+  getToken(): Promise<string>;
+  // Forget the cached token, e.g. after Lightspeed rejected it; the next getToken() must not return it
+  invalidate(rejectedToken?: string): void;
+}
+
+export interface TokenServiceSourceOptions {
+  url: string; // Base URL of the token service, e.g. http://lightspeed-tokens:3000
+  apiKey: string; // Consumer API key (bun run tokens consumers add <name>)
+  account?: string; // Token service account, default "default"
+  scopes?: string[]; // Scopes the token must carry, checked by the token service
+  refreshMarginMs?: number; // Fetch a new token this long before expiresAt (default 60s)
+  fetch?: FetchLike;
+  now?: () => number;
+}
+
+const DEFAULT_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Fetches access tokens from the token service's GET /v1/token and keeps them
+ * until shortly before they expire. Concurrent callers share one request.
+ * After invalidate(token) the next fetch asks the service to replace that token.
+ */
+export class TokenServiceSource implements TokenSource {
+  private readonly endpoint: string;
+  private readonly apiKey: string;
+  private readonly refreshMarginMs: number;
+  private readonly fetch: FetchLike;
+  private readonly now: () => number;
+  private cached: { accessToken: string; validUntil: number } | null = null;
+  private rejectedToken: string | null = null;
+  private inflight: Promise<string> | null = null;
+
+  constructor(options: TokenServiceSourceOptions) {
+    const query = new URLSearchParams({ account: options.account ?? "default" });
+    if (options.scopes && options.scopes.length > 0) {
+      query.set("scope", options.scopes.join(" "));
+    }
+    this.endpoint = `${options.url.replace(/\/+$/, "")}/v1/token?${query}`;
+    this.apiKey = options.apiKey;
+    this.refreshMarginMs = options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? Date.now;
+  }
+
+  async getToken(): Promise<string> {
+    if (this.cached && this.now() < this.cached.validUntil) {
+      return this.cached.accessToken;
+    }
+
+    if (!this.inflight) {
+      this.inflight = this.fetchToken().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return await this.inflight;
+  }
+
+  invalidate(rejectedToken?: string): void {
+    this.cached = null;
+    this.rejectedToken = rejectedToken ?? null;
+  }
+
+  private async fetchToken(): Promise<string> {
+    const rejectedToken = this.rejectedToken;
+    const response = await this.fetch(this.endpoint, {
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        Accept: "application/json",
+        ...(rejectedToken ? { [REJECTED_TOKEN_HEADER]: rejectedToken } : {}),
+      },
+    });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new TokenServiceError(
+        response.status,
+        body?.error ?? "unknown_error",
+        body?.message ?? response.statusText,
+        body
+      );
+    }
+
+    const token = body as TokenServiceToken;
+    if (this.rejectedToken === rejectedToken) {
+      this.rejectedToken = null;
+    }
+    // Without an expiry the token is used for this request only
+    this.cached = token.expiresAt
+      ? {
+          accessToken: token.accessToken,
+          validUntil: new Date(token.expiresAt).getTime() - this.refreshMarginMs,
+        }
+      : null;
+    return token.accessToken;
+  }
+}
@@ -1,19 +1,24 @@
 import { PrismaClient } from "../generated/prisma";
+import { getConfig } from "../services/config";
 
 // Global instance to prevent multiple Prisma clients in development
 declare global {
   var __prisma: PrismaClient | undefined;
 }
 
+// DATABASE_URL may come from the config file or DATABASE_URL_FILE, not just the environment
+const datasourceUrl = getConfig().store.databaseUrl ?? undefined;
+
 // Create Prisma client instance
 let prisma: PrismaClient;
 
 if (process.env.NODE_ENV === "production") {
-  prisma = new PrismaClient();
+  prisma = new PrismaClient({ datasourceUrl });
 } else {
   // In development, use global instance to prevent hot reloading issues
   if (!global.__prisma) {
     global.__prisma = new PrismaClient({
+      datasourceUrl,
       log:
         process.env.NODE_ENV === "development"
           ? ["query", "error", "warn"]
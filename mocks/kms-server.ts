@@ -0,0 +1,92 @@
+#!/usr/bin/env bun
+/**
+ * Local stand-in for a KMS wrap/unwrap API, for development and tests of the
+ * "kms" encryption provider. Not for production use.
+ *
+ *   MOCK_KMS_PORT=8200 MOCK_KMS_KEYS="k1:<hex>,k2:<hex>" bun run mocks/kms-server.ts
+ *
+ * Without MOCK_KMS_KEYS a random key "local" is generated, so wrapped keys
+ * only survive for the lifetime of the process.
+ */
+import crypto from "crypto";
+import { Keyring, type EncryptionKey } from "../services/encryption";
+
+export function createMockKmsServer(options: {
+  port?: number;
+  keys?: EncryptionKey[];
+  authToken?: string;
+} = {}) {
+  const keys = options.keys?.length
+    ? options.keys
+    : [{ id: "local", key: crypto.randomBytes(32) }];
+  const keyrings = new Map(keys.map((key) => [key.id, new Keyring([key])]));
+  const defaultKeyId = keys[0].id;
+
+  const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  return Bun.serve({
+    port: options.port ?? 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+
+      if (request.method !== "POST" || !["/wrap", "/unwrap"].includes(url.pathname)) {
+        return json(404, { error: "not_found" });
+      }
+
+      if (
+        options.authToken &&
+        request.headers.get("authorization") !== `Bearer ${options.authToken}`
+      ) {
+        return json(401, { error: "unauthorized" });
+      }
+
+      const body = (await request.json().catch(() => ({}))) as {
+        keyId?: string;
+        plaintext?: string;
+        ciphertext?: string;
+      };
+      const keyId = body.keyId || defaultKeyId;
+      const keyring = keyrings.get(keyId);
+
+      if (!keyring) {
+        return json(400, { error: "unknown_key", message: `Unknown key "${keyId}"` });
+      }
+
+      try {
+        if (url.pathname === "/wrap") {
+          if (!body.plaintext) {
+            return json(400, { error: "invalid_request", message: "plaintext is required" });
+          }
+          return json(200, { keyId, ciphertext: keyring.encrypt(body.plaintext) });
+        }
+
+        if (!body.ciphertext) {
+          return json(400, { error: "invalid_request", message: "ciphertext is required" });
+        }
+        return json(200, { keyId, plaintext: keyring.decrypt(body.ciphertext) });
+      } catch (error) {
+        return json(400, {
+          error: "decrypt_failed",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+  });
+}
+
+if (import.meta.main) {
+  const server = createMockKmsServer({
+    port: parseInt(process.env.MOCK_KMS_PORT || "8200", 10),
+    keys: process.env.MOCK_KMS_KEYS
+      ? Keyring.parseKeyEntries(process.env.MOCK_KMS_KEYS.split(","))
+      : undefined,
+    authToken: process.env.MOCK_KMS_TOKEN,
+  });
+
+  console.log(`🔐 Mock KMS listening on http://localhost:${server.port}`);
+  console.log(`   Set TOKEN_ENCRYPTION_PROVIDER=kms TOKEN_KMS_URL=http://localhost:${server.port}`);
+}
@@ -0,0 +1,290 @@
+#!/usr/bin/env bun
+/**
+ * Local stand-in for the Lightspeed OAuth server, for development and tests
+ * without network access. Not for production use.
+ *
+ *   MOCK_OAUTH_PORT=8300 bun run mocks/oauth-server.ts
+ *   LIGHTSPEED_OAUTH_BASE_URL=http://localhost:8300 bun run tokens login
+ *
+ * GET /auth/oauth/authorize approves immediately and redirects back with a code.
+ * POST /auth/oauth/token handles the authorization_code and refresh_token grants;
+ * every refresh rotates the refresh token and the old one stops working.
+ *
+ * Failures can be injected for upcoming token requests, either at startup with
+ * MOCK_OAUTH_FAILURES="429:2,500" (mode[:count]) or at runtime:
+ *
+ *   curl -X POST localhost:8300/mock/failures -d '{"mode":"invalid_grant","count":1}'
+ *   curl -X DELETE localhost:8300/mock/failures
+ */
+import crypto from "crypto";
+
+export type MockOAuthFailureMode = "401" | "429" | "500" | "timeout" | "invalid_grant";
+
+export interface MockOAuthFailure {
+  mode: MockOAuthFailureMode;
+  count: number; // Token requests left to fail
+  retryAfterSeconds?: number; // Sent with 429
+  delayMs?: number; // How long a "timeout" stalls before answering 504
+}
+
+export interface MockOAuthServerOptions {
+  port?: number;
+  clientId?: string;
+  clientSecret?: string;
+  accessTokenTtlSeconds?: number;
+  failures?: MockOAuthFailure[];
+}
+
+const FAILURE_MODES: MockOAuthFailureMode[] = ["401", "429", "500", "timeout", "invalid_grant"];
+
+/**
+ * Parse "mode[:count],..." as used by MOCK_OAUTH_FAILURES
+ */
+export function parseFailures(spec: string): MockOAuthFailure[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [mode, count] = entry.split(":");
+      if (!FAILURE_MODES.includes(mode as MockOAuthFailureMode)) {
+        throw new Error(
+          `Unknown failure mode "${mode}" (expected ${FAILURE_MODES.join(", ")})`
+        );
+      }
+      return { mode: mode as MockOAuthFailureMode, count: count ? parseInt(count, 10) : 1 };
+    });
+}
+
+export function createMockOAuthServer(options: MockOAuthServerOptions = {}) {
+  const clientId = options.clientId ?? "mock-client";
+  const clientSecret = options.clientSecret ?? "mock-secret";
+  const accessTokenTtlSeconds = options.accessTokenTtlSeconds ?? 3600;
+
+  // code -> scope; refresh token -> scope. Both are single use.
+  const authCodes = new Map<string, string>();
+  const refreshTokens = new Map<string, string>();
+  let failures: MockOAuthFailure[] = [...(options.failures ?? [])];
+  const stats = { tokenRequests: 0, codeExchanges: 0, refreshes: 0, injectedFailures: 0 };
+
+  const randomToken = (prefix: string) => `${prefix}_${crypto.randomBytes(24).toString("hex")}`;
+
+  const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+
+  const oauthError = (status: number, error: string, description: string) =>
+    json(status, { error, error_description: description });
+
+  const issueAuthCode = (scope = "employee:all"): string => {
+    const code = randomToken("code");
+    authCodes.set(code, scope);
+    return code;
+  };
+
+  const issueTokens = (scope: string) => {
+    const refreshToken = randomToken("rt");
+    refreshTokens.set(refreshToken, scope);
+    return {
+      access_token: randomToken("at"),
+      refresh_token: refreshToken,
+      token_type: "bearer",
+      expires_in: accessTokenTtlSeconds,
+      scope,
+    };
+  };
+
+  const takeFailure = (): MockOAuthFailure | null => {
+    const failure = failures[0];
+    if (!failure) {
+      return null;
+    }
+
+    failure.count--;
+    if (failure.count <= 0) {
+      failures.shift();
+    }
+    stats.injectedFailures++;
+    return failure;
+  };
+
+  const failureResponse = async (failure: MockOAuthFailure): Promise<Response> => {
+    switch (failure.mode) {
+      case "401":
+        return oauthError(401, "invalid_client", "Injected failure: client authentication failed");
+      case "429":
+        return json(
+          429,
+          { error: "rate_limited", error_description: "Injected failure: too many requests" },
+          { "Retry-After": String(failure.retryAfterSeconds ?? 1) }
+        );
+      case "500":
+        return oauthError(500, "server_error", "Injected failure: internal error");
+      case "timeout":
+        await Bun.sleep(failure.delayMs ?? 60 * 1000);
+        return oauthError(504, "timeout", "Injected failure: request timed out");
+      case "invalid_grant":
+        return oauthError(400, "invalid_grant", "Injected failure: refresh token is invalid");
+    }
+  };
+
+  const readBody = async (request: Request): Promise<Record<string, string>> => {
+    const contentType = request.headers.get("content-type") || "";
+    if (contentType.includes("application/x-www-form-urlencoded")) {
+      return Object.fromEntries(new URLSearchParams(await request.text()));
+    }
+    return ((await request.json().catch(() => ({}))) as Record<string, string>) ?? {};
+  };
+
+  const handleToken = async (request: Request): Promise<Response> => {
+    stats.tokenRequests++;
+
+    const failure = takeFailure();
+    if (failure) {
+      return await failureResponse(failure);
+    }
+
+    const body = await readBody(request);
+
+    if (body.client_id !== clientId || body.client_secret !== clientSecret) {
+      return oauthError(401, "invalid_client", "Client authentication failed");
+    }
+
+    if (body.grant_type === "authorization_code") {
+      const scope = body.code ? authCodes.get(body.code) : undefined;
+      if (scope === undefined) {
+        return oauthError(400, "invalid_grant", "Authorization code is invalid or already used");
+      }
+      authCodes.delete(body.code);
+      stats.codeExchanges++;
+      return json(200, issueTokens(scope));
+    }
+
+    if (body.grant_type === "refresh_token") {
+      const scope = body.refresh_token ? refreshTokens.get(body.refresh_token) : undefined;
+      if (scope === undefined) {
+        return oauthError(400, "invalid_grant", "Refresh token is invalid or has been rotated");
+      }
+      refreshTokens.delete(body.refresh_token); // Rotate: the old refresh token is spent
+      stats.refreshes++;
+      return json(200, issueTokens(scope));
+    }
+
+    return oauthError(400, "unsupported_grant_type", `Unsupported grant_type "${body.grant_type}"`);
+  };
+
+  const handleAuthorize = (url: URL): Response => {
+    if (url.searchParams.get("client_id") !== clientId) {
+      return oauthError(400, "invalid_client", "Unknown client_id");
+    }
+
+    const code = issueAuthCode(url.searchParams.get("scope") || "employee:all");
+    const redirectUri = url.searchParams.get("redirect_uri");
+
+    if (!redirectUri) {
+      return json(200, { code });
+    }
+
+    const redirect = new URL(redirectUri);
+    redirect.searchParams.set("code", code);
+    const state = url.searchParams.get("state");
+    if (state) {
+      redirect.searchParams.set("state", state);
+    }
+
+    return Response.redirect(redirect.toString(), 302);
+  };
+
+  const handleFailures = async (request: Request): Promise<Response> => {
+    if (request.method === "DELETE") {
+      failures = [];
+      return json(200, { failures });
+    }
+
+    if (request.method === "POST") {
+      const body = (await request.json().catch(() => ({}))) as Partial<MockOAuthFailure>;
+      if (!body.mode || !FAILURE_MODES.includes(body.mode)) {
+        return json(400, {
+          error: "invalid_request",
+          message: `mode must be one of ${FAILURE_MODES.join(", ")}`,
+        });
+      }
+      failures.push({
+        mode: body.mode,
+        count: body.count ?? 1,
+        retryAfterSeconds: body.retryAfterSeconds,
+        delayMs: body.delayMs,
+      });
+    }
+
+    return json(200, { failures });
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    idleTimeout: 0, // Injected timeouts stall longer than Bun's default idle limit
+    async fetch(request) {
+      const url = new URL(request.url);
+
+      if (request.method === "POST" && url.pathname === "/auth/oauth/token") {
+        return await handleToken(request);
+      }
+      if (request.method === "GET" && url.pathname === "/auth/oauth/authorize") {
+        return handleAuthorize(url);
+      }
+      if (url.pathname === "/mock/failures") {
+        return await handleFailures(request);
+      }
+      if (request.method === "POST" && url.pathname === "/mock/codes") {
+        const body = (await request.json().catch(() => ({}))) as { scope?: string };
+        return json(200, { code: issueAuthCode(body.scope) });
+      }
+      if (request.method === "GET" && url.pathname === "/mock/stats") {
+        return json(200, stats);
+      }
+
+      return json(404, { error: "not_found" });
+    },
+  });
+
+  return {
+    server,
+    url: `http://localhost:${server.port}`,
+    clientId,
+    clientSecret,
+    stats,
+    issueAuthCode,
+    injectFailure(failure: Omit<MockOAuthFailure, "count"> & { count?: number }) {
+      failures.push({ ...failure, count: failure.count ?? 1 });
+    },
+    clearFailures() {
+      failures = [];
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+export type MockOAuthServer = ReturnType<typeof createMockOAuthServer>;
+
+if (import.meta.main) {
+  const mock = createMockOAuthServer({
+    port: parseInt(process.env.MOCK_OAUTH_PORT || "8300", 10),
+    clientId: process.env.MOCK_OAUTH_CLIENT_ID,
+    clientSecret: process.env.MOCK_OAUTH_CLIENT_SECRET,
+    accessTokenTtlSeconds: process.env.MOCK_OAUTH_TOKEN_TTL
+      ? parseInt(process.env.MOCK_OAUTH_TOKEN_TTL, 10)
+      : undefined,
+    failures: process.env.MOCK_OAUTH_FAILURES
+      ? parseFailures(process.env.MOCK_OAUTH_FAILURES)
+      : undefined,
+  });
+
+  console.log(`🧪 Mock Lightspeed OAuth listening on ${mock.url}`);
+  console.log(`   Client credentials: ${mock.clientId} / ${mock.clientSecret}`);
+  console.log(`   Set LIGHTSPEED_OAUTH_BASE_URL=${mock.url}`);
+  console.log(`   Get a code: curl -X POST ${mock.url}/mock/codes`);
+}
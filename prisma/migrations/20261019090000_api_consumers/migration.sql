@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."api_consumers" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "key_prefix" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_consumers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_consumers_name_key" ON "public"."api_consumers"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_consumers_key_hash_key" ON "public"."api_consumers"("key_hash");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."lightspeed_tokens" ADD COLUMN "account_id" TEXT NOT NULL DEFAULT 'default';
+
+-- Keep only the most recently updated row before enforcing one row per account
+DELETE FROM "public"."lightspeed_tokens" AS older
+USING "public"."lightspeed_tokens" AS newer
+WHERE older."account_id" = newer."account_id"
+  AND (older."updated_at" < newer."updated_at"
+    OR (older."updated_at" = newer."updated_at" AND older."id" < newer."id"));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lightspeed_tokens_account_id_key" ON "public"."lightspeed_tokens"("account_id");
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "public"."token_leases" (
+    "name" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "fencing_token" INTEGER NOT NULL DEFAULT 1,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "acquired_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_leases_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."token_events" (
+    "id" SERIAL NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "http_status" INTEGER,
+    "message" TEXT,
+    "error_body" TEXT,
+    "refresh_token_fingerprint" TEXT,
+    "new_token_fingerprint" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "token_events_account_id_created_at_idx" ON "public"."token_events"("account_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "token_events_type_idx" ON "public"."token_events"("type");
+
+-- CreateIndex
+CREATE INDEX "token_events_created_at_idx" ON "public"."token_events"("created_at");
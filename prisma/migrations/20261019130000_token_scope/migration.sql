@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."lightspeed_tokens" ADD COLUMN "scope" TEXT;
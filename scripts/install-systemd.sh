@@ -51,6 +51,7 @@ fi
 # Install systemd service
 echo "⚙️  Installing systemd service..."
 cp "$SERVICE_FILE" "/etc/systemd/system/"
+cp lightspeed-tokens-ready.service "/etc/systemd/system/" # Readiness gate for services that need tokens
 systemctl daemon-reload
 systemctl enable "$SERVICE_NAME"
 
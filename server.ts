@@ -1,28 +1,63 @@
 import { TokenScheduler } from "./services/token-scheduler";
 import { LightspeedTokenService } from "./services/token-service";
+import { ConsumerService } from "./services/consumer-service";
+import { TokenApi } from "./services/token-api";
+import { LightspeedProxy } from "./services/lightspeed-proxy";
+import { HealthService } from "./services/health-service";
+import { logger } from "./services/logger";
+import { ConfigError, getConfig, getLightspeedCredentials, type AppConfig } from "./services/config";
+
+const log = logger.child({ component: "server" });
+
+// Validated before any service is built. Importers get the ConfigError; only a
+// server run directly reports it and exits
+const config = loadServerConfig();
 
-const scheduler = new TokenScheduler();
 const tokenService = new LightspeedTokenService();
+const scheduler = new TokenScheduler(tokenService);
+const consumerService = new ConsumerService();
+const tokenApi = new TokenApi(
+  tokenService,
+  consumerService,
+  config.metrics.token ?? undefined,
+  new LightspeedProxy(tokenService),
+  new HealthService(tokenService, scheduler)
+);
+
+function loadServerConfig(): AppConfig {
+  try {
+    return getConfig();
+  } catch (error) {
+    if (import.meta.main && error instanceof ConfigError) {
+      exitWithConfigError(error);
+    }
+    throw error;
+  }
+}
+
+function exitWithConfigError(error: ConfigError): never {
+  log.error("❌ Invalid configuration - run `bun run tokens config check` for details", {
+    problems: error.problems,
+  });
+  process.exit(1);
+}
 
 async function startTokenService() {
-  console.log("🚀 Starting Lightspeed Token Service...");
+  // The server refreshes tokens, so it cannot run without the client credentials
+  getLightspeedCredentials(config);
+
+  log.info("🚀 Starting Lightspeed Token Service...");
 
   // Perform initial health check
-  console.log("🔍 Performing initial token health check...");
-  const initialStatus = await tokenService.getTokenStatus();
+  log.info("🔍 Performing initial token health check...");
+  const accounts = await tokenService.listAccounts();
   
-  if (!initialStatus) {
-    console.log("");
-    console.log("⚠️  WARNING: No tokens configured!");
-    console.log("🚨 The service is starting but cannot manage tokens until you login");
-    console.log("");
-    console.log("📋 To configure tokens (choose one):");
-    console.log("   Option 1 - OAuth: bun run tokens login <authorization_code>");
-    console.log("   Option 2 - Manual: bun run tokens set <access_token> <refresh_token>");
-    console.log("   The service will automatically start managing your tokens");
-    console.log("");
-    console.log("💡 The service will continue running and check for tokens periodically");
-    console.log("");
+  if (accounts.length === 0) {
+    log.warn(
+      "⚠️  No tokens configured! The service cannot manage tokens until you log in: " +
+        "bun run tokens login <authorization_code> (OAuth) or bun run tokens set <access_token> <refresh_token> (manual). " +
+        "The service keeps running and checks for tokens periodically"
+    );
   } else {
     await scheduler.runOneTimeHealthCheck();
   }
@@ -30,30 +65,49 @@ async function startTokenService() {
   // Start the schedulers
   scheduler.startAll();
 
-  console.log("✅ Lightspeed Token Service is running");
-  console.log("📋 Service includes:");
-  console.log("   • Token refresh every 5 minutes");
-  console.log("   • Health check every hour");
-  console.log("   • Automatic token refresh before expiry");
+  // Start the HTTP API so other services can fetch tokens
+  tokenApi.start(config.server.port, config.server.host);
+
+  log.info("✅ Lightspeed Token Service is running", {
+    features: [
+      `Token refresh when due, safety-net poll: ${config.refresh.refreshCheckSchedule}`,
+      `Health check: ${config.refresh.healthCheckSchedule}`,
+      "Automatic token refresh before expiry",
+      "Leader election: one replica runs scheduled refreshes",
+      "HTTP token endpoint: GET /v1/token (API key required)",
+      "Lightspeed API proxy: /proxy/API/... (API key required)",
+      "Prometheus metrics: GET /metrics",
+      "Health probes: GET /healthz (liveness), GET /readyz (readiness)",
+      `OAuth callback: GET ${new URL(config.lightspeed.redirectUri).pathname} completes logins begun with the CLI`,
+    ],
+  });
   
   // Keep the process running
-  process.on('SIGINT', () => {
-    console.log("\n🛑 Shutting down Lightspeed Token Service...");
-    scheduler.stopAll();
+  process.on('SIGINT', async () => {
+    log.info("🛑 Shutting down Lightspeed Token Service...");
+    await scheduler.stopAll(); // Hands the leader lease to another replica
+    tokenApi.stop();
     process.exit(0);
   });
 
-  process.on('SIGTERM', () => {
-    console.log("\n🛑 Shutting down Lightspeed Token Service...");
-    scheduler.stopAll();
+  process.on('SIGTERM', async () => {
+    log.info("🛑 Shutting down Lightspeed Token Service...");
+    await scheduler.stopAll();
+    tokenApi.stop();
     process.exit(0);
   });
 }
 
 // Start the service if this file is run directly
 if (import.meta.main) {
-  startTokenService().catch(console.error);
+  startTokenService().catch((error) => {
+    if (error instanceof ConfigError) {
+      exitWithConfigError(error);
+    }
+    log.error("❌ Failed to start Lightspeed Token Service", { error });
+    process.exit(1);
+  });
 }
 
 // Export for use in other files
-export { scheduler, tokenService };
\ No newline at end of file
+export { scheduler, tokenService, consumerService, tokenApi };
\ No newline at end of file
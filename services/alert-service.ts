@@ -0,0 +1,250 @@
+import { systemClock, type Clock } from "./clock";
+import { getConfig } from "./config";
+import {
+  SlackNotifier,
+  SmtpNotifier,
+  WebhookNotifier,
+  type Notifier,
+  type SmtpOptions,
+} from "./notifiers";
+import { logger } from "./logger";
+
+export type AlertType =
+  | "refresh_failure"
+  | "expiring_soon"
+  | "reauth_required"
+  | "recovered";
+
+export type AlertSeverity = "critical" | "warning" | "info";
+
+export interface Alert {
+  type: AlertType;
+  severity: AlertSeverity;
+  accountId: string;
+  title: string;
+  message: string;
+  occurredAt: Date;
+}
+
+export interface AlertServiceOptions {
+  cooldownMinutes?: number; // How long an unchanged alert stays quiet before it is repeated
+  expiryThresholdMinutes?: number; // Alert when tokens expire within this many minutes
+  clock?: Clock;
+}
+
+// Notifiers and thresholds configured by the ALERT_* settings
+export interface AlertSettings {
+  webhook: { url: string; token: string | null } | null;
+  slackWebhookUrl: string | null;
+  smtp: SmtpOptions | null;
+  cooldownMinutes: number;
+  expiryThresholdMinutes: number;
+}
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const DEFAULT_EXPIRY_THRESHOLD_MINUTES = 5; // Below the refresh buffer, so only fires when refreshing has fallen behind
+
+/**
+ * Sends alerts about token problems to the configured notifiers.
+ *
+ * Each (account, alert type) pair is sent once and then held back for the cooldown,
+ * so a problem that persists across scheduler runs produces one alert plus an
+ * occasional reminder. Once an account with open problems is healthy again a
+ * single "recovered" alert is sent and its state is cleared.
+ */
+export class AlertService {
+  readonly expiryThresholdMinutes: number;
+  private readonly notifiers: Notifier[];
+  private readonly cooldownMs: number;
+  private readonly clock: Clock;
+
+  // When each "<accountId>:<type>" alert was last sent
+  private lastSent = new Map<string, number>();
+  // Problem alerts sent per account and not yet resolved
+  private openProblems = new Map<string, Set<AlertType>>();
+
+  constructor(notifiers: Notifier[], options: AlertServiceOptions = {}) {
+    this.notifiers = notifiers;
+    this.cooldownMs = (options.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES) * 60 * 1000;
+    this.expiryThresholdMinutes =
+      options.expiryThresholdMinutes ?? DEFAULT_EXPIRY_THRESHOLD_MINUTES;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Notifiers configured through the ALERT_* settings
+   */
+  static fromConfig(settings: AlertSettings = getConfig().alerts): AlertService {
+    const notifiers: Notifier[] = [];
+
+    if (settings.webhook) {
+      notifiers.push(new WebhookNotifier(settings.webhook.url, settings.webhook.token ?? undefined));
+    }
+
+    if (settings.slackWebhookUrl) {
+      notifiers.push(new SlackNotifier(settings.slackWebhookUrl));
+    }
+
+    if (settings.smtp) {
+      if (!settings.smtp.from || settings.smtp.to.length === 0) {
+        throw new Error("ALERT_SMTP_FROM and ALERT_SMTP_TO are required when ALERT_SMTP_HOST is set");
+      }
+      notifiers.push(new SmtpNotifier(settings.smtp));
+    }
+
+    return new AlertService(notifiers, {
+      cooldownMinutes: settings.cooldownMinutes,
+      expiryThresholdMinutes: settings.expiryThresholdMinutes,
+    });
+  }
+
+  get notifierNames(): string[] {
+    return this.notifiers.map((notifier) => notifier.name);
+  }
+
+  /**
+   * A refresh failed for a reason that may clear up on its own
+   */
+  async refreshFailed(accountId: string, reason: string): Promise<void> {
+    await this.raise({
+      type: "refresh_failure",
+      severity: "warning",
+      accountId,
+      title: `Token refresh failed for account "${accountId}"`,
+      message: `${reason}. The scheduler will keep retrying.`,
+    });
+  }
+
+  /**
+   * Lightspeed rejected the refresh token or client credentials: a person must log in again
+   */
+  async reauthRequired(accountId: string, reason: string): Promise<void> {
+    await this.raise({
+      type: "reauth_required",
+      severity: "critical",
+      accountId,
+      title: `Re-authorization required for account "${accountId}"`,
+      message: `${reason}. Run: bun run tokens login --account ${accountId}`,
+    });
+  }
+
+  /**
+   * Tokens are about to expire (or have expired) without being refreshed
+   */
+  async expiringSoon(accountId: string, expiresAt: Date | null, minutesLeft: number): Promise<void> {
+    const expired = minutesLeft <= 0;
+    await this.raise({
+      type: "expiring_soon",
+      severity: expired ? "critical" : "warning",
+      accountId,
+      title: expired
+        ? `Tokens for account "${accountId}" have expired`
+        : `Tokens for account "${accountId}" expire in ${minutesLeft} minute(s)`,
+      message: `Access token expiry: ${expiresAt ? expiresAt.toISOString() : "unknown"}. Automatic refresh has not renewed it.`,
+    });
+  }
+
+  /**
+   * The account is healthy: send a recovery alert if problems were reported
+   */
+  async resolve(accountId: string): Promise<void> {
+    const problems = this.openProblems.get(accountId);
+    this.forget(accountId);
+
+    if (!problems?.size) {
+      return;
+    }
+
+    await this.deliver({
+      type: "recovered",
+      severity: "info",
+      accountId,
+      title: `Tokens for account "${accountId}" recovered`,
+      message: `Resolved: ${[...problems].join(", ")}.`,
+      occurredAt: this.clock.now(),
+    });
+  }
+
+  /**
+   * Drop all alert state for an account without notifying (e.g. its tokens were removed)
+   */
+  forget(accountId: string): void {
+    this.openProblems.delete(accountId);
+    for (const key of this.lastSent.keys()) {
+      if (key.startsWith(`${accountId}:`)) {
+        this.lastSent.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Send a test alert to every notifier, bypassing cooldowns. Returns each notifier's error, if any.
+   */
+  async sendTest(): Promise<{ notifier: string; error?: string }[]> {
+    const alert: Alert = {
+      type: "recovered",
+      severity: "info",
+      accountId: "test",
+      title: "Test alert from lightspeed-token-service",
+      message: "Alert delivery is configured correctly.",
+      occurredAt: this.clock.now(),
+    };
+
+    return await Promise.all(
+      this.notifiers.map(async (notifier) => {
+        try {
+          await notifier.send(alert);
+          return { notifier: notifier.name };
+        } catch (error) {
+          return {
+            notifier: notifier.name,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+      })
+    );
+  }
+
+  private async raise(alert: Omit<Alert, "occurredAt">): Promise<void> {
+    const key = `${alert.accountId}:${alert.type}`;
+    const now = this.clock.now();
+    const lastSentAt = this.lastSent.get(key);
+
+    let problems = this.openProblems.get(alert.accountId);
+    if (!problems) {
+      problems = new Set();
+      this.openProblems.set(alert.accountId, problems);
+    }
+    problems.add(alert.type);
+
+    if (lastSentAt !== undefined && now.getTime() - lastSentAt < this.cooldownMs) {
+      return; // Already reported recently
+    }
+
+    this.lastSent.set(key, now.getTime());
+    await this.deliver({ ...alert, occurredAt: now });
+  }
+
+  /**
+   * Send to every notifier. Never throws: a broken notifier must not break the scheduler.
+   */
+  private async deliver(alert: Alert): Promise<void> {
+    if (this.notifiers.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      this.notifiers.map((notifier) => notifier.send(alert))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        logger.error(`❌ Failed to send ${alert.type} alert via ${this.notifiers[index].name}`, {
+          component: "alerts",
+          accountId: alert.accountId,
+          error: result.reason,
+        });
+      }
+    });
+  }
+}
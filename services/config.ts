@@ -0,0 +1,535 @@
+import { readFileSync } from "fs";
+import { extname, resolve } from "path";
+import { createEncryptionProvider, type EncryptionConfig } from "./encryption-providers";
+import { formatDuration, parseDuration, parseRefreshPolicy, type RefreshPolicy } from "./refresh-policy";
+import type { AlertSettings } from "./alert-service";
+import type { LogFormat, LogLevel } from "./logger";
+import type { TokenStoreName } from "./token-store";
+
+export type ConfigSection =
+  | "server"
+  | "lightspeed"
+  | "store"
+  | "encryption"
+  | "logging"
+  | "metrics"
+  | "refresh"
+  | "leader"
+  | "alerts";
+
+interface SettingDefinition {
+  name: string; // Environment variable, also the key in the config file
+  section: ConfigSection;
+  default?: string;
+  secret?: boolean; // Masked by `config check` and in logs
+  fileVariant?: boolean; // May be read from <name>_FILE (default: secrets)
+}
+
+// Every setting the service reads, in the order `config check` prints them
+export const SETTINGS: SettingDefinition[] = [
+  { name: "PORT", section: "server", default: "3000" },
+  { name: "HOST", section: "server", default: "0.0.0.0" },
+  { name: "LIGHTSPEED_CLIENT_ID", section: "lightspeed", fileVariant: true },
+  { name: "LIGHTSPEED_CLIENT_SECRET", section: "lightspeed", secret: true },
+  { name: "LIGHTSPEED_REDIRECT_URI", section: "lightspeed", default: "https://localhost:3000/auth/callback" },
+  { name: "LIGHTSPEED_OAUTH_BASE_URL", section: "lightspeed", default: "https://cloud.lightspeedapp.com" },
+  { name: "LIGHTSPEED_API_BASE_URL", section: "lightspeed", default: "https://api.lightspeedapp.com" },
+  { name: "OAUTH_CALLBACK_TLS_CERT", section: "lightspeed" },
+  { name: "OAUTH_CALLBACK_TLS_KEY", section: "lightspeed" },
+  { name: "TOKEN_STORE", section: "store", default: "postgres" },
+  { name: "TOKEN_STORE_PATH", section: "store" },
+  { name: "DATABASE_URL", section: "store", secret: true },
+  { name: "TOKEN_ENCRYPTION_PROVIDER", section: "encryption", default: "env" },
+  { name: "TOKEN_ENCRYPTION_KEY", section: "encryption", secret: true },
+  { name: "TOKEN_ENCRYPTION_KEYS", section: "encryption", secret: true },
+  { name: "TOKEN_ENCRYPTION_PRIMARY_KEY_ID", section: "encryption" },
+  { name: "TOKEN_ENCRYPTION_KEY_FILE_PATH", section: "encryption" }, // Not *_FILE, which would read it as a secret
+  { name: "TOKEN_KMS_URL", section: "encryption" },
+  { name: "TOKEN_KMS_KEY_ID", section: "encryption" },
+  { name: "TOKEN_KMS_TOKEN", section: "encryption", secret: true },
+  { name: "LOG_LEVEL", section: "logging", default: "info" },
+  { name: "LOG_FORMAT", section: "logging", default: "pretty" },
+  { name: "METRICS_TOKEN", section: "metrics", secret: true },
+  { name: "REFRESH_BUFFER", section: "refresh", default: "10m" },
+  { name: "REFRESH_JITTER", section: "refresh", default: "0s" },
+  { name: "REFRESH_CHECK_SCHEDULE", section: "refresh", default: "*/15 * * * *" },
+  { name: "HEALTH_CHECK_SCHEDULE", section: "refresh", default: "0 * * * *" },
+  { name: "EXPIRY_WARNING_MINUTES", section: "refresh", default: "30" },
+  { name: "DEFAULT_TOKEN_LIFETIME", section: "refresh", default: "1h" },
+  { name: "LEADER_LEASE_TTL", section: "leader", default: "30s" },
+  { name: "LEADER_HEARTBEAT_INTERVAL", section: "leader", default: "10s" },
+  { name: "ALERT_WEBHOOK_URL", section: "alerts", secret: true },
+  { name: "ALERT_WEBHOOK_TOKEN", section: "alerts", secret: true },
+  { name: "ALERT_SLACK_WEBHOOK_URL", section: "alerts", secret: true },
+  { name: "ALERT_SMTP_HOST", section: "alerts" },
+  { name: "ALERT_SMTP_PORT", section: "alerts" },
+  { name: "ALERT_SMTP_SECURE", section: "alerts", default: "false" },
+  { name: "ALERT_SMTP_STARTTLS", section: "alerts", default: "true" },
+  { name: "ALERT_SMTP_USER", section: "alerts" },
+  { name: "ALERT_SMTP_PASSWORD", section: "alerts", secret: true },
+  { name: "ALERT_SMTP_FROM", section: "alerts" },
+  { name: "ALERT_SMTP_TO", section: "alerts" },
+  { name: "ALERT_EXPIRY_THRESHOLD_MINUTES", section: "alerts", default: "5" },
+  { name: "ALERT_COOLDOWN_MINUTES", section: "alerts", default: "60" },
+];
+
+export const SECRET_SETTINGS = SETTINGS.filter((setting) => setting.secret).map(
+  (setting) => setting.name
+);
+
+const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"];
+const LOG_FORMATS = ["pretty", "json"];
+const TOKEN_STORES = ["postgres", "sqlite", "file", "memory"];
+
+// Where a setting's value came from
+export type ConfigSource = "env" | "config file" | `${string}_FILE` | "default";
+
+export interface ResolvedEnvironment {
+  env: NodeJS.ProcessEnv; // Environment with the config file and *_FILE values merged in
+  sources: Record<string, ConfigSource>;
+  configFile: string | null;
+  problems: string[];
+}
+
+export interface AppConfig {
+  server: { port: number; host: string };
+  lightspeed: {
+    clientId: string | null; // Only needed to call Lightspeed - see getLightspeedCredentials
+    clientSecret: string | null;
+    redirectUri: string;
+    oauthBaseUrl: string;
+    apiBaseUrl: string;
+    callbackTls: { certFile: string; keyFile: string } | null;
+  };
+  store: { type: TokenStoreName; path: string | null; databaseUrl: string | null };
+  encryption: EncryptionConfig;
+  logging: {
+    level: LogLevel | "silent";
+    format: LogFormat;
+    secrets: string[]; // Values of the secret settings, masked in every log entry
+  };
+  metrics: { token: string | null };
+  refresh: RefreshPolicy;
+  leader: { leaseTtlMs: number; heartbeatMs: number };
+  alerts: AlertSettings;
+}
+
+// The configuration is unusable; `problems` lists every issue found, not just the first
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+/**
+ * Read the config file named by CONFIG_FILE: a JSON or YAML object of setting names to values
+ */
+function readConfigFile(path: string): Record<string, string> {
+  const absolute = resolve(path);
+  const extension = extname(absolute).toLowerCase();
+
+  let parsed: unknown;
+  if (extension === ".yaml" || extension === ".yml") {
+    parsed = require(absolute); // Bun parses YAML natively
+  } else if (extension === ".json") {
+    parsed = JSON.parse(readFileSync(absolute, "utf8"));
+  } else {
+    throw new Error(`use a .json, .yaml or .yml file, not "${extension || "no extension"}"`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("expected an object of setting names to values");
+  }
+
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (typeof value === "object") {
+      throw new Error(`${name} must be a string, number or boolean`);
+    }
+    values[name] = String(value);
+  }
+  return values;
+}
+
+/**
+ * Merge the config file (CONFIG_FILE) and Docker-style secret files (<NAME>_FILE)
+ * into the environment. Environment variables win over the config file. Problems
+ * are collected rather than thrown so callers can report them all at once.
+ */
+export function resolveEnvironment(base: NodeJS.ProcessEnv = process.env): ResolvedEnvironment {
+  const env: NodeJS.ProcessEnv = {};
+  const sources: Record<string, ConfigSource> = {};
+  const problems: string[] = [];
+  const configFile = base.CONFIG_FILE?.trim() || null;
+
+  if (configFile) {
+    try {
+      for (const [name, value] of Object.entries(readConfigFile(configFile))) {
+        env[name] = value;
+        sources[name] = "config file";
+      }
+    } catch (error) {
+      problems.push(
+        `CONFIG_FILE ${configFile} could not be read: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  for (const [name, value] of Object.entries(base)) {
+    if (value !== undefined) {
+      env[name] = value;
+      sources[name] = "env";
+    }
+  }
+
+  for (const setting of SETTINGS) {
+    const fileVariant = `${setting.name}_FILE`;
+    const path = env[fileVariant];
+    if (!(setting.fileVariant ?? setting.secret) || !path) {
+      continue;
+    }
+
+    if (env[setting.name]) {
+      problems.push(`Set either ${setting.name} or ${fileVariant}, not both`);
+      continue;
+    }
+
+    try {
+      env[setting.name] = readFileSync(path, "utf8").replace(/\r?\n$/, "");
+      sources[setting.name] = `${setting.name}_FILE`;
+    } catch (error) {
+      problems.push(
+        `${fileVariant} ${path} could not be read: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return { env, sources, configFile, problems };
+}
+
+function isUrl(value: string, protocols: string[] = ["http:", "https:"]): boolean {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isPositiveInteger(value: string): boolean {
+  return /^\d+$/.test(value) && parseInt(value, 10) > 0;
+}
+
+/**
+ * Lightspeed base URL setting without a trailing slash; throws when it is not an http(s) URL
+ */
+function parseBaseUrl(name: string, configured: string): string {
+  let url: URL;
+  try {
+    url = new URL(configured);
+  } catch {
+    throw new Error(`${name} is not a valid URL: "${configured}"`);
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`${name} must use http or https: "${configured}"`);
+  }
+
+  return configured.replace(/\/+$/, "");
+}
+
+/**
+ * Validate a resolved environment and build the typed configuration.
+ * Returns every problem found; `config` is only usable when there are none.
+ */
+export function parseConfig(env: NodeJS.ProcessEnv): { config: AppConfig; problems: string[] } {
+  const problems: string[] = [];
+  const value = (name: string): string | undefined => env[name]?.trim() || undefined;
+  const setting = (name: string): string =>
+    value(name) ?? SETTINGS.find((candidate) => candidate.name === name)?.default ?? "";
+
+  const port = setting("PORT");
+  if (!/^\d+$/.test(port) || parseInt(port, 10) > 65535) {
+    problems.push(`PORT must be a port number (0-65535), got "${port}"`);
+  }
+
+  const redirectUri = setting("LIGHTSPEED_REDIRECT_URI");
+  if (!isUrl(redirectUri)) {
+    problems.push(`LIGHTSPEED_REDIRECT_URI must be an http or https URL, got "${redirectUri}"`);
+  }
+
+  let oauthBaseUrl = "";
+  let apiBaseUrl = "";
+  try {
+    oauthBaseUrl = parseBaseUrl("LIGHTSPEED_OAUTH_BASE_URL", setting("LIGHTSPEED_OAUTH_BASE_URL"));
+  } catch (error) {
+    problems.push((error as Error).message);
+  }
+  try {
+    apiBaseUrl = parseBaseUrl("LIGHTSPEED_API_BASE_URL", setting("LIGHTSPEED_API_BASE_URL"));
+  } catch (error) {
+    problems.push((error as Error).message);
+  }
+
+  const certFile = value("OAUTH_CALLBACK_TLS_CERT");
+  const keyFile = value("OAUTH_CALLBACK_TLS_KEY");
+  if (!!certFile !== !!keyFile) {
+    problems.push("Set both OAUTH_CALLBACK_TLS_CERT and OAUTH_CALLBACK_TLS_KEY, or neither");
+  }
+
+  const store = setting("TOKEN_STORE").toLowerCase();
+  if (!TOKEN_STORES.includes(store)) {
+    problems.push(`TOKEN_STORE must be one of ${TOKEN_STORES.join(", ")}, got "${store}"`);
+  }
+  const databaseUrl = value("DATABASE_URL");
+  if (store === "postgres") {
+    if (!databaseUrl) {
+      problems.push("DATABASE_URL is required when TOKEN_STORE=postgres");
+    } else if (!isUrl(databaseUrl, ["postgres:", "postgresql:"])) {
+      problems.push("DATABASE_URL must be a postgres:// or postgresql:// connection string");
+    }
+  }
+
+  // Building the provider parses keys and reads key files, without contacting a KMS
+  const provider = setting("TOKEN_ENCRYPTION_PROVIDER").toLowerCase();
+  const encryption: EncryptionConfig = {
+    provider,
+    keys: value("TOKEN_ENCRYPTION_KEYS") ?? null,
+    key: value("TOKEN_ENCRYPTION_KEY") ?? null,
+    primaryKeyId: value("TOKEN_ENCRYPTION_PRIMARY_KEY_ID") ?? null,
+    keyFile: value("TOKEN_ENCRYPTION_KEY_FILE_PATH") ?? null,
+    kmsUrl: value("TOKEN_KMS_URL") ?? null,
+    kmsKeyId: value("TOKEN_KMS_KEY_ID") ?? null,
+    kmsToken: value("TOKEN_KMS_TOKEN") ?? null,
+  };
+  try {
+    createEncryptionProvider(encryption);
+    if (provider === "kms" && !isUrl(setting("TOKEN_KMS_URL"))) {
+      problems.push(`TOKEN_KMS_URL must be an http or https URL`);
+    }
+  } catch (error) {
+    problems.push(`Encryption (TOKEN_ENCRYPTION_PROVIDER=${provider}): ${(error as Error).message}`);
+  }
+
+  const level = setting("LOG_LEVEL").toLowerCase();
+  if (!LOG_LEVELS.includes(level)) {
+    problems.push(`LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")}, got "${level}"`);
+  }
+  const format = setting("LOG_FORMAT").toLowerCase();
+  if (!LOG_FORMATS.includes(format)) {
+    problems.push(`LOG_FORMAT must be one of ${LOG_FORMATS.join(", ")}, got "${format}"`);
+  }
+
+  const refresh = parseRefreshPolicy(env);
+  problems.push(...refresh.problems);
+
+  const leaseTtlMs = parseDuration(setting("LEADER_LEASE_TTL"));
+  const heartbeatMs = parseDuration(setting("LEADER_HEARTBEAT_INTERVAL"));
+  for (const [name, ms] of [["LEADER_LEASE_TTL", leaseTtlMs], ["LEADER_HEARTBEAT_INTERVAL", heartbeatMs]] as const) {
+    if (!ms) {
+      problems.push(`${name} must be a duration like "30s", got "${setting(name)}"`);
+    }
+  }
+  if (leaseTtlMs && heartbeatMs && heartbeatMs >= leaseTtlMs) {
+    problems.push(
+      `LEADER_HEARTBEAT_INTERVAL (${formatDuration(heartbeatMs)}) must be shorter than LEADER_LEASE_TTL (${formatDuration(leaseTtlMs)})`
+    );
+  }
+
+  for (const name of ["ALERT_WEBHOOK_URL", "ALERT_SLACK_WEBHOOK_URL"]) {
+    const url = value(name);
+    if (url && !isUrl(url)) {
+      problems.push(`${name} must be an http or https URL`);
+    }
+  }
+  if (value("ALERT_SMTP_HOST") && (!value("ALERT_SMTP_FROM") || !value("ALERT_SMTP_TO"))) {
+    problems.push("ALERT_SMTP_FROM and ALERT_SMTP_TO are required when ALERT_SMTP_HOST is set");
+  }
+  for (const name of ["ALERT_SMTP_PORT", "ALERT_EXPIRY_THRESHOLD_MINUTES", "ALERT_COOLDOWN_MINUTES"]) {
+    const number = value(name);
+    if (number && !isPositiveInteger(number)) {
+      problems.push(`${name} must be a positive whole number, got "${number}"`);
+    }
+  }
+
+  const webhookUrl = value("ALERT_WEBHOOK_URL");
+  const smtpHost = value("ALERT_SMTP_HOST");
+  const smtpSecure = setting("ALERT_SMTP_SECURE") === "true";
+  const alerts: AlertSettings = {
+    webhook: webhookUrl ? { url: webhookUrl, token: value("ALERT_WEBHOOK_TOKEN") ?? null } : null,
+    slackWebhookUrl: value("ALERT_SLACK_WEBHOOK_URL") ?? null,
+    smtp: smtpHost
+      ? {
+          host: smtpHost,
+          port: parseInt(value("ALERT_SMTP_PORT") ?? (smtpSecure ? "465" : "587"), 10),
+          secure: smtpSecure,
+          startTls: setting("ALERT_SMTP_STARTTLS") !== "false",
+          username: value("ALERT_SMTP_USER"),
+          password: value("ALERT_SMTP_PASSWORD"),
+          from: value("ALERT_SMTP_FROM") ?? "",
+          to: (value("ALERT_SMTP_TO") ?? "")
+            .split(",")
+            .map((address) => address.trim())
+            .filter(Boolean),
+        }
+      : null,
+    cooldownMinutes: parseInt(setting("ALERT_COOLDOWN_MINUTES"), 10),
+    expiryThresholdMinutes: parseInt(setting("ALERT_EXPIRY_THRESHOLD_MINUTES"), 10),
+  };
+
+  return {
+    problems,
+    config: {
+      server: { port: parseInt(port, 10), host: setting("HOST") },
+      lightspeed: {
+        clientId: value("LIGHTSPEED_CLIENT_ID") ?? null,
+        clientSecret: value("LIGHTSPEED_CLIENT_SECRET") ?? null,
+        redirectUri,
+        oauthBaseUrl,
+        apiBaseUrl,
+        callbackTls: certFile && keyFile ? { certFile, keyFile } : null,
+      },
+      store: {
+        type: store as TokenStoreName,
+        path: value("TOKEN_STORE_PATH") ?? null,
+        databaseUrl: databaseUrl ?? null,
+      },
+      encryption,
+      logging: {
+        level: level as LogLevel | "silent",
+        format: format as LogFormat,
+        secrets: SECRET_SETTINGS.map((name) => value(name) ?? "").filter(Boolean),
+      },
+      metrics: { token: value("METRICS_TOKEN") ?? null },
+      refresh: refresh.policy,
+      leader: { leaseTtlMs: leaseTtlMs ?? 0, heartbeatMs: heartbeatMs ?? 0 },
+      alerts,
+    },
+  };
+}
+
+let resolved: ResolvedEnvironment | null = null;
+let loaded: { config: AppConfig; problems: string[] } | null = null;
+
+/**
+ * Resolve the config file and *_FILE secrets once. Returns where each value came
+ * from and any problems found on the way; process.env itself is left untouched.
+ */
+export function getResolvedEnvironment(): ResolvedEnvironment {
+  if (!resolved) {
+    resolved = resolveEnvironment(process.env);
+  }
+  return resolved;
+}
+
+/**
+ * Configuration parsed once, with every problem found but not thrown - for code
+ * that runs before the configuration is validated, like the shared logger
+ */
+export function loadConfig(): { config: AppConfig; problems: string[] } {
+  if (!loaded) {
+    const resolution = getResolvedEnvironment();
+    const { config, problems } = parseConfig(resolution.env);
+    loaded = { config, problems: [...resolution.problems, ...problems] };
+  }
+  return loaded;
+}
+
+/**
+ * Validated configuration, loaded on first use. Throws ConfigError listing every problem.
+ */
+export function getConfig(): AppConfig {
+  const { config, problems } = loadConfig();
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+/**
+ * Problems that stop this process calling Lightspeed. Kept out of parseConfig so
+ * commands that only work with the store run without client credentials.
+ */
+export function lightspeedCredentialProblems(config: AppConfig): string[] {
+  const problems: string[] = [];
+  if (!config.lightspeed.clientId) {
+    problems.push("LIGHTSPEED_CLIENT_ID is required");
+  }
+  if (!config.lightspeed.clientSecret) {
+    problems.push("LIGHTSPEED_CLIENT_SECRET is required");
+  }
+  return problems;
+}
+
+/**
+ * Client credentials for calling Lightspeed. Throws ConfigError when either is missing.
+ */
+export function getLightspeedCredentials(config: AppConfig = getConfig()): {
+  clientId: string;
+  clientSecret: string;
+} {
+  const { clientId, clientSecret } = config.lightspeed;
+  if (!clientId || !clientSecret) {
+    throw new ConfigError(lightspeedCredentialProblems(config));
+  }
+  return { clientId, clientSecret };
+}
+
+/**
+ * Value safe to print: secrets are hidden, credentials in URLs are masked
+ */
+export function maskSetting(name: string, value: string): string {
+  const definition = SETTINGS.find((setting) => setting.name === name);
+
+  if (definition?.secret) {
+    if (isUrl(value, ["postgres:", "postgresql:"])) {
+      const url = new URL(value);
+      if (url.password) {
+        url.password = "****";
+      }
+      return url.toString();
+    }
+    if (isUrl(value)) {
+      return `${new URL(value).origin}/****`; // Webhook paths carry the secret
+    }
+    return `**** (${value.length} chars)`;
+  }
+
+  return value;
+}
+
+export interface ConfigReportEntry {
+  name: string;
+  section: ConfigSection;
+  value: string | null; // Masked
+  source: ConfigSource | null; // Null when unset
+}
+
+/**
+ * Every setting with its masked value and where it came from, for `config check`
+ */
+export function describeConfig(resolution: ResolvedEnvironment): ConfigReportEntry[] {
+  return SETTINGS.map((setting) => {
+    const value = resolution.env[setting.name]?.trim();
+    if (value) {
+      return {
+        name: setting.name,
+        section: setting.section,
+        value: maskSetting(setting.name, value),
+        source: resolution.sources[setting.name] ?? "env",
+      };
+    }
+    return {
+      name: setting.name,
+      section: setting.section,
+      value: setting.default ?? null,
+      source: setting.default !== undefined ? "default" : null,
+    };
+  });
+}
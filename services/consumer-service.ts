@@ -0,0 +1,301 @@
+import crypto from "crypto";
+import { getDefaultTokenStore, type TokenStore } from "./token-store";
+import { systemClock, type Clock } from "./clock";
+
+export interface ApiConsumer {
+  id: number;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  enabled: boolean;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Result of creating a consumer or rotating its key; the plain key is only ever shown once
+export interface IssuedApiKey {
+  consumer: ApiConsumer;
+  apiKey: string;
+}
+
+export class ConsumerService {
+  private readonly KEY_PREFIX = "lts_";
+  private readonly LAST_USED_THROTTLE_SECONDS = 60; // Avoid a DB write on every request
+  private readonly store: TokenStore;
+  private readonly clock: Clock;
+
+  constructor(store: TokenStore = getDefaultTokenStore(), clock: Clock = systemClock) {
+    this.store = store;
+    this.clock = clock;
+  }
+
+  /**
+   * Hash an API key for storage and lookup
+   */
+  hashKey(apiKey: string): string {
+    return crypto.createHash("sha256").update(apiKey, "utf8").digest("hex");
+  }
+
+  /**
+   * Generate a new random API key
+   */
+  private generateKey(): string {
+    return this.KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+  }
+
+  /**
+   * Short, non-secret prefix used to identify a key in listings
+   */
+  private displayPrefix(apiKey: string): string {
+    return apiKey.substring(0, this.KEY_PREFIX.length + 6);
+  }
+
+  /**
+   * Find a consumer by name
+   */
+  async getConsumer(name: string): Promise<ApiConsumer | null> {
+    return await this.store.getConsumer(name);
+  }
+
+  /**
+   * List all consumers
+   */
+  async listConsumers(): Promise<ApiConsumer[]> {
+    return await this.store.listConsumers();
+  }
+
+  /**
+   * Register a new consumer and issue its API key
+   */
+  async createConsumer(name: string): Promise<IssuedApiKey> {
+    const cleanName = name?.trim();
+
+    if (!cleanName) {
+      throw new Error("Consumer name is required");
+    }
+
+    if (await this.getConsumer(cleanName)) {
+      throw new Error(`Consumer "${cleanName}" already exists`);
+    }
+
+    const apiKey = this.generateKey();
+    const consumer = await this.store.createConsumer({
+      name: cleanName,
+      keyHash: this.hashKey(apiKey),
+      keyPrefix: this.displayPrefix(apiKey),
+    });
+
+    return { consumer, apiKey };
+  }
+
+  /**
+   * Revoke a consumer so its key is rejected
+   */
+  async revokeConsumer(name: string): Promise<ApiConsumer> {
+    const consumer = await this.requireConsumer(name);
+
+    return await this.store.updateConsumer(consumer.id, {
+      enabled: false,
+      revokedAt: this.clock.now(),
+    });
+  }
+
+  /**
+   * Re-enable a previously revoked consumer
+   */
+  async enableConsumer(name: string): Promise<ApiConsumer> {
+    const consumer = await this.requireConsumer(name);
+
+    return await this.store.updateConsumer(consumer.id, {
+      enabled: true,
+      revokedAt: null,
+    });
+  }
+
+  /**
+   * Replace a consumer's key; the old key stops working immediately
+   */
+  async rotateConsumerKey(name: string): Promise<IssuedApiKey> {
+    const existing = await this.requireConsumer(name);
+
+    const apiKey = this.generateKey();
+    const consumer = await this.store.updateConsumer(existing.id, {
+      keyHash: this.hashKey(apiKey),
+      keyPrefix: this.displayPrefix(apiKey),
+    });
+
+    return { consumer, apiKey };
+  }
+
+  /**
+   * Resolve an API key to its consumer. Returns null for unknown keys.
+   * Revoked consumers are returned as-is so callers can tell them apart.
+   */
+  async authenticate(apiKey: string): Promise<ApiConsumer | null> {
+    if (!apiKey?.startsWith(this.KEY_PREFIX)) {
+      return null;
+    }
+
+    const consumer = await this.store.getConsumerByKeyHash(this.hashKey(apiKey));
+
+    if (!consumer || !consumer.enabled) {
+      return consumer;
+    }
+
+    const now = this.clock.now();
+    const lastUsedAge = consumer.lastUsedAt
+      ? (now.getTime() - consumer.lastUsedAt.getTime()) / 1000
+      : Infinity;
+
+    if (lastUsedAge >= this.LAST_USED_THROTTLE_SECONDS) {
+      await this.store.updateConsumer(consumer.id, { lastUsedAt: now });
+      consumer.lastUsedAt = now;
+    }
+
+    return consumer;
+  }
+
+  private async requireConsumer(name: string): Promise<ApiConsumer> {
+    const consumer = await this.getConsumer(name);
+
+    if (!consumer) {
+      throw new Error(`Consumer "${name}" not found`);
+    }
+
+    return consumer;
+  }
+
+  // CLI-focused methods that combine business logic with appropriate responses
+
+  /**
+   * CLI Add: Register a consumer and return its key for display
+   */
+  async cliAdd(
+    name: string
+  ): Promise<{ success: boolean; message: string; apiKey?: string }> {
+    try {
+      const { consumer, apiKey } = await this.createConsumer(name);
+      return {
+        success: true,
+        message: `Consumer "${consumer.name}" created`,
+        apiKey,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to add consumer: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * CLI List: Format all consumers for display
+   */
+  async cliList(): Promise<{
+    success: boolean;
+    message: string;
+    formatted?: string;
+  }> {
+    try {
+      const consumers = await this.listConsumers();
+
+      if (consumers.length === 0) {
+        return {
+          success: true,
+          message: "No consumers registered",
+          formatted:
+            "📭 No consumers registered\nUse: bun run tokens consumers add <name>",
+        };
+      }
+
+      const lines = ["🔑 API Consumers:"];
+      for (const consumer of consumers) {
+        lines.push(
+          `   ${consumer.enabled ? "✅" : "⛔"} ${consumer.name.padEnd(20)} ${consumer.keyPrefix}…  last used: ${
+            consumer.lastUsedAt ? consumer.lastUsedAt.toISOString() : "never"
+          }`
+        );
+      }
+
+      return {
+        success: true,
+        message: `${consumers.length} consumer(s) registered`,
+        formatted: lines.join("\n"),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to list consumers: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * CLI Revoke: Disable a consumer's key
+   */
+  async cliRevoke(name: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.revokeConsumer(name);
+      return {
+        success: true,
+        message: `Consumer "${name}" revoked`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to revoke consumer: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * CLI Enable: Re-enable a revoked consumer
+   */
+  async cliEnable(name: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.enableConsumer(name);
+      return {
+        success: true,
+        message: `Consumer "${name}" enabled`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to enable consumer: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * CLI Rotate: Issue a new key for a consumer
+   */
+  async cliRotate(
+    name: string
+  ): Promise<{ success: boolean; message: string; apiKey?: string }> {
+    try {
+      const { apiKey } = await this.rotateConsumerKey(name);
+      return {
+        success: true,
+        message: `Key rotated for consumer "${name}" - the old key no longer works`,
+        apiKey,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to rotate key: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+}
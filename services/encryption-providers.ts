@@ -0,0 +1,209 @@
+import { readFileSync } from "fs";
+import { Keyring, type KeyringSettings } from "./encryption";
+
+/**
+ * Wraps and unwraps per-record data keys with a master key the provider controls.
+ * Wrapped keys are opaque strings stored next to the ciphertext they protect.
+ */
+export interface EncryptionProvider {
+  readonly name: string;
+  wrapKey(dataKey: Buffer): Promise<string>;
+  unwrapKey(wrappedKey: string): Promise<Buffer>;
+  /** Whether a wrapped key was made with a master key other than the current one */
+  needsRewrap(wrappedKey: string): boolean;
+}
+
+export type EncryptionProviderName = "env" | "file" | "kms";
+
+// The TOKEN_ENCRYPTION_* and TOKEN_KMS_* settings
+export interface EncryptionConfig extends KeyringSettings {
+  provider: string; // env, file or kms
+  keyFile?: string | null;
+  kmsUrl?: string | null;
+  kmsKeyId?: string | null;
+  kmsToken?: string | null;
+}
+
+/**
+ * Master keys held in a local keyring (environment variables or a key file)
+ */
+export class KeyringProvider implements EncryptionProvider {
+  readonly name: EncryptionProviderName;
+  readonly keyring: Keyring;
+
+  constructor(name: EncryptionProviderName, keyring: Keyring) {
+    this.name = name;
+    this.keyring = keyring;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<string> {
+    return this.keyring.encrypt(dataKey.toString("hex"));
+  }
+
+  async unwrapKey(wrappedKey: string): Promise<Buffer> {
+    return Buffer.from(this.keyring.decrypt(wrappedKey), "hex");
+  }
+
+  needsRewrap(wrappedKey: string): boolean {
+    return this.keyring.needsReencryption(wrappedKey);
+  }
+}
+
+/**
+ * Master keys read from TOKEN_ENCRYPTION_KEYS / TOKEN_ENCRYPTION_KEY
+ */
+export function createEnvKeyProvider(settings: KeyringSettings): KeyringProvider {
+  return new KeyringProvider("env", Keyring.fromSettings(settings));
+}
+
+/**
+ * Master keys read from a local file: either a single hex key, or one
+ * `<keyId>:<hex>` entry per line (first is primary). Lines starting with # are ignored.
+ */
+export function createFileKeyProvider(
+  path: string,
+  primaryKeyId?: string
+): KeyringProvider {
+  let contents: string;
+
+  try {
+    contents = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Failed to read encryption key file ${path}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const lines = contents
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+
+  if (lines.length === 0) {
+    throw new Error(`Encryption key file ${path} contains no keys`);
+  }
+
+  return new KeyringProvider("file", new Keyring(Keyring.parseKeyEntries(lines), primaryKeyId));
+}
+
+// Wrapped key as stored for the KMS provider
+interface KmsWrappedKey {
+  keyId: string | null;
+  ciphertext: string;
+}
+
+/**
+ * Master key held by a KMS-style HTTP service:
+ *   POST {url}/wrap   { keyId?, plaintext: base64 } -> { keyId?, ciphertext }
+ *   POST {url}/unwrap { keyId?, ciphertext }        -> { plaintext: base64 }
+ */
+export class HttpKmsProvider implements EncryptionProvider {
+  readonly name = "kms";
+  private readonly baseUrl: string;
+  private readonly keyId: string | null;
+  private readonly authToken: string | null;
+  private readonly REQUEST_TIMEOUT_MS = 10 * 1000;
+
+  constructor(baseUrl: string, keyId?: string, authToken?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.keyId = keyId || null;
+    this.authToken = authToken || null;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<string> {
+    const response = await this.post<{ keyId?: string; ciphertext?: string }>("wrap", {
+      keyId: this.keyId ?? undefined,
+      plaintext: dataKey.toString("base64"),
+    });
+
+    if (!response.ciphertext) {
+      throw new Error("KMS wrap response is missing ciphertext");
+    }
+
+    const wrapped: KmsWrappedKey = {
+      keyId: response.keyId ?? this.keyId,
+      ciphertext: response.ciphertext,
+    };
+    return JSON.stringify(wrapped);
+  }
+
+  async unwrapKey(wrappedKey: string): Promise<Buffer> {
+    const wrapped = JSON.parse(wrappedKey) as KmsWrappedKey;
+    const response = await this.post<{ plaintext?: string }>("unwrap", {
+      keyId: wrapped.keyId ?? undefined,
+      ciphertext: wrapped.ciphertext,
+    });
+
+    if (!response.plaintext) {
+      throw new Error("KMS unwrap response is missing plaintext");
+    }
+
+    return Buffer.from(response.plaintext, "base64");
+  }
+
+  needsRewrap(wrappedKey: string): boolean {
+    if (!this.keyId) {
+      return false;
+    }
+    return (JSON.parse(wrappedKey) as KmsWrappedKey).keyId !== this.keyId;
+  }
+
+  private async post<T>(operation: "wrap" | "unwrap", body: object): Promise<T> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/${operation}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `KMS ${operation} failed with HTTP ${response.status}: ${await response.text()}`
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+/**
+ * Build the provider selected by TOKEN_ENCRYPTION_PROVIDER (default: env)
+ */
+export function createEncryptionProvider(config: EncryptionConfig): EncryptionProvider {
+  const name = (config.provider || "env").trim().toLowerCase();
+
+  switch (name) {
+    case "env":
+      return createEnvKeyProvider(config);
+
+    case "file":
+      if (!config.keyFile) {
+        throw new Error(
+          "TOKEN_ENCRYPTION_KEY_FILE_PATH is required when TOKEN_ENCRYPTION_PROVIDER=file"
+        );
+      }
+      return createFileKeyProvider(config.keyFile, config.primaryKeyId?.trim() || undefined);
+
+    case "kms":
+      if (!config.kmsUrl) {
+        throw new Error("TOKEN_KMS_URL is required when TOKEN_ENCRYPTION_PROVIDER=kms");
+      }
+      return new HttpKmsProvider(
+        config.kmsUrl,
+        config.kmsKeyId ?? undefined,
+        config.kmsToken ?? undefined
+      );
+
+    default:
+      throw new Error(
+        `Unknown TOKEN_ENCRYPTION_PROVIDER "${name}" (expected env, file or kms)`
+      );
+  }
+}
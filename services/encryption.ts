@@ -0,0 +1,302 @@
+import crypto from "crypto";
+
+export interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+// Master keys from TOKEN_ENCRYPTION_KEYS, TOKEN_ENCRYPTION_KEY and TOKEN_ENCRYPTION_PRIMARY_KEY_ID
+export interface KeyringSettings {
+  keys?: string | null; // "<keyId>:<hex>,..."
+  key?: string | null; // Single hex key
+  primaryKeyId?: string | null;
+}
+
+// Key id given to TOKEN_ENCRYPTION_KEY, and tried first for ciphertexts without a key id
+export const DEFAULT_KEY_ID = "default";
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Current format: authenticated AES-256-GCM
+const GCM_ALGORITHM = "aes-256-gcm";
+const GCM_VERSION = "v2";
+const GCM_IV_BYTES = 12;
+
+// Older formats, still readable: AES-256-CBC without a MAC
+const CBC_ALGORITHM = "aes-256-cbc";
+const CBC_VERSION = "v1";
+
+// Raised when a value cannot be decrypted: wrong key, tampered or corrupted data
+export class DecryptionError extends Error {
+  readonly keyId: string | null;
+
+  constructor(message: string, keyId: string | null = null) {
+    super(message);
+    this.name = "DecryptionError";
+    this.keyId = keyId;
+  }
+}
+
+/**
+ * Parse a 32-byte hex key, naming the key in any error
+ */
+function parseHexKey(id: string, hex: string): EncryptionKey {
+  const key = Buffer.from(hex.trim(), "hex");
+
+  if (key.length !== 32) {
+    throw new Error(
+      `Invalid encryption key length for key "${id}": expected 32 bytes, got ${key.length}`
+    );
+  }
+
+  return { id, key };
+}
+
+/**
+ * A set of AES keys: one primary key used for new writes, plus older keys
+ * kept only so existing ciphertexts can still be read.
+ *
+ * New values are written as `v2:<keyId>:<ivHex>:<authTagHex>:<ciphertextHex>`
+ * using AES-256-GCM. Older CBC values are still readable:
+ *   `v1:<keyId>:<ivHex>:<ciphertextHex>` and legacy `<ivHex>:<ciphertextHex>`.
+ */
+export class Keyring {
+  private readonly keys: Map<string, EncryptionKey>;
+  readonly primaryKeyId: string;
+
+  constructor(keys: EncryptionKey[], primaryKeyId?: string) {
+    if (keys.length === 0) {
+      throw new Error("At least one encryption key is required");
+    }
+
+    this.keys = new Map();
+    for (const key of keys) {
+      if (!KEY_ID_PATTERN.test(key.id)) {
+        throw new Error(
+          `Invalid encryption key id "${key.id}": use letters, digits, "-" or "_"`
+        );
+      }
+      if (this.keys.has(key.id)) {
+        throw new Error(`Duplicate encryption key id "${key.id}"`);
+      }
+      this.keys.set(key.id, key);
+    }
+
+    this.primaryKeyId = primaryKeyId || keys[0].id;
+    if (!this.keys.has(this.primaryKeyId)) {
+      throw new Error(`Primary encryption key "${this.primaryKeyId}" is not in the keyring`);
+    }
+  }
+
+  /**
+   * Build a keyring from the key settings:
+   *   TOKEN_ENCRYPTION_KEYS="2026:<hex>,2025:<hex>"  (first is primary unless overridden)
+   *   TOKEN_ENCRYPTION_PRIMARY_KEY_ID="2026"
+   *   TOKEN_ENCRYPTION_KEY="<hex>"                     (single key with id "default")
+   */
+  static fromSettings(settings: KeyringSettings): Keyring {
+    const keys: EncryptionKey[] = settings.keys
+      ? Keyring.parseKeyEntries(settings.keys.split(","))
+      : [];
+
+    if (settings.key && !keys.some((key) => key.id === DEFAULT_KEY_ID)) {
+      keys.push(parseHexKey(DEFAULT_KEY_ID, settings.key));
+    }
+
+    if (keys.length === 0) {
+      throw new Error("TOKEN_ENCRYPTION_KEY or TOKEN_ENCRYPTION_KEYS is required");
+    }
+
+    return new Keyring(keys, settings.primaryKeyId?.trim() || undefined);
+  }
+
+  /**
+   * Whether the settings configure any encryption keys
+   */
+  static isConfigured(settings: KeyringSettings): boolean {
+    return !!(settings.keys || settings.key);
+  }
+
+  /**
+   * Parse `<keyId>:<hex>` entries. A lone hex key (no id) gets the default id.
+   */
+  static parseKeyEntries(entries: string[]): EncryptionKey[] {
+    const keys: EncryptionKey[] = [];
+
+    for (const entry of entries) {
+      if (!entry.trim()) {
+        continue;
+      }
+
+      const separator = entry.indexOf(":");
+      if (separator === -1) {
+        if (entries.filter((e) => e.trim()).length === 1) {
+          keys.push(parseHexKey(DEFAULT_KEY_ID, entry));
+          continue;
+        }
+        throw new Error('Key entries must look like "<keyId>:<64 hex chars>"');
+      }
+      keys.push(
+        parseHexKey(entry.slice(0, separator).trim(), entry.slice(separator + 1))
+      );
+    }
+
+    return keys;
+  }
+
+  get keyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  /**
+   * Encrypt a string value with the primary key
+   */
+  encrypt(text: string): string {
+    const { id, key } = this.keys.get(this.primaryKeyId)!;
+    const iv = crypto.randomBytes(GCM_IV_BYTES);
+    const cipher = crypto.createCipheriv(GCM_ALGORITHM, key, iv);
+
+    // Bind the key id to the ciphertext so it cannot be swapped undetected
+    cipher.setAAD(Buffer.from(id, "utf8"));
+
+    let encrypted = cipher.update(text, "utf8", "hex");
+    encrypted += cipher.final("hex");
+    const authTag = cipher.getAuthTag();
+
+    return [GCM_VERSION, id, iv.toString("hex"), authTag.toString("hex"), encrypted].join(":");
+  }
+
+  /**
+   * Decrypt a string value with the key it was written with
+   */
+  decrypt(encryptedText: string): string {
+    const parts = encryptedText.split(":");
+
+    if (parts.length === 5 && parts[0] === GCM_VERSION) {
+      const [, keyId, ivHex, authTagHex, encrypted] = parts;
+      return this.decryptGcm(this.requireKey(keyId), ivHex, authTagHex, encrypted);
+    }
+
+    if (parts.length === 4 && parts[0] === CBC_VERSION) {
+      const [, keyId, ivHex, encrypted] = parts;
+      return this.decryptCbc(this.requireKey(keyId), ivHex, encrypted);
+    }
+
+    if (parts.length === 2) {
+      return this.decryptLegacy(parts[0], parts[1]);
+    }
+
+    throw new DecryptionError("Unrecognized encrypted value format - data may be corrupted");
+  }
+
+  /**
+   * Key id a ciphertext was written with, or null for legacy values
+   */
+  keyIdOf(encryptedText: string): string | null {
+    const parts = encryptedText.split(":");
+
+    if (
+      (parts.length === 5 && parts[0] === GCM_VERSION) ||
+      (parts.length === 4 && parts[0] === CBC_VERSION)
+    ) {
+      return parts[1];
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a ciphertext predates authenticated encryption
+   */
+  isLegacyFormat(encryptedText: string): boolean {
+    return !encryptedText.startsWith(`${GCM_VERSION}:`);
+  }
+
+  /**
+   * Whether a ciphertext should be rewritten under the primary key and current format
+   */
+  needsReencryption(encryptedText: string): boolean {
+    return (
+      this.isLegacyFormat(encryptedText) ||
+      this.keyIdOf(encryptedText) !== this.primaryKeyId
+    );
+  }
+
+  private requireKey(keyId: string): EncryptionKey {
+    const key = this.keys.get(keyId);
+
+    if (!key) {
+      throw new DecryptionError(
+        `Encryption key "${keyId}" is not configured - add it to TOKEN_ENCRYPTION_KEYS`,
+        keyId
+      );
+    }
+
+    return key;
+  }
+
+  /**
+   * Legacy values carry no key id: try the default key first, then every other key
+   */
+  private decryptLegacy(ivHex: string, encrypted: string): string {
+    const candidates = [...this.keys.values()].sort((a, b) =>
+      a.id === DEFAULT_KEY_ID ? -1 : b.id === DEFAULT_KEY_ID ? 1 : 0
+    );
+
+    for (const key of candidates) {
+      try {
+        return this.decryptCbc(key, ivHex, encrypted);
+      } catch {
+        // Try the next key
+      }
+    }
+
+    throw new DecryptionError(
+      "Failed to decrypt legacy value with any configured key - wrong key or tampered data"
+    );
+  }
+
+  private decryptGcm(
+    key: EncryptionKey,
+    ivHex: string,
+    authTagHex: string,
+    encrypted: string
+  ): string {
+    try {
+      const decipher = crypto.createDecipheriv(
+        GCM_ALGORITHM,
+        key.key,
+        Buffer.from(ivHex, "hex")
+      );
+      decipher.setAAD(Buffer.from(key.id, "utf8"));
+      decipher.setAuthTag(Buffer.from(authTagHex, "hex"));
+
+      let decrypted = decipher.update(encrypted, "hex", "utf8");
+      decrypted += decipher.final("utf8");
+
+      return decrypted;
+    } catch {
+      throw new DecryptionError(
+        `Failed to decrypt with key "${key.id}" - wrong key or tampered data`,
+        key.id
+      );
+    }
+  }
+
+  private decryptCbc(key: EncryptionKey, ivHex: string, encrypted: string): string {
+    try {
+      const iv = Buffer.from(ivHex, "hex");
+      const decipher = crypto.createDecipheriv(CBC_ALGORITHM, key.key, iv);
+
+      let decrypted = decipher.update(encrypted, "hex", "utf8");
+      decrypted += decipher.final("utf8");
+
+      return decrypted;
+    } catch {
+      throw new DecryptionError(
+        `Failed to decrypt with key "${key.id}" - wrong key or tampered data`,
+        key.id
+      );
+    }
+  }
+}
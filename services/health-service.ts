@@ -0,0 +1,224 @@
+import { LightspeedTokenService } from "./token-service";
+import type { TokenScheduler } from "./token-scheduler";
+import { systemClock, type Clock } from "./clock";
+import { cronIntervalMs, formatDuration } from "./refresh-policy";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "health" });
+
+const ENCRYPTION_CHECK_TTL_MS = 5 * 60 * 1000; // Verifying may call the KMS, so probes reuse a recent result
+const MISSED_REFRESH_POLLS = 3; // Liveness fails once the leader has skipped this many safety-net polls
+
+export type CheckStatus = "ok" | "fail";
+
+export interface HealthCheck {
+  status: CheckStatus;
+  message: string;
+  [detail: string]: unknown;
+}
+
+// JSON body of /healthz and /readyz: "ok" only when every check is
+export interface HealthReport {
+  status: CheckStatus;
+  checkedAt: string;
+  checks: Record<string, HealthCheck>;
+}
+
+function report(checks: Record<string, HealthCheck>, clock: Clock): HealthReport {
+  const failed = Object.values(checks).some((check) => check.status === "fail");
+  return { status: failed ? "fail" : "ok", checkedAt: clock.now().toISOString(), checks };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Liveness and readiness checks for orchestrators (docker compose, systemd, Kubernetes).
+ *
+ * Liveness only looks inside the process: is the scheduler still running, and has the
+ * leader run its refresh check recently? Readiness also checks dependencies: the token
+ * store is reachable, stored tokens decrypt with the configured key (checked at most
+ * every few minutes), and every account has unexpired tokens.
+ *
+ * A fresh install is live but not ready until its first login stores tokens, so only
+ * the service's consumers should wait on readiness - never its own start-up, which the
+ * login (completed through its callback route) depends on.
+ */
+export class HealthService {
+  private readonly tokenService: LightspeedTokenService;
+  private readonly scheduler: TokenScheduler | null;
+  private readonly clock: Clock;
+  private encryptionCheck: { result: Promise<HealthCheck>; startedAt: number } | null = null;
+
+  constructor(
+    tokenService: LightspeedTokenService,
+    scheduler: TokenScheduler | null = null, // Null when this process runs no scheduler
+    clock: Clock = systemClock
+  ) {
+    this.tokenService = tokenService;
+    this.scheduler = scheduler;
+    this.clock = clock;
+  }
+
+  /**
+   * Is the process alive and its scheduler running?
+   */
+  liveness(): HealthReport {
+    return report(
+      {
+        process: {
+          status: "ok",
+          message: "Process is running",
+          pid: process.pid,
+          uptimeSeconds: Math.floor(process.uptime()),
+        },
+        scheduler: this.checkScheduler(),
+      },
+      this.clock
+    );
+  }
+
+  /**
+   * Can the service hand out tokens: store reachable, key valid, tokens present and unexpired?
+   */
+  async readiness(): Promise<HealthReport> {
+    let accounts: string[];
+    try {
+      accounts = await this.tokenService.listAccounts();
+    } catch (error) {
+      log.warn("⚠️  Readiness check could not reach the token store", { error });
+      const unreachable = { status: "fail", message: "Skipped: the token store is unreachable" } as const;
+      return report(
+        {
+          database: { status: "fail", message: `Token store is unreachable: ${errorMessage(error)}` },
+          encryption: unreachable,
+          tokens: unreachable,
+        },
+        this.clock
+      );
+    }
+
+    return report(
+      {
+        database: { status: "ok", message: "Token store is reachable" },
+        encryption: await this.checkEncryption(),
+        tokens: await this.checkTokens(accounts),
+      },
+      this.clock
+    );
+  }
+
+  private checkScheduler(): HealthCheck {
+    if (!this.scheduler) {
+      return { status: "ok", message: "No scheduler runs in this process" };
+    }
+
+    const status = this.scheduler.getSchedulerStatus();
+    const detail = {
+      role: status.leadership.role,
+      refreshSchedulerRunning: status.refreshSchedulerRunning,
+      healthCheckSchedulerRunning: status.healthCheckSchedulerRunning,
+      lastRefreshRunAt: status.lastRefreshRunAt?.toISOString() ?? null,
+      lastHealthCheckAt: status.lastHealthCheckAt?.toISOString() ?? null,
+    };
+
+    if (!status.started) {
+      return { status: "fail", message: "Scheduler is not running", ...detail };
+    }
+    if (
+      status.leadership.role === "leader" &&
+      (!status.refreshSchedulerRunning || !status.healthCheckSchedulerRunning)
+    ) {
+      return { status: "fail", message: "Scheduler leader has stopped its schedulers", ...detail };
+    }
+
+    // A wedged scheduler keeps its tasks registered but stops running them
+    const pollMs = cronIntervalMs(this.tokenService.refreshPolicy.refreshCheckSchedule);
+    const lastRun = status.lastRefreshRunAt ?? status.leadership.leaderSince;
+    if (
+      status.leadership.role === "leader" &&
+      pollMs !== null &&
+      lastRun &&
+      this.clock.now().getTime() - lastRun.getTime() > MISSED_REFRESH_POLLS * pollMs
+    ) {
+      return {
+        status: "fail",
+        message: `Scheduler leader has not run its refresh check since ${lastRun.toISOString()} (expected every ${formatDuration(pollMs)})`,
+        ...detail,
+      };
+    }
+    return {
+      status: "ok",
+      message:
+        status.leadership.role === "leader"
+          ? "Scheduler is running (leader)"
+          : "Scheduler is standing by (follower - another replica leads)",
+      ...detail,
+    };
+  }
+
+  /**
+   * Verify the key against the stored tokens, reusing a result from the last few minutes
+   */
+  private async checkEncryption(): Promise<HealthCheck> {
+    const now = this.clock.now().getTime();
+    if (!this.encryptionCheck || now - this.encryptionCheck.startedAt >= ENCRYPTION_CHECK_TTL_MS) {
+      this.encryptionCheck = { result: this.verifyEncryption(), startedAt: now };
+    }
+
+    return {
+      ...(await this.encryptionCheck.result),
+      checkedAt: new Date(this.encryptionCheck.startedAt).toISOString(),
+    };
+  }
+
+  private async verifyEncryption(): Promise<HealthCheck> {
+    try {
+      await this.tokenService.verifyEncryption();
+      return { status: "ok", message: "Encryption key is valid for the stored tokens" };
+    } catch (error) {
+      return { status: "fail", message: `Encryption check failed: ${errorMessage(error)}` };
+    }
+  }
+
+  private async checkTokens(accounts: string[]): Promise<HealthCheck> {
+    if (accounts.length === 0) {
+      return {
+        status: "fail",
+        message: "No tokens stored yet - not ready until the first login (bun run tokens login)",
+        accounts: {},
+      };
+    }
+
+    const details: Record<string, { valid: boolean; expiresAt: string | null; expiresInMinutes: number }> = {};
+    const expired: string[] = [];
+    try {
+      for (const accountId of accounts) {
+        const status = await this.tokenService.getTokenStatus(accountId);
+        if (!status) {
+          continue; // Cleared since it was listed
+        }
+        details[accountId] = {
+          valid: status.isValid,
+          expiresAt: status.expiresAt?.toISOString() ?? null,
+          expiresInMinutes: status.expiresIn,
+        };
+        if (!status.isValid) {
+          expired.push(accountId);
+        }
+      }
+    } catch (error) {
+      return { status: "fail", message: `Could not read tokens: ${errorMessage(error)}`, accounts: details };
+    }
+
+    if (expired.length > 0) {
+      return {
+        status: "fail",
+        message: `Tokens expired for ${expired.map((accountId) => `"${accountId}"`).join(", ")}`,
+        accounts: details,
+      };
+    }
+    return { status: "ok", message: "Every account has unexpired tokens", accounts: details };
+  }
+}
@@ -0,0 +1,242 @@
+import { LeaseService, type Lease } from "./lease-service";
+import { getDefaultTokenStore, type TokenStore } from "./token-store";
+import { getConfig } from "./config";
+import { systemClock, systemTimers, type Clock, type Timers } from "./clock";
+import { metrics } from "./metrics";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "leader-election" });
+
+// Lease every replica of the service competes for
+export const SCHEDULER_LEADER_LEASE = "scheduler-leader";
+
+export type LeaderRole = "leader" | "follower";
+
+export interface LeaderElectionOptions {
+  leaseTtlMs: number; // How long a missed heartbeat keeps followers waiting
+  heartbeatMs: number; // How often the leader renews, and followers try to take over
+  name?: string;
+  holderId?: string;
+  clock?: Clock;
+  timers?: Timers;
+}
+
+export interface LeadershipStatus {
+  role: LeaderRole;
+  holderId: string;
+  fencingToken: number | null; // Of the lease this replica holds; grows with every new leader
+  leaderSince: Date | null;
+}
+
+/**
+ * Elects one leader among the replicas sharing a token store, through a lease.
+ *
+ * The leader renews the lease every heartbeat; followers try to take it on the same
+ * beat, which only succeeds once it has expired. Every takeover increments the lease's
+ * fencing token, so a leader that was paused past its lease finds its token stale on
+ * the next renewal (see confirm()) and steps down instead of acting alongside the new one.
+ *
+ * Leadership only decides who schedules work: a leader paused between confirm() and a
+ * refresh may still overlap the new one. Token writes are fenced by the per-account
+ * refresh lock instead, which the store checks in the same update (updateTokens).
+ */
+export class LeaderElection {
+  readonly name: string;
+  private readonly leases: LeaseService;
+  private readonly leaseTtlMs: number;
+  private readonly heartbeatMs: number;
+  private readonly clock: Clock;
+  private readonly timers: Timers;
+  private lease: Lease | null = null;
+  private renewedAt = 0; // When the lease was last confirmed, by our clock
+  private leaderSince: Date | null = null;
+  private timer: unknown = null;
+  private running = false;
+  private listeners = new Set<(role: LeaderRole) => void>();
+
+  constructor(store: TokenStore, options: LeaderElectionOptions) {
+    if (options.heartbeatMs >= options.leaseTtlMs) {
+      throw new Error("The leader heartbeat must be shorter than the lease TTL");
+    }
+    this.name = options.name ?? SCHEDULER_LEADER_LEASE;
+    this.leases = new LeaseService(store, options.holderId);
+    this.leaseTtlMs = options.leaseTtlMs;
+    this.heartbeatMs = options.heartbeatMs;
+    this.clock = options.clock ?? systemClock;
+    this.timers = options.timers ?? systemTimers;
+  }
+
+  /**
+   * Election on the shared store, timed by LEADER_LEASE_TTL and LEADER_HEARTBEAT_INTERVAL
+   */
+  static fromConfig(store: TokenStore = getDefaultTokenStore()): LeaderElection {
+    return new LeaderElection(store, getConfig().leader);
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get isLeader(): boolean {
+    return this.lease !== null;
+  }
+
+  /**
+   * Be told when this replica becomes leader or stops being one.
+   * Returns a function that removes the listener.
+   */
+  onRoleChange(listener: (role: LeaderRole) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Join the election: try to become leader now, then on every heartbeat
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    metrics.schedulerLeader.set({}, 0);
+    await this.heartbeat();
+  }
+
+  /**
+   * Leave the election, releasing the lease so a follower can take over at once
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer !== null) {
+      this.timers.clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const lease = this.lease;
+    this.stepDown("shutting down");
+    if (lease) {
+      await this.leases.release(lease).catch((error) => {
+        log.error("❌ Could not release the leader lease - followers take over when it expires", { error });
+      });
+    }
+  }
+
+  /**
+   * Renew the lease now, proving through its fencing token that this replica is
+   * still the leader. Call before leader-only work; false means do not do it.
+   */
+  async confirm(): Promise<boolean> {
+    if (!this.lease) {
+      return false;
+    }
+    return await this.renew(this.lease);
+  }
+
+  status(): LeadershipStatus {
+    return {
+      role: this.isLeader ? "leader" : "follower",
+      holderId: this.leases.holderId,
+      fencingToken: this.lease?.fencingToken ?? null,
+      leaderSince: this.leaderSince,
+    };
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      if (this.lease) {
+        await this.renew(this.lease);
+      } else {
+        await this.tryToLead();
+      }
+    } finally {
+      if (this.running) {
+        this.timer = this.timers.setTimeout(() => {
+          void this.heartbeat();
+        }, this.heartbeatMs);
+      }
+    }
+  }
+
+  private async tryToLead(): Promise<void> {
+    let lease: Lease | null;
+    try {
+      lease = await this.leases.acquire(this.name, this.leaseTtlMs);
+    } catch (error) {
+      log.warn("⚠️  Could not reach the store to take the leader lease - retrying next heartbeat", { error });
+      return;
+    }
+
+    if (!lease) {
+      return; // Another replica leads
+    }
+    if (!this.running) {
+      await this.leases.release(lease).catch(() => {}); // Stopped while acquiring
+      return;
+    }
+
+    this.lease = lease;
+    this.renewedAt = this.clock.now().getTime();
+    this.leaderSince = this.clock.now();
+    metrics.schedulerLeader.set({}, 1);
+    log.info(`👑 This replica is now the scheduler leader (fencing token ${lease.fencingToken})`, {
+      holderId: this.leases.holderId,
+      fencingToken: lease.fencingToken,
+    });
+    this.notify("leader");
+  }
+
+  private async renew(lease: Lease): Promise<boolean> {
+    let renewed: Lease | null;
+    try {
+      renewed = await this.leases.renew(lease, this.leaseTtlMs);
+    } catch (error) {
+      // Step down before the lease can expire, so two leaders never overlap
+      const sinceRenewal = this.clock.now().getTime() - this.renewedAt;
+      if (sinceRenewal + this.heartbeatMs >= this.leaseTtlMs) {
+        this.stepDown("the leader lease could not be renewed before it expires");
+      } else {
+        log.warn("⚠️  Could not renew the leader lease - retrying next heartbeat", { error });
+      }
+      return this.isLeader;
+    }
+
+    if (this.lease?.fencingToken !== lease.fencingToken) {
+      return false; // Stepped down or re-elected while renewing
+    }
+    if (!renewed) {
+      this.stepDown(`another replica took over the lease (our fencing token ${lease.fencingToken} is stale)`);
+      return false;
+    }
+
+    this.lease = renewed;
+    this.renewedAt = this.clock.now().getTime();
+    return true;
+  }
+
+  private stepDown(reason: string): void {
+    if (!this.lease) {
+      return;
+    }
+    const { fencingToken } = this.lease;
+    this.lease = null;
+    this.leaderSince = null;
+    metrics.schedulerLeader.set({}, 0);
+    log.warn(`👋 This replica is no longer the scheduler leader: ${reason}`, {
+      holderId: this.leases.holderId,
+      fencingToken,
+    });
+    this.notify("follower");
+  }
+
+  private notify(role: LeaderRole): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(role);
+      } catch (error) {
+        log.error("❌ Leader role listener failed", { role, error });
+      }
+    }
+  }
+}
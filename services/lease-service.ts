@@ -0,0 +1,89 @@
+import type { TokenStore } from "./token-store";
+import { systemClock, systemTimers, type Clock, type Timers } from "./clock";
+import crypto from "crypto";
+import os from "os";
+
+// A time-limited claim on a named lease, shared by every process using the same store
+export interface Lease {
+  name: string;
+  holder: string;
+  fencingToken: number;
+  expiresAt: Date;
+}
+
+// A write made under a lease was refused: another holder has taken the lease over since
+export class StaleLeaseError extends Error {
+  readonly lease: Lease;
+
+  constructor(lease: Lease) {
+    super(`Lease "${lease.name}" was taken over by another holder - fencing token ${lease.fencingToken} is stale`);
+    this.name = "StaleLeaseError";
+    this.lease = lease;
+  }
+}
+
+export class LeaseService {
+  private readonly POLL_INTERVAL_MS = 500;
+  private readonly store: TokenStore;
+  private readonly clock: Clock;
+  private readonly timers: Timers;
+  readonly holderId: string;
+
+  constructor(
+    store: TokenStore,
+    holderId?: string,
+    clock: Clock = systemClock,
+    timers: Timers = systemTimers
+  ) {
+    this.store = store;
+    this.clock = clock;
+    this.timers = timers;
+    this.holderId =
+      holderId ||
+      `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
+  }
+
+  /**
+   * Try to take a lease. Returns null if another holder has an unexpired claim.
+   */
+  async acquire(name: string, ttlMs: number): Promise<Lease | null> {
+    return await this.store.acquireLease(name, this.holderId, ttlMs);
+  }
+
+  /**
+   * Extend a lease we hold. Returns null if it expired and another holder took it.
+   */
+  async renew(lease: Lease, ttlMs: number): Promise<Lease | null> {
+    return await this.store.renewLease(lease, ttlMs);
+  }
+
+  /**
+   * Give up a lease early so waiting processes can proceed
+   */
+  async release(lease: Lease): Promise<void> {
+    await this.store.releaseLease(lease);
+  }
+
+  /**
+   * Check whether anyone currently holds a lease
+   */
+  async isHeld(name: string): Promise<boolean> {
+    return await this.store.isLeaseHeld(name);
+  }
+
+  /**
+   * Wait until a lease is released or expires. Returns false on timeout.
+   */
+  async waitForRelease(name: string, timeoutMs: number): Promise<boolean> {
+    const deadline = this.clock.now().getTime() + timeoutMs;
+
+    while (this.clock.now().getTime() < deadline) {
+      if (!(await this.isHeld(name))) {
+        return true;
+      }
+      await new Promise<void>((resolve) => this.timers.setTimeout(resolve, this.POLL_INTERVAL_MS));
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,29 @@
+import { getConfig } from "./config";
+
+/**
+ * Token endpoint used for the authorization_code and refresh_token grants
+ */
+export function getTokenEndpointUrl(oauthBaseUrl: string = getConfig().lightspeed.oauthBaseUrl): string {
+  return `${oauthBaseUrl}/auth/oauth/token`;
+}
+
+/**
+ * URL the user visits to authorize the application
+ */
+export function buildAuthorizeUrl(
+  params: { clientId: string; redirectUri: string; scope: string; state?: string },
+  oauthBaseUrl: string = getConfig().lightspeed.oauthBaseUrl
+): string {
+  const query = new URLSearchParams({
+    response_type: "code",
+    client_id: params.clientId,
+    redirect_uri: params.redirectUri,
+    scope: params.scope,
+  });
+
+  if (params.state) {
+    query.set("state", params.state);
+  }
+
+  return `${oauthBaseUrl}/auth/oauth/authorize?${query}`;
+}
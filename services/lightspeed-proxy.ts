@@ -0,0 +1,132 @@
+import type { FetchFunction, LightspeedTokenService } from "./token-service";
+import type { TokenEventSource } from "./token-events";
+import { getConfig } from "./config";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "lightspeed-proxy" });
+
+// Only the Retail API is reachable through the proxy, not the rest of the upstream host
+const ALLOWED_PATH_PREFIX = "/API/";
+
+// Headers that describe a single connection and are never forwarded
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+// The caller's credentials for this service, replaced by the Lightspeed token
+const CALLER_HEADERS = ["authorization", "x-api-key", "cookie", "host"];
+
+// fetch decodes compressed bodies, so the upstream framing no longer applies
+const DECODED_BODY_HEADERS = ["content-encoding", "content-length"];
+
+export interface LightspeedProxyOptions {
+  baseUrl?: string; // Defaults to LIGHTSPEED_API_BASE_URL or the public API
+  fetch?: FetchFunction;
+  source?: TokenEventSource;
+}
+
+/**
+ * Forwards requests to the Lightspeed Retail API with the account's access token,
+ * so callers never handle tokens themselves.
+ */
+export class LightspeedProxy {
+  private readonly tokenService: LightspeedTokenService;
+  private readonly baseUrl: string;
+  private readonly fetch: FetchFunction;
+  private readonly source: TokenEventSource;
+
+  constructor(tokenService: LightspeedTokenService, options: LightspeedProxyOptions = {}) {
+    this.tokenService = tokenService;
+    this.baseUrl = (options.baseUrl ?? getConfig().lightspeed.apiBaseUrl).replace(/\/+$/, "");
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.source = options.source ?? "api";
+  }
+
+  /**
+   * Whether an upstream path may be proxied
+   */
+  isAllowedPath(path: string): boolean {
+    return path.startsWith(ALLOWED_PATH_PREFIX);
+  }
+
+  /**
+   * Send `request` to `path` (e.g. /API/V3/Account/1/Item.json) on the Lightspeed API.
+   * On a 401 the token is refreshed once and the request retried. The upstream
+   * response body is streamed back as it arrives. Returns null when no usable
+   * token exists; throws the token service's typed errors when a refresh is rejected.
+   */
+  async forward(
+    request: Request,
+    path: string,
+    query: URLSearchParams,
+    accountId: string
+  ): Promise<Response | null> {
+    const token = await this.tokenService.getValidToken(accountId);
+    if (!token) {
+      return null;
+    }
+
+    const target = `${this.baseUrl}${path}${query.size > 0 ? `?${query}` : ""}`;
+    const headers = this.upstreamHeaders(request.headers);
+    // Buffered so the request can be sent a second time after a refresh
+    const body =
+      request.method === "GET" || request.method === "HEAD" ? undefined : await request.arrayBuffer();
+
+    let upstream = await this.send(request.method, target, headers, body, token.accessToken);
+
+    if (upstream.status === 401) {
+      const refreshed = await this.tokenService.refreshRejectedToken(
+        accountId,
+        token.accessToken,
+        this.source
+      );
+      if (refreshed) {
+        await upstream.body?.cancel();
+        upstream = await this.send(request.method, target, headers, body, refreshed.accessToken);
+      } else {
+        log.warn(`⚠️  Could not refresh the token for account "${accountId}" after a 401`, { accountId });
+      }
+    }
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: this.downstreamHeaders(upstream.headers),
+    });
+  }
+
+  private send(
+    method: string,
+    target: string,
+    headers: Headers,
+    body: ArrayBuffer | undefined,
+    accessToken: string
+  ): Promise<Response> {
+    const withToken = new Headers(headers);
+    withToken.set("Authorization", `Bearer ${accessToken}`);
+    return this.fetch(target, { method, headers: withToken, body, redirect: "manual" });
+  }
+
+  private upstreamHeaders(incoming: Headers): Headers {
+    const headers = new Headers(incoming);
+    for (const name of [...HOP_BY_HOP_HEADERS, ...CALLER_HEADERS, "content-length"]) {
+      headers.delete(name);
+    }
+    return headers;
+  }
+
+  private downstreamHeaders(incoming: Headers): Headers {
+    const headers = new Headers(incoming);
+    for (const name of [...HOP_BY_HOP_HEADERS, ...DECODED_BODY_HEADERS, "set-cookie"]) {
+      headers.delete(name);
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,231 @@
+import { loadConfig, type AppConfig } from "./config";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "pretty" | "json";
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const REDACTED = "[REDACTED]";
+
+// Field names whose values are never written out
+const SECRET_FIELD = /token|secret|password|passphrase|authorization|api_?key|cookie|^code$|auth_?code/i;
+// ...except these, which only describe a secret
+const DESCRIPTIVE_FIELD = /(fingerprint|prefix|type|expiresat|expiresin)$/i;
+
+// Secrets embedded in free text: JSON bodies, form/query strings and auth headers
+const TEXT_PATTERNS: [RegExp, string][] = [
+  [/("(?:access_token|refresh_token|client_secret|code|password)"\s*:\s*)"[^"]*"/g, `$1"${REDACTED}"`],
+  [/\b((?:access_token|refresh_token|client_secret|code|password)=)[^&\s"]+/g, `$1${REDACTED}`],
+  [/\b(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/gi, `$1${REDACTED}`],
+];
+
+const MIN_SECRET_LENGTH = 6; // Shorter values would mask ordinary words
+
+export type LogSink = (level: LogLevel, line: string) => void;
+
+const consoleSink: LogSink = (level, line) => {
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+export interface LoggerOptions {
+  level?: LogLevel | "silent";
+  format?: LogFormat;
+  sink?: LogSink;
+  secrets?: string[];
+}
+
+interface LoggerState {
+  level: LogLevel | "silent";
+  format: LogFormat;
+  sink: LogSink;
+  secrets: Set<string>;
+}
+
+/**
+ * Leveled logger with human ("pretty") and JSON-lines output.
+ *
+ * Everything written is redacted first: fields named like secrets, OAuth
+ * parameters and bearer tokens inside strings, and any value registered
+ * with addSecret or read from a secret environment variable.
+ */
+export class Logger {
+  private state: LoggerState;
+  private readonly context: LogFields;
+
+  constructor(options: LoggerOptions = {}, context: LogFields = {}) {
+    this.state = {
+      level: options.level ?? "info",
+      format: options.format ?? "pretty",
+      sink: options.sink ?? consoleSink,
+      secrets: new Set(),
+    };
+    this.context = context;
+    options.secrets?.forEach((secret) => this.addSecret(secret));
+  }
+
+  /**
+   * Logger configured by LOG_LEVEL (debug, info, warn, error, silent) and LOG_FORMAT (pretty, json)
+   */
+  static fromConfig(config: AppConfig["logging"]): Logger {
+    return new Logger({
+      level: config.level in LEVEL_ORDER ? config.level : "info",
+      format: config.format === "json" ? "json" : "pretty",
+      secrets: config.secrets,
+    });
+  }
+
+  /**
+   * Logger that adds these fields to every entry and shares this logger's settings
+   */
+  child(context: LogFields): Logger {
+    const child = new Logger({}, { ...this.context, ...context });
+    child.state = this.state;
+    return child;
+  }
+
+  /**
+   * Mask this value wherever it appears in later log entries
+   */
+  addSecret(secret: string | null | undefined): void {
+    if (secret && secret.length >= MIN_SECRET_LENGTH) {
+      this.state.secrets.add(secret);
+    }
+  }
+
+  configure(options: Pick<LoggerOptions, "level" | "format" | "sink">): void {
+    Object.assign(
+      this.state,
+      Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+    );
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.state.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Redact a string using every rule this logger applies
+   */
+  redact(text: string): string {
+    let redacted = text;
+    for (const [pattern, replacement] of TEXT_PATTERNS) {
+      redacted = redacted.replace(pattern, replacement);
+    }
+    for (const secret of this.state.secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    return redacted;
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const data = this.redactValue({ ...this.context, ...fields }) as LogFields;
+    const msg = this.redact(message);
+
+    const line =
+      this.state.format === "json"
+        ? JSON.stringify({ time: new Date().toISOString(), level, msg, ...data })
+        : this.formatPretty(msg, data);
+
+    this.state.sink(level, line);
+  }
+
+  private formatPretty(message: string, data: LogFields): string {
+    // The component is for filtering JSON logs; on a terminal the message says enough
+    const { error, component: _component, ...rest } = data;
+    const parts = [message];
+
+    const pairs = Object.entries(rest)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`);
+    if (pairs.length > 0) {
+      parts.push(`(${pairs.join(", ")})`);
+    }
+
+    if (error && typeof error === "object") {
+      const { name, message: errorMessage, stack } = error as { name?: string; message?: string; stack?: string };
+      parts.push(`- ${name ?? "Error"}: ${errorMessage ?? ""}`);
+      if (stack && this.isLevelEnabled("debug")) {
+        parts.push(`\n${stack}`);
+      }
+    } else if (error !== undefined) {
+      parts.push(`- ${String(error)}`);
+    }
+
+    return parts.join(" ");
+  }
+
+  private redactValue(value: unknown, key?: string, depth = 0): unknown {
+    if (key && SECRET_FIELD.test(key) && !DESCRIPTIVE_FIELD.test(key)) {
+      return value === null || value === undefined ? value : REDACTED;
+    }
+
+    if (typeof value === "string") {
+      return this.redact(value);
+    }
+
+    if (value instanceof Error) {
+      return this.redactValue(
+        {
+          name: value.name,
+          message: value.message,
+          ...("status" in value && value.status !== undefined ? { status: value.status } : {}),
+          stack: value.stack,
+        },
+        undefined,
+        depth
+      );
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (value === null || typeof value !== "object" || depth >= 5) {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, undefined, depth + 1));
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([field, item]) => [field, this.redactValue(item, field, depth + 1)])
+    );
+  }
+}
+
+// Shared logger for the service and its background tasks. It is built before the
+// configuration is validated, so secrets from the config file and *_FILE are masked
+// even while reporting what is wrong with it.
+export const logger = Logger.fromConfig(loadConfig().config.logging);
@@ -0,0 +1,232 @@
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+// Stable key for a label set, independent of property order
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  abstract samples(): string[];
+  abstract reset(): void;
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Gauge extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(labelKey(labels))?.value;
+  }
+
+  samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    name: string,
+    help: string,
+    readonly bucketBounds: number[]
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? {
+      labels,
+      buckets: this.bucketBounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.buckets[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  count(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.count ?? 0;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bucketBounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Metrics in the Prometheus text exposition format (version 0.0.4)
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return this.metrics.map((metric) => metric.render()).join("\n\n") + "\n";
+  }
+
+  /**
+   * Clear every recorded value (for tests)
+   */
+  reset(): void {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Process-wide registry served on /metrics
+export const registry = new MetricsRegistry();
+
+export const metrics = {
+  tokenExpiryTimestamp: registry.gauge(
+    "lightspeed_token_expiry_timestamp_seconds",
+    "Unix time at which the stored access token expires"
+  ),
+  tokenSecondsUntilExpiry: registry.gauge(
+    "lightspeed_token_seconds_until_expiry",
+    "Seconds until the stored access token expires (negative once expired)"
+  ),
+  refreshAttempts: registry.counter(
+    "lightspeed_token_refresh_attempts_total",
+    "Token refreshes attempted against Lightspeed"
+  ),
+  refreshSuccesses: registry.counter(
+    "lightspeed_token_refresh_successes_total",
+    "Token refreshes that stored new tokens"
+  ),
+  refreshFailures: registry.counter(
+    "lightspeed_token_refresh_failures_total",
+    "Token refreshes that failed, by reason"
+  ),
+  refreshDuration: registry.histogram(
+    "lightspeed_token_refresh_duration_seconds",
+    "Time spent requesting a token refresh from Lightspeed, retries included",
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+  ),
+  tokenFetches: registry.counter(
+    "lightspeed_token_fetch_requests_total",
+    "Requests to GET /v1/token, by consumer and response status"
+  ),
+  proxyRequests: registry.counter(
+    "lightspeed_proxy_requests_total",
+    "Requests forwarded through /proxy, by consumer and response status"
+  ),
+  schedulerLastRun: registry.gauge(
+    "lightspeed_scheduler_last_run_timestamp_seconds",
+    "Unix time at which each scheduler task last finished"
+  ),
+  schedulerLeader: registry.gauge(
+    "lightspeed_scheduler_leader",
+    "1 while this replica is the elected scheduler leader, else 0"
+  ),
+  storeErrors: registry.counter(
+    "lightspeed_store_errors_total",
+    "Token store operations that failed, by operation"
+  ),
+  encryptionErrors: registry.counter(
+    "lightspeed_encryption_errors_total",
+    "Token encryption or decryption failures"
+  ),
+};
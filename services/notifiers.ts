@@ -0,0 +1,283 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import crypto from "crypto";
+import type { Alert, AlertSeverity } from "./alert-service";
+
+// A destination for alerts
+export interface Notifier {
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+  critical: "🚨",
+  warning: "⚠️",
+  info: "✅",
+};
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${(await response.text()).substring(0, 200)}`);
+  }
+}
+
+/**
+ * POSTs the alert as JSON to any URL
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = "webhook";
+
+  constructor(
+    private readonly url: string,
+    private readonly bearerToken?: string
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(
+      this.url,
+      { ...alert, occurredAt: alert.occurredAt.toISOString() },
+      this.bearerToken ? { Authorization: `Bearer ${this.bearerToken}` } : {}
+    );
+  }
+}
+
+/**
+ * Posts to a Slack-compatible incoming webhook
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = "slack";
+
+  constructor(private readonly webhookUrl: string) {}
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.webhookUrl, {
+      text: `${SEVERITY_EMOJI[alert.severity]} *${alert.title}*\n${alert.message}`,
+    });
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // TLS from the start (usually port 465)
+  startTls?: boolean; // Upgrade with STARTTLS when the server offers it (default true)
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  timeoutMs?: number;
+}
+
+/**
+ * Sends alerts as plain-text email. Works with a local mail catcher
+ * (e.g. Mailpit or MailHog on port 1025) as well as real relays.
+ */
+export class SmtpNotifier implements Notifier {
+  readonly name = "smtp";
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(alert: Alert): Promise<void> {
+    await sendMail(
+      this.options,
+      `[${alert.severity.toUpperCase()}] ${alert.title}`,
+      [
+        alert.message,
+        "",
+        `Account: ${alert.accountId}`,
+        `Alert: ${alert.type}`,
+        `Time: ${alert.occurredAt.toISOString()}`,
+        `Host: ${os.hostname()}`,
+      ].join("\n")
+    );
+  }
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Minimal SMTP client: one message per connection
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = "";
+  private partial: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    private readonly options: SmtpOptions,
+    socket: net.Socket
+  ) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  static async open(options: SmtpOptions): Promise<SmtpSession> {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    const session = new SmtpSession(options, socket);
+    await session.expect(await session.read(), [220], "greeting");
+    return session;
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(await this.read(), expected, line.split(" ")[0]);
+  }
+
+  async upgradeToTls(): Promise<void> {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername: this.options.host });
+    this.socket = secured;
+    this.attach(secured);
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", resolve);
+      secured.once("error", reject);
+    });
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private expect(response: SmtpResponse, expected: number[], step: string): SmtpResponse {
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${step} failed: ${response.code} ${response.lines.join(" ")}`);
+    }
+    return response;
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.options.timeoutMs ?? REQUEST_TIMEOUT_MS, () => {
+      this.fail(new Error("SMTP server timed out"));
+      socket.destroy();
+    });
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.substring(0, index);
+      this.buffer = this.buffer.substring(index + 2);
+      this.partial.push(line.substring(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] !== "-") {
+        this.push({ code: parseInt(line.substring(0, 3), 10), lines: this.partial });
+        this.partial = [];
+      }
+    }
+  }
+
+  private push(response: SmtpResponse): void {
+    if (this.waiting) {
+      this.waiting.resolve(response);
+      this.waiting = null;
+    } else {
+      this.responses.push(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const next = this.responses.shift();
+    if (next) {
+      return Promise.resolve(next);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+}
+
+/**
+ * Encode a header value as RFC 2047 UTF-8 if it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+export async function sendMail(options: SmtpOptions, subject: string, text: string): Promise<void> {
+  const session = await SmtpSession.open(options);
+
+  try {
+    const heloName = os.hostname() || "localhost";
+    let ehlo = await session.command(`EHLO ${heloName}`, [250]);
+
+    const offersStartTls = ehlo.lines.some((line) => line.toUpperCase() === "STARTTLS");
+    if (!options.secure && options.startTls !== false && offersStartTls) {
+      await session.command("STARTTLS", [220]);
+      await session.upgradeToTls();
+      ehlo = await session.command(`EHLO ${heloName}`, [250]);
+    }
+
+    if (options.username) {
+      const credentials = Buffer.from(
+        `\0${options.username}\0${options.password ?? ""}`,
+        "utf8"
+      ).toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${options.from}>`, [250]);
+    for (const recipient of options.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+
+    await session.command("DATA", [354]);
+
+    const headers = [
+      `From: ${options.from}`,
+      `To: ${options.to.join(", ")}`,
+      `Subject: ${encodeHeader(subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${heloName}>`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+    ];
+    // Lines starting with "." are escaped so they don't end the message early
+    const body = text
+      .split(/\r?\n/)
+      .map((line) => (line.startsWith(".") ? `.${line}` : line))
+      .join("\r\n");
+
+    await session.command(`${headers.join("\r\n")}\r\n\r\n${body}\r\n.`, [250]);
+    await session.command("QUIT", [221]).catch(() => {});
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,337 @@
+import type { Server } from "bun";
+import crypto from "crypto";
+import { buildAuthorizeUrl } from "./lightspeed-oauth";
+import { systemClock, type Clock } from "./clock";
+import { LeaseService } from "./lease-service";
+import { getDefaultTokenStore, type TokenStore } from "./token-store";
+import type { LightspeedTokenService } from "./token-service";
+import type { TokenEventService, TokenEventSource } from "./token-events";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "oauth-callback" });
+
+const DEFAULT_STATE_TTL_MS = 10 * 60 * 1000; // Time allowed to finish authorizing in the browser
+const SERVICE_LOGIN_POLL_MS = 1000;
+
+// A login started with begin() and not yet completed; sealed into the state parameter
+interface PendingLogin {
+  accountId: string;
+  scope: string;
+  expiresAt: number;
+  nonce: string;
+}
+
+// The OAuth callback listener could not bind the redirect URI's address
+export class CallbackListenError extends Error {
+  readonly code?: string; // e.g. EADDRINUSE when the service already listens there
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = "CallbackListenError";
+    this.code = code;
+  }
+}
+
+export interface OAuthCallbackResult {
+  success: boolean;
+  message: string;
+  accountId?: string;
+  // False when the request did not carry a state we issued, so the login is still pending
+  matchedState: boolean;
+}
+
+export interface OAuthLoginFlowOptions {
+  store?: TokenStore; // Records used states; should be the token service's store
+  clock?: Clock;
+  stateTtlMs?: number;
+  source?: TokenEventSource;
+}
+
+/**
+ * Authorization code flow with CSRF protection: every authorize URL carries a
+ * single-use `state` that the callback must present before its code is exchanged
+ * for tokens. The state is the login's details encrypted with the token encryption
+ * key, so any process sharing the key and store can complete a login another began -
+ * the running service can finish a login started from the CLI.
+ */
+export class OAuthLoginFlow {
+  private readonly tokenService: LightspeedTokenService;
+  private readonly leases: LeaseService;
+  private readonly clock: Clock;
+  private readonly stateTtlMs: number;
+  private readonly source: TokenEventSource;
+
+  constructor(tokenService: LightspeedTokenService, options: OAuthLoginFlowOptions = {}) {
+    this.tokenService = tokenService;
+    this.leases = new LeaseService(options.store ?? getDefaultTokenStore());
+    this.clock = options.clock ?? systemClock;
+    this.stateTtlMs = options.stateTtlMs ?? DEFAULT_STATE_TTL_MS;
+    this.source = options.source ?? "cli";
+  }
+
+  /**
+   * Start a login: returns the URL to open in the browser
+   */
+  async begin(params: {
+    clientId: string;
+    redirectUri: string;
+    scope: string;
+    accountId: string;
+  }): Promise<{ authorizeUrl: string; state: string }> {
+    const login: PendingLogin = {
+      accountId: params.accountId,
+      scope: params.scope,
+      expiresAt: this.clock.now().getTime() + this.stateTtlMs,
+      nonce: crypto.randomBytes(16).toString("hex"),
+    };
+    const state = Buffer.from(await this.tokenService.encrypt(JSON.stringify(login))).toString("base64url");
+
+    return {
+      authorizeUrl: buildAuthorizeUrl({
+        clientId: params.clientId,
+        redirectUri: params.redirectUri,
+        scope: params.scope,
+        state,
+      }),
+      state,
+    };
+  }
+
+  /**
+   * Verify the redirect's state and exchange its code for tokens
+   */
+  async handleCallback(url: URL): Promise<OAuthCallbackResult> {
+    const login = await this.openState(url.searchParams.get("state"));
+    const remainingMs = login ? login.expiresAt - this.clock.now().getTime() : 0;
+
+    if (login && remainingMs <= 0) {
+      return {
+        success: false,
+        matchedState: true,
+        accountId: login.accountId,
+        message: "This login link has expired. Start the login again.",
+      };
+    }
+
+    // Single use: the first callback claims the state until it would have expired anyway
+    if (!login || !(await this.leases.acquire(`oauth-state:${login.nonce}`, remainingMs))) {
+      log.warn("⚠️  OAuth callback with a missing, unknown or reused state was rejected");
+      return {
+        success: false,
+        matchedState: false,
+        message: "This login link is invalid or was already used. Start the login again.",
+      };
+    }
+
+    const providerError = url.searchParams.get("error");
+    if (providerError) {
+      const description = url.searchParams.get("error_description");
+      return {
+        success: false,
+        matchedState: true,
+        accountId: login.accountId,
+        message: `Lightspeed did not authorize the application (${providerError}${description ? `: ${description}` : ""}).`,
+      };
+    }
+
+    const code = url.searchParams.get("code");
+    if (!code) {
+      return {
+        success: false,
+        matchedState: true,
+        accountId: login.accountId,
+        message: "Lightspeed did not send an authorization code.",
+      };
+    }
+
+    const tokens = await this.tokenService.loginWithAuthCode(
+      code,
+      login.accountId,
+      this.source,
+      login.scope
+    );
+
+    return tokens
+      ? {
+          success: true,
+          matchedState: true,
+          accountId: login.accountId,
+          message: `Login successful! Tokens for account "${login.accountId}" are stored securely. You can close this window.`,
+        }
+      : {
+          success: false,
+          matchedState: true,
+          accountId: login.accountId,
+          message: "Lightspeed rejected the authorization code. Start the login again.",
+        };
+  }
+
+  /**
+   * Decrypt a state issued by begin(); null for anything we did not issue
+   */
+  private async openState(state: string | null): Promise<PendingLogin | null> {
+    if (!state) {
+      return null;
+    }
+    try {
+      const login = JSON.parse(await this.tokenService.decrypt(Buffer.from(state, "base64url").toString("utf8")));
+      return typeof login?.nonce === "string" && typeof login.accountId === "string" ? login : null;
+    } catch {
+      return null; // Forged, truncated, or sealed with another key
+    }
+  }
+}
+
+/**
+ * Wait for the running service to complete a login for `accountId` through its own
+ * callback route, by watching the account's history from `since`
+ */
+export async function waitForServiceLogin(
+  events: TokenEventService,
+  accountId: string,
+  since: Date,
+  timeoutMs: number = DEFAULT_STATE_TTL_MS
+): Promise<OAuthCallbackResult> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const [event] = (await events.listEvents({ accountId, since, limit: 10 })).filter(
+      (candidate) => candidate.source === "api" && (candidate.type === "login" || candidate.type === "login_failure")
+    );
+
+    if (event?.type === "login") {
+      return {
+        success: true,
+        matchedState: true,
+        accountId,
+        message: `Login successful! The service stored the tokens for account "${accountId}".`,
+      };
+    }
+    if (event) {
+      return {
+        success: false,
+        matchedState: true,
+        accountId,
+        message: `The service could not complete the login: ${event.message ?? "unknown error"}`,
+      };
+    }
+    await Bun.sleep(SERVICE_LOGIN_POLL_MS);
+  }
+
+  throw new Error("Timed out waiting for the service to complete the login");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Page shown in the browser once the callback has been handled
+ */
+export function renderCallbackPage(result: OAuthCallbackResult): Response {
+  const title = result.success ? "✅ Lightspeed login complete" : "❌ Lightspeed login failed";
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:36rem;margin:4rem auto;padding:0 1rem;color:#222}h1{font-size:1.4rem}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(result.message)}</p>
+</body>
+</html>
+`;
+
+  return new Response(html, {
+    status: result.success ? 200 : 400,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+      "Referrer-Policy": "no-referrer", // Keep the code out of Referer headers
+    },
+  });
+}
+
+export interface CallbackListenerOptions {
+  redirectUri: string;
+  timeoutMs?: number;
+  tls?: { certFile: string; keyFile: string };
+}
+
+/**
+ * Serve the redirect URI on this machine until a login started with `flow` completes.
+ * Requests with a state the flow did not issue get an error page and are otherwise ignored.
+ */
+export async function waitForOAuthCallback(
+  flow: OAuthLoginFlow,
+  options: CallbackListenerOptions
+): Promise<OAuthCallbackResult> {
+  const redirect = new URL(options.redirectUri);
+  const secure = redirect.protocol === "https:";
+
+  if (secure && !options.tls) {
+    throw new Error(
+      "The redirect URI uses https: set OAUTH_CALLBACK_TLS_CERT and OAUTH_CALLBACK_TLS_KEY to serve it, or log in with --manual"
+    );
+  }
+
+  let server: Server | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  try {
+    return await new Promise<OAuthCallbackResult>((resolve, reject) => {
+      try {
+        server = Bun.serve({
+          hostname: redirect.hostname.replace(/^\[|\]$/g, ""), // "[::1]" -> "::1"
+          port: Number(redirect.port) || (secure ? 443 : 80),
+          ...(options.tls
+            ? { tls: { cert: Bun.file(options.tls.certFile), key: Bun.file(options.tls.keyFile) } }
+            : {}),
+          fetch: async (request) => {
+            const url = new URL(request.url);
+            if (request.method !== "GET" || url.pathname !== redirect.pathname) {
+              return new Response("Not found", { status: 404 });
+            }
+
+            const result = await flow.handleCallback(url);
+            if (result.matchedState) {
+              resolve(result);
+            }
+            return renderCallbackPage(result);
+          },
+        });
+      } catch (error) {
+        reject(
+          new CallbackListenError(
+            `Could not listen on ${redirect.host} for the OAuth callback (${
+              error instanceof Error ? error.message : "unknown error"
+            }). Free the port or log in with --manual`,
+            (error as NodeJS.ErrnoException).code
+          )
+        );
+        return;
+      }
+
+      timer = setTimeout(
+        () => reject(new Error("Timed out waiting for the OAuth callback")),
+        options.timeoutMs ?? DEFAULT_STATE_TTL_MS
+      );
+    });
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    // Let the browser receive the result page before the listener goes away
+    const listener = server as Server | null;
+    if (listener) {
+      setTimeout(() => listener.stop(), 100);
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import * as cron from "node-cron";
+
+// How long before expiry tokens are refreshed: a fixed time, or a share of the token's lifetime
+export type RefreshBuffer =
+  | { kind: "absolute"; ms: number }
+  | { kind: "fraction"; fraction: number }; // 0.2 = the last 20% of the lifetime
+
+export interface RefreshPolicy {
+  buffer: RefreshBuffer;
+  jitterMs: number; // Refresh up to this much earlier, picked at random per token
+  refreshCheckSchedule: string; // Cron expression for the safety-net refresh poll
+  healthCheckSchedule: string; // Cron expression for the health check
+  expiryWarningMinutes: number; // Health check warns when tokens expire sooner than this
+  defaultExpiresInSeconds: number; // Lifetime assumed when Lightspeed omits expires_in
+}
+
+export const DEFAULT_REFRESH_POLICY: RefreshPolicy = {
+  buffer: { kind: "absolute", ms: 10 * 60 * 1000 },
+  jitterMs: 0,
+  refreshCheckSchedule: "*/15 * * * *",
+  healthCheckSchedule: "0 * * * *",
+  expiryWarningMinutes: 30,
+  defaultExpiresInSeconds: 3600,
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration like "90s", "10m", "1h" or "7d" into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)\s*(s|m|h|d)$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+/**
+ * Shortest readable form of a duration, e.g. 600000 -> "10m"
+ */
+export function formatDuration(ms: number): string {
+  for (const unit of ["d", "h", "m", "s"]) {
+    if (ms >= DURATION_UNITS[unit] && ms % DURATION_UNITS[unit] === 0) {
+      return `${ms / DURATION_UNITS[unit]}${unit}`;
+    }
+  }
+  return `${ms / 1000}s`;
+}
+
+/**
+ * Parse REFRESH_BUFFER: a duration ("10m") or a share of the token lifetime ("20%")
+ */
+export function parseRefreshBuffer(value: string): RefreshBuffer | null {
+  const percent = /^(\d+(?:\.\d+)?)\s*%$/.exec(value.trim());
+  if (percent) {
+    const fraction = parseFloat(percent[1]) / 100;
+    return fraction > 0 && fraction < 1 ? { kind: "fraction", fraction } : null;
+  }
+
+  const ms = parseDuration(value);
+  return ms !== null && ms > 0 ? { kind: "absolute", ms } : null;
+}
+
+/**
+ * Build the refresh policy from the REFRESH_* settings, collecting every problem.
+ * Unset settings keep their defaults.
+ */
+export function parseRefreshPolicy(env: NodeJS.ProcessEnv): {
+  policy: RefreshPolicy;
+  problems: string[];
+} {
+  const problems: string[] = [];
+  const policy: RefreshPolicy = { ...DEFAULT_REFRESH_POLICY };
+  const value = (name: string): string | undefined => env[name]?.trim() || undefined;
+
+  const buffer = value("REFRESH_BUFFER");
+  if (buffer) {
+    const parsed = parseRefreshBuffer(buffer);
+    if (parsed) {
+      policy.buffer = parsed;
+    } else {
+      problems.push(`REFRESH_BUFFER must be a duration like "10m" or a share of the lifetime like "20%", got "${buffer}"`);
+    }
+  }
+
+  const jitter = value("REFRESH_JITTER");
+  if (jitter) {
+    const ms = parseDuration(jitter);
+    if (ms !== null) {
+      policy.jitterMs = ms;
+    } else {
+      problems.push(`REFRESH_JITTER must be a duration like "2m", got "${jitter}"`);
+    }
+  }
+
+  const schedules = [
+    ["REFRESH_CHECK_SCHEDULE", "refreshCheckSchedule"],
+    ["HEALTH_CHECK_SCHEDULE", "healthCheckSchedule"],
+  ] as const;
+  for (const [name, field] of schedules) {
+    const schedule = value(name);
+    if (!schedule) {
+      continue;
+    }
+    if (cron.validate(schedule)) {
+      policy[field] = schedule;
+    } else {
+      problems.push(`${name} must be a cron expression like "*/15 * * * *", got "${schedule}"`);
+    }
+  }
+
+  const warning = value("EXPIRY_WARNING_MINUTES");
+  if (warning) {
+    if (/^\d+$/.test(warning)) {
+      policy.expiryWarningMinutes = parseInt(warning, 10);
+    } else {
+      problems.push(`EXPIRY_WARNING_MINUTES must be a whole number, got "${warning}"`);
+    }
+  }
+
+  const lifetime = value("DEFAULT_TOKEN_LIFETIME");
+  if (lifetime) {
+    const ms = parseDuration(lifetime);
+    if (ms !== null && ms >= 1000) {
+      policy.defaultExpiresInSeconds = ms / 1000;
+    } else {
+      problems.push(`DEFAULT_TOKEN_LIFETIME must be a duration like "1h", got "${lifetime}"`);
+    }
+  }
+
+  if (policy.buffer.kind === "absolute" && policy.buffer.ms >= policy.defaultExpiresInSeconds * 1000) {
+    problems.push(
+      `REFRESH_BUFFER (${formatDuration(policy.buffer.ms)}) must be shorter than DEFAULT_TOKEN_LIFETIME ` +
+        `(${formatDuration(policy.defaultExpiresInSeconds * 1000)}), or tokens would be refreshed as soon as they are issued`
+    );
+  }
+
+  return { policy, problems };
+}
+
+/**
+ * When tokens issued at `issuedAt` and expiring at `expiresAt` are due for refresh.
+ * `jitterMs` moves the time earlier; it never moves past the issue time.
+ */
+export function refreshDueAt(
+  policy: RefreshPolicy,
+  issuedAt: Date,
+  expiresAt: Date,
+  jitterMs = 0
+): Date {
+  const lifetimeMs = Math.max(0, expiresAt.getTime() - issuedAt.getTime());
+  const bufferMs =
+    policy.buffer.kind === "absolute"
+      ? policy.buffer.ms
+      : Math.round(lifetimeMs * policy.buffer.fraction);
+
+  const dueAt = expiresAt.getTime() - bufferMs;
+  return new Date(Math.min(dueAt, Math.max(dueAt - jitterMs, issuedAt.getTime())));
+}
+
+/**
+ * One line per setting, for `status`
+ */
+export function describeRefreshPolicy(policy: RefreshPolicy): string[] {
+  const buffer =
+    policy.buffer.kind === "absolute"
+      ? `${formatDuration(policy.buffer.ms)} before expiry`
+      : `last ${Math.round(policy.buffer.fraction * 1000) / 10}% of the token lifetime`;
+
+  return [
+    `Refresh: ${buffer}${policy.jitterMs > 0 ? ` (up to ${formatDuration(policy.jitterMs)} earlier, at random)` : ""}`,
+    `Refresh check: when due, plus a safety-net poll at ${policy.refreshCheckSchedule}`,
+    `Health check: ${policy.healthCheckSchedule} (warns under ${policy.expiryWarningMinutes} minutes left)`,
+    `Assumed lifetime when Lightspeed omits it: ${formatDuration(policy.defaultExpiresInSeconds * 1000)}`,
+  ];
+}
+
+const CRON_MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const CRON_WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MINUTE_MS = 60 * 1000;
+const CRON_SCAN_MINUTES = 15 * 24 * 60; // Two weeks and a day, so gaps across a weekend or a week show up
+
+/**
+ * Values one cron field allows: *, numbers, names, ranges, steps and lists of them
+ */
+function cronFieldValues(field: string, min: number, max: number, names: string[] = [], nameBase = 0): Set<number> {
+  const number = (text: string): number => {
+    const named = names.indexOf(text.slice(0, 3).toLowerCase());
+    return named !== -1 ? named + nameBase : parseInt(text, 10);
+  };
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    const [startText, endText] = range.split("-");
+    const start = range === "*" ? min : number(startText);
+    const end = range === "*" ? max : endText !== undefined ? number(endText) : stepText ? max : start;
+
+    for (let value = start; value <= end && step > 0; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Longest gap between two runs of a cron expression (5 fields, or 6 with seconds),
+ * to the minute. Null when it runs less often than weekly.
+ */
+export function cronIntervalMs(expression: string): number | null {
+  const fields = expression.trim().split(/\s+/);
+  const [minute, hour, day, month, weekday] = fields.length === 6 ? fields.slice(1) : fields;
+  if (weekday === undefined) {
+    return null;
+  }
+
+  const minutes = cronFieldValues(minute, 0, 59);
+  const hours = cronFieldValues(hour, 0, 23);
+  const days = cronFieldValues(day, 1, 31);
+  const months = cronFieldValues(month, 1, 12, CRON_MONTHS, 1);
+  const weekdays = cronFieldValues(weekday, 0, 7, CRON_WEEKDAYS);
+  if (weekdays.has(7)) {
+    weekdays.add(0); // Both 0 and 7 mean Sunday
+  }
+
+  // Walk the minutes from a fixed Sunday midnight, matching like node-cron (every field must)
+  const start = new Date(2026, 0, 4).getTime();
+  let previousRun: number | null = null;
+  let longestGap: number | null = null;
+
+  for (let i = 0; i < CRON_SCAN_MINUTES; i++) {
+    const at = new Date(start + i * MINUTE_MS);
+    const matches =
+      minutes.has(at.getMinutes()) &&
+      hours.has(at.getHours()) &&
+      days.has(at.getDate()) &&
+      months.has(at.getMonth() + 1) &&
+      weekdays.has(at.getDay());
+
+    if (matches) {
+      if (previousRun !== null) {
+        longestGap = Math.max(longestGap ?? 0, at.getTime() - previousRun);
+      }
+      previousRun = at.getTime();
+    }
+  }
+  return longestGap;
+}
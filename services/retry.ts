@@ -0,0 +1,46 @@
+export interface RetryOptions {
+  maxAttempts: number; // Including the first try
+  baseDelayMs: number; // Backoff before the second attempt, doubled each time
+  maxDelayMs: number; // Cap for a single backoff
+  maxRetryAfterMs: number; // Longest Retry-After we are willing to wait for
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 1000,
+  maxRetryAfterMs: 30 * 1000,
+};
+
+/**
+ * Exponential backoff with full jitter for the given attempt (1 = first retry)
+ */
+export function backoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: Date = new Date()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now.getTime());
+}
@@ -0,0 +1,63 @@
+// Scope requested by `login` when none is given
+export const DEFAULT_OAUTH_SCOPE = "employee:all";
+
+// Lightspeed's "employee:all" grants every employee:* permission
+const WILDCARD_SCOPES: Record<string, string> = {
+  "employee:all": "employee:",
+};
+
+/**
+ * Split a scope string ("a b", "a,b" or "a+b") into its distinct scopes
+ */
+export function parseScopes(scope: string | null | undefined): string[] {
+  if (!scope) {
+    return [];
+  }
+  return [...new Set(scope.split(/[\s,+]+/).filter(Boolean))];
+}
+
+/**
+ * OAuth wire format: space separated
+ */
+export function formatScopes(scopes: string[]): string {
+  return scopes.join(" ");
+}
+
+function covers(granted: string, required: string): boolean {
+  if (granted === required) {
+    return true;
+  }
+  const prefix = WILDCARD_SCOPES[granted];
+  return prefix !== undefined && required.startsWith(prefix);
+}
+
+/**
+ * Required scopes the granted scope does not cover. Null when nothing is known
+ * about the granted scope (tokens stored before scopes were recorded, or by `set`).
+ */
+export function findMissingScopes(granted: string | null, required: string[]): string[] | null {
+  if (required.length === 0) {
+    return [];
+  }
+  if (granted === null) {
+    return null;
+  }
+
+  const grantedScopes = parseScopes(granted);
+  return required.filter((scope) => !grantedScopes.some((candidate) => covers(candidate, scope)));
+}
+
+/**
+ * Scopes gained and lost between two grants
+ */
+export function diffScopes(
+  before: string | null,
+  after: string | null
+): { added: string[]; removed: string[] } {
+  const previous = parseScopes(before);
+  const current = parseScopes(after);
+  return {
+    added: current.filter((scope) => !previous.includes(scope)),
+    removed: previous.filter((scope) => !current.includes(scope)),
+  };
+}
@@ -0,0 +1,134 @@
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { dirname } from "path";
+import type { TokenCipher } from "../token-cipher";
+import type { TokenStoreName } from "../token-store";
+import { MemoryTokenStore, emptyStoreData, type MemoryStoreData } from "./memory-store";
+
+const DATE_FIELDS = new Set(["expiresAt", "updatedAt", "createdAt", "lastUsedAt", "revokedAt"]);
+
+const LOCK_POLL_INTERVAL_MS = 20;
+const LOCK_TIMEOUT_MS = 30 * 1000; // Give up waiting for another process's write
+const STALE_LOCK_MS = 60 * 1000; // A lock this old was left behind by a crashed process
+
+/**
+ * Single encrypted JSON document on local disk, for small single-host deployments.
+ *
+ * Every write runs under a lockfile created with O_EXCL next to the document, and
+ * re-reads the document once it holds the lock, so processes sharing the file take
+ * leases and update tokens one at a time. Only the newest events are kept, so the
+ * document (rewritten whole on every change) stays small.
+ */
+export class FileTokenStore extends MemoryTokenStore {
+  readonly name: TokenStoreName = "file";
+  protected readonly maxEvents = 1000;
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly cipher: TokenCipher;
+  private loadedMtimeMs: number | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve(); // Writers in this process
+
+  constructor(path: string, cipher: TokenCipher) {
+    super();
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.cipher = cipher;
+  }
+
+  protected async load(): Promise<void> {
+    let mtimeMs: number;
+
+    try {
+      mtimeMs = (await stat(this.path)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return; // Nothing written yet
+      }
+      throw error;
+    }
+
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    const encrypted = (await readFile(this.path, "utf8")).trim();
+    const json = await this.cipher.decrypt(encrypted);
+
+    this.data = {
+      ...emptyStoreData(),
+      ...(JSON.parse(json, (key, value) =>
+        DATE_FIELDS.has(key) && typeof value === "string" ? new Date(value) : value
+      ) as MemoryStoreData),
+    };
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  protected async persist(): Promise<void> {
+    const encrypted = await this.cipher.encrypt(JSON.stringify(this.data));
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+
+    await writeFile(tempPath, encrypted + "\n", { mode: 0o600 });
+    await rename(tempPath, this.path);
+
+    this.loadedMtimeMs = (await stat(this.path)).mtimeMs;
+  }
+
+  protected async exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      await this.acquireLock();
+      try {
+        return await operation(); // Its load() picks up changes made before we took the lock
+      } finally {
+        await unlink(this.lockPath).catch(() => {});
+      }
+    });
+    this.writeQueue = run.catch(() => {});
+
+    return await run;
+  }
+
+  /**
+   * Create the lockfile, waiting while another process holds it
+   */
+  private async acquireLock(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, "wx", 0o600);
+        await handle.writeFile(`${process.pid}\n`);
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      if (await this.removeStaleLock()) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for the token file lock ${this.lockPath}`);
+      }
+      await Bun.sleep(LOCK_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Remove a lock abandoned by a crashed process. Returns true if one was removed.
+   */
+  private async removeStaleLock(): Promise<boolean> {
+    try {
+      const { mtimeMs } = await stat(this.lockPath);
+      if (Date.now() - mtimeMs < STALE_LOCK_MS) {
+        return false;
+      }
+      await unlink(this.lockPath);
+      return true;
+    } catch (error) {
+      // Released between our attempt and the check: just try again
+      return (error as NodeJS.ErrnoException).code === "ENOENT";
+    }
+  }
+}
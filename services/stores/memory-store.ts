@@ -0,0 +1,340 @@
+import type { LightspeedToken } from "../token-service";
+import type { NewTokenEvent, TokenEvent, TokenEventFilters } from "../token-events";
+import { StaleLeaseError, type Lease } from "../lease-service";
+import type { ApiConsumer } from "../consumer-service";
+import type {
+  ApiConsumerUpdate,
+  NewApiConsumer,
+  NewTokenRecord,
+  TokenRecordUpdate,
+  TokenRewrite,
+  TokenStore,
+  TokenStoreName,
+} from "../token-store";
+
+// Everything the in-memory store holds; also the document the file store persists
+export interface MemoryStoreData {
+  nextIds: { tokens: number; events: number; consumers: number };
+  tokens: LightspeedToken[];
+  events: TokenEvent[];
+  leases: Lease[];
+  consumers: ApiConsumer[];
+}
+
+export function emptyStoreData(): MemoryStoreData {
+  return {
+    nextIds: { tokens: 1, events: 1, consumers: 1 },
+    tokens: [],
+    events: [],
+    leases: [],
+    consumers: [],
+  };
+}
+
+/**
+ * Process-local storage for tests and throwaway deployments. Nothing survives a restart.
+ * Subclasses can persist the data by overriding load(), persist() and exclusive().
+ */
+export class MemoryTokenStore implements TokenStore {
+  readonly name: TokenStoreName = "memory";
+  protected data: MemoryStoreData = emptyStoreData();
+  protected readonly maxEvents: number = Infinity; // Oldest events are dropped beyond this
+
+  /**
+   * Refresh `data` from backing storage before an operation
+   */
+  protected async load(): Promise<void> {}
+
+  /**
+   * Run a read-modify-write operation with no other writer interleaving
+   */
+  protected async exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    return await operation();
+  }
+
+  /**
+   * Write `data` to backing storage after a change
+   */
+  protected async persist(): Promise<void> {}
+
+  // Tokens
+
+  async getLatestTokens(accountId: string): Promise<LightspeedToken | null> {
+    await this.load();
+    const matches = this.data.tokens
+      .filter((token) => token.accountId === accountId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+    // Documents written before scopes were recorded have no scope field
+    return matches[0] ? { ...matches[0], scope: matches[0].scope ?? null } : null;
+  }
+
+  async listAccounts(): Promise<string[]> {
+    await this.load();
+    return [...new Set(this.data.tokens.map((token) => token.accountId))].sort();
+  }
+
+  async insertTokens(record: NewTokenRecord): Promise<LightspeedToken> {
+    return await this.exclusive(async () => {
+      await this.load();
+
+      if (this.data.tokens.some((token) => token.accountId === record.accountId)) {
+        throw new Error(`Tokens for account "${record.accountId}" already exist`);
+      }
+
+      const token: LightspeedToken = { ...record, id: this.data.nextIds.tokens++ };
+      this.data.tokens.push(token);
+      await this.persist();
+
+      return { ...token };
+    });
+  }
+
+  async updateTokens(id: number, update: TokenRecordUpdate, fence?: Lease): Promise<LightspeedToken> {
+    return await this.exclusive(async () => {
+      await this.load();
+      const token = this.data.tokens.find((candidate) => candidate.id === id);
+
+      if (!token) {
+        throw new Error(`Token record ${id} not found`);
+      }
+      if (fence && !this.findLease(fence)) {
+        throw new StaleLeaseError(fence);
+      }
+
+      Object.assign(token, stripUndefined(update));
+      await this.persist();
+
+      return { ...token };
+    });
+  }
+
+  async deleteTokens(accountId?: string): Promise<number> {
+    return await this.exclusive(async () => {
+      await this.load();
+      const before = this.data.tokens.length;
+      this.data.tokens = accountId
+        ? this.data.tokens.filter((token) => token.accountId !== accountId)
+        : [];
+      await this.persist();
+
+      return before - this.data.tokens.length;
+    });
+  }
+
+  async rewriteTokens(rewrite: TokenRewrite): Promise<number> {
+    return await this.exclusive(async () => {
+      await this.load();
+
+      // Work out every replacement before changing anything, so a failure leaves all records intact
+      const replacements: [LightspeedToken, Pick<LightspeedToken, "accessToken" | "refreshToken">][] = [];
+      for (const token of this.data.tokens) {
+        const replacement = await rewrite({ ...token });
+        if (replacement) {
+          replacements.push([token, replacement]);
+        }
+      }
+
+      for (const [token, replacement] of replacements) {
+        Object.assign(token, replacement);
+      }
+      if (replacements.length > 0) {
+        await this.persist();
+      }
+
+      return replacements.length;
+    });
+  }
+
+  // History
+
+  async recordEvent(event: NewTokenEvent): Promise<void> {
+    return await this.exclusive(async () => {
+      await this.load();
+      this.data.events.push({
+        id: this.data.nextIds.events++,
+        accountId: event.accountId,
+        type: event.type,
+        source: event.source,
+        httpStatus: event.httpStatus ?? null,
+        message: event.message ?? null,
+        errorBody: event.errorBody ?? null,
+        refreshTokenFingerprint: event.refreshTokenFingerprint ?? null,
+        newTokenFingerprint: event.newTokenFingerprint ?? null,
+        expiresAt: event.expiresAt ?? null,
+        createdAt: new Date(),
+      });
+      if (this.data.events.length > this.maxEvents) {
+        this.data.events = this.data.events.slice(-this.maxEvents);
+      }
+      await this.persist();
+    });
+  }
+
+  async listEvents(filters: TokenEventFilters): Promise<TokenEvent[]> {
+    await this.load();
+    return this.data.events
+      .filter(
+        (event) =>
+          (!filters.accountId || event.accountId === filters.accountId) &&
+          (!filters.type || event.type === filters.type) &&
+          (!filters.source || event.source === filters.source) &&
+          (!filters.since || event.createdAt >= filters.since)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, filters.limit)
+      .map((event) => ({ ...event }));
+  }
+
+  async pruneEvents(olderThan: Date): Promise<number> {
+    return await this.exclusive(async () => {
+      await this.load();
+      const before = this.data.events.length;
+      this.data.events = this.data.events.filter((event) => event.createdAt >= olderThan);
+      await this.persist();
+
+      return before - this.data.events.length;
+    });
+  }
+
+  // Leases
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease | null> {
+    return await this.exclusive(async () => {
+      await this.load();
+      const now = Date.now();
+      const existing = this.data.leases.find((lease) => lease.name === name);
+
+      if (existing && existing.expiresAt.getTime() > now) {
+        return null;
+      }
+
+      const lease: Lease = {
+        name,
+        holder,
+        fencingToken: (existing?.fencingToken ?? 0) + 1,
+        expiresAt: new Date(now + ttlMs),
+      };
+      this.data.leases = this.data.leases.filter((candidate) => candidate.name !== name);
+      this.data.leases.push(lease);
+      await this.persist();
+
+      return { ...lease };
+    });
+  }
+
+  async renewLease(lease: Lease, ttlMs: number): Promise<Lease | null> {
+    return await this.exclusive(async () => {
+      await this.load();
+      const existing = this.findLease(lease);
+
+      if (!existing) {
+        return null;
+      }
+
+      existing.expiresAt = new Date(Date.now() + ttlMs);
+      await this.persist();
+      return { ...existing };
+    });
+  }
+
+  async releaseLease(lease: Lease): Promise<void> {
+    return await this.exclusive(async () => {
+      await this.load();
+      const existing = this.findLease(lease);
+
+      if (existing) {
+        existing.expiresAt = new Date();
+        await this.persist();
+      }
+    });
+  }
+
+  async isLeaseHeld(name: string): Promise<boolean> {
+    await this.load();
+    const lease = this.data.leases.find((candidate) => candidate.name === name);
+    return !!lease && lease.expiresAt.getTime() > Date.now();
+  }
+
+  /**
+   * The stored lease, if it is still held by this holder under this fencing token
+   */
+  private findLease(lease: Lease): Lease | undefined {
+    return this.data.leases.find(
+      (candidate) =>
+        candidate.name === lease.name &&
+        candidate.holder === lease.holder &&
+        candidate.fencingToken === lease.fencingToken
+    );
+  }
+
+  // Consumers
+
+  async getConsumer(name: string): Promise<ApiConsumer | null> {
+    await this.load();
+    const consumer = this.data.consumers.find((candidate) => candidate.name === name);
+    return consumer ? { ...consumer } : null;
+  }
+
+  async getConsumerByKeyHash(keyHash: string): Promise<ApiConsumer | null> {
+    await this.load();
+    const consumer = this.data.consumers.find((candidate) => candidate.keyHash === keyHash);
+    return consumer ? { ...consumer } : null;
+  }
+
+  async listConsumers(): Promise<ApiConsumer[]> {
+    await this.load();
+    return this.data.consumers
+      .map((consumer) => ({ ...consumer }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createConsumer(consumer: NewApiConsumer): Promise<ApiConsumer> {
+    return await this.exclusive(async () => {
+      await this.load();
+
+      if (this.data.consumers.some((candidate) => candidate.name === consumer.name)) {
+        throw new Error(`Consumer "${consumer.name}" already exists`);
+      }
+
+      const now = new Date();
+      const created: ApiConsumer = {
+        ...consumer,
+        id: this.data.nextIds.consumers++,
+        enabled: true,
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.data.consumers.push(created);
+      await this.persist();
+
+      return { ...created };
+    });
+  }
+
+  async updateConsumer(id: number, update: ApiConsumerUpdate): Promise<ApiConsumer> {
+    return await this.exclusive(async () => {
+      await this.load();
+      const consumer = this.data.consumers.find((candidate) => candidate.id === id);
+
+      if (!consumer) {
+        throw new Error(`Consumer ${id} not found`);
+      }
+
+      Object.assign(consumer, stripUndefined(update), { updatedAt: new Date() });
+      await this.persist();
+
+      return { ...consumer };
+    });
+  }
+
+  async close(): Promise<void> {}
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,237 @@
+import type { DB } from "../../db/connection";
+import type { LightspeedToken } from "../token-service";
+import type { NewTokenEvent, TokenEvent, TokenEventFilters } from "../token-events";
+import { StaleLeaseError, type Lease } from "../lease-service";
+import type { ApiConsumer } from "../consumer-service";
+import type {
+  ApiConsumerUpdate,
+  NewApiConsumer,
+  NewTokenRecord,
+  TokenRecordUpdate,
+  TokenRewrite,
+  TokenStore,
+} from "../token-store";
+
+/**
+ * PostgreSQL storage through Prisma. The client is loaded on first use so other
+ * stores work without a generated Prisma client or a database server.
+ */
+export class PrismaTokenStore implements TokenStore {
+  readonly name = "postgres";
+  private readonly REWRITE_TIMEOUT_MS = 5 * 60 * 1000; // Rewrites may call an encryption provider per value
+  private client: DB | null = null;
+
+  private async db(): Promise<DB> {
+    if (!this.client) {
+      const { db } = await import("../../db/connection");
+      this.client = db;
+    }
+    return this.client;
+  }
+
+  // Tokens
+
+  async getLatestTokens(accountId: string): Promise<LightspeedToken | null> {
+    const db = await this.db();
+    return await db.lightspeedTokens.findFirst({
+      where: { accountId },
+      orderBy: { updatedAt: "desc" },
+    });
+  }
+
+  async listAccounts(): Promise<string[]> {
+    const db = await this.db();
+    const rows: { accountId: string }[] = await db.lightspeedTokens.findMany({
+      select: { accountId: true },
+      orderBy: { accountId: "asc" },
+    });
+
+    return rows.map((row) => row.accountId);
+  }
+
+  async insertTokens(record: NewTokenRecord): Promise<LightspeedToken> {
+    const db = await this.db();
+    return await db.lightspeedTokens.create({ data: record });
+  }
+
+  async updateTokens(id: number, update: TokenRecordUpdate, fence?: Lease): Promise<LightspeedToken> {
+    const db = await this.db();
+    if (!fence) {
+      return await db.lightspeedTokens.update({ where: { id }, data: update });
+    }
+
+    // Locking the lease row holds off a takeover until the update has committed
+    return await db.$transaction(async (tx: DB) => {
+      const held: unknown[] = await tx.$queryRaw`
+        SELECT 1 FROM "token_leases"
+        WHERE "name" = ${fence.name}
+          AND "holder" = ${fence.holder}
+          AND "fencing_token" = ${fence.fencingToken}
+        FOR UPDATE
+      `;
+      if (held.length === 0) {
+        throw new StaleLeaseError(fence);
+      }
+      return await tx.lightspeedTokens.update({ where: { id }, data: update });
+    });
+  }
+
+  async deleteTokens(accountId?: string): Promise<number> {
+    const db = await this.db();
+    const result = await db.lightspeedTokens.deleteMany({
+      where: accountId ? { accountId } : {},
+    });
+    return result.count;
+  }
+
+  async rewriteTokens(rewrite: TokenRewrite): Promise<number> {
+    const db = await this.db();
+
+    return await db.$transaction(
+      async (tx: DB) => {
+        const rows: LightspeedToken[] = await tx.lightspeedTokens.findMany();
+        let count = 0;
+
+        for (const row of rows) {
+          const replacement = await rewrite(row);
+          if (!replacement) {
+            continue;
+          }
+
+          await tx.lightspeedTokens.update({
+            where: { id: row.id },
+            data: replacement,
+          });
+          count++;
+        }
+
+        return count;
+      },
+      { timeout: this.REWRITE_TIMEOUT_MS }
+    );
+  }
+
+  // History
+
+  async recordEvent(event: NewTokenEvent): Promise<void> {
+    const db = await this.db();
+    await db.tokenEvents.create({ data: event });
+  }
+
+  async listEvents(filters: TokenEventFilters): Promise<TokenEvent[]> {
+    const db = await this.db();
+    return await db.tokenEvents.findMany({
+      where: {
+        accountId: filters.accountId,
+        type: filters.type,
+        source: filters.source,
+        createdAt: filters.since ? { gte: filters.since } : undefined,
+      },
+      orderBy: { createdAt: "desc" },
+      take: filters.limit,
+    });
+  }
+
+  async pruneEvents(olderThan: Date): Promise<number> {
+    const db = await this.db();
+    const result = await db.tokenEvents.deleteMany({
+      where: { createdAt: { lt: olderThan } },
+    });
+    return result.count;
+  }
+
+  // Leases: expiry is computed by the database clock so hosts with skewed clocks agree
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease | null> {
+    const db = await this.db();
+    const rows: Lease[] = await db.$queryRaw`
+      INSERT INTO "token_leases" ("name", "holder", "fencing_token", "expires_at", "acquired_at")
+      VALUES (
+        ${name},
+        ${holder},
+        1,
+        timezone('utc', now()) + ${ttlMs} * INTERVAL '1 millisecond',
+        timezone('utc', now())
+      )
+      ON CONFLICT ("name") DO UPDATE
+        SET "holder" = EXCLUDED."holder",
+            "fencing_token" = "token_leases"."fencing_token" + 1,
+            "expires_at" = EXCLUDED."expires_at",
+            "acquired_at" = EXCLUDED."acquired_at"
+        WHERE "token_leases"."expires_at" <= timezone('utc', now())
+      RETURNING "name", "holder", "fencing_token" AS "fencingToken", "expires_at" AS "expiresAt"
+    `;
+
+    return rows[0] ?? null;
+  }
+
+  async renewLease(lease: Lease, ttlMs: number): Promise<Lease | null> {
+    const db = await this.db();
+    const rows: Lease[] = await db.$queryRaw`
+      UPDATE "token_leases"
+      SET "expires_at" = timezone('utc', now()) + ${ttlMs} * INTERVAL '1 millisecond'
+      WHERE "name" = ${lease.name}
+        AND "holder" = ${lease.holder}
+        AND "fencing_token" = ${lease.fencingToken}
+      RETURNING "name", "holder", "fencing_token" AS "fencingToken", "expires_at" AS "expiresAt"
+    `;
+
+    return rows[0] ?? null;
+  }
+
+  async releaseLease(lease: Lease): Promise<void> {
+    const db = await this.db();
+    await db.$executeRaw`
+      UPDATE "token_leases"
+      SET "expires_at" = timezone('utc', now())
+      WHERE "name" = ${lease.name}
+        AND "holder" = ${lease.holder}
+        AND "fencing_token" = ${lease.fencingToken}
+    `;
+  }
+
+  async isLeaseHeld(name: string): Promise<boolean> {
+    const db = await this.db();
+    const rows: { held: boolean }[] = await db.$queryRaw`
+      SELECT "expires_at" > timezone('utc', now()) AS "held"
+      FROM "token_leases"
+      WHERE "name" = ${name}
+    `;
+
+    return rows[0]?.held ?? false;
+  }
+
+  // Consumers
+
+  async getConsumer(name: string): Promise<ApiConsumer | null> {
+    const db = await this.db();
+    return await db.apiConsumers.findUnique({ where: { name } });
+  }
+
+  async getConsumerByKeyHash(keyHash: string): Promise<ApiConsumer | null> {
+    const db = await this.db();
+    return await db.apiConsumers.findUnique({ where: { keyHash } });
+  }
+
+  async listConsumers(): Promise<ApiConsumer[]> {
+    const db = await this.db();
+    return await db.apiConsumers.findMany({ orderBy: { name: "asc" } });
+  }
+
+  async createConsumer(consumer: NewApiConsumer): Promise<ApiConsumer> {
+    const db = await this.db();
+    return await db.apiConsumers.create({ data: consumer });
+  }
+
+  async updateConsumer(id: number, update: ApiConsumerUpdate): Promise<ApiConsumer> {
+    const db = await this.db();
+    return await db.apiConsumers.update({ where: { id }, data: update });
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await this.client.$disconnect();
+      this.client = null;
+    }
+  }
+}
@@ -0,0 +1,525 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type { LightspeedToken } from "../token-service";
+import type {
+  NewTokenEvent,
+  TokenEvent,
+  TokenEventFilters,
+  TokenEventSource,
+  TokenEventType,
+} from "../token-events";
+import { StaleLeaseError, type Lease } from "../lease-service";
+import type { ApiConsumer } from "../consumer-service";
+import type {
+  ApiConsumerUpdate,
+  NewApiConsumer,
+  NewTokenRecord,
+  TokenRecordUpdate,
+  TokenRewrite,
+  TokenStore,
+} from "../token-store";
+
+// Timestamps are stored as epoch milliseconds
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS lightspeed_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id TEXT NOT NULL UNIQUE,
+    access_token TEXT NOT NULL,
+    refresh_token TEXT NOT NULL,
+    expires_at INTEGER,
+    scope TEXT,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS token_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    source TEXT NOT NULL,
+    http_status INTEGER,
+    message TEXT,
+    error_body TEXT,
+    refresh_token_fingerprint TEXT,
+    new_token_fingerprint TEXT,
+    expires_at INTEGER,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS token_events_account_id_created_at_idx ON token_events (account_id, created_at);
+  CREATE INDEX IF NOT EXISTS token_events_created_at_idx ON token_events (created_at);
+
+  CREATE TABLE IF NOT EXISTS token_leases (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    fencing_token INTEGER NOT NULL DEFAULT 1,
+    expires_at INTEGER NOT NULL,
+    acquired_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS api_consumers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    key_hash TEXT NOT NULL UNIQUE,
+    key_prefix TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    last_used_at INTEGER,
+    revoked_at INTEGER,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+interface TokenRow {
+  id: number;
+  account_id: string;
+  access_token: string;
+  refresh_token: string;
+  expires_at: number | null;
+  scope: string | null;
+  updated_at: number;
+}
+
+interface EventRow {
+  id: number;
+  account_id: string;
+  type: string;
+  source: string;
+  http_status: number | null;
+  message: string | null;
+  error_body: string | null;
+  refresh_token_fingerprint: string | null;
+  new_token_fingerprint: string | null;
+  expires_at: number | null;
+  created_at: number;
+}
+
+interface LeaseRow {
+  name: string;
+  holder: string;
+  fencing_token: number;
+  expires_at: number;
+}
+
+interface ConsumerRow {
+  id: number;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  enabled: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+const toDate = (value: number | null): Date | null => (value === null ? null : new Date(value));
+const toMillis = (value: Date | null | undefined): number | null => (value ? value.getTime() : null);
+
+function toToken(row: TokenRow): LightspeedToken {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    accessToken: row.access_token,
+    refreshToken: row.refresh_token,
+    expiresAt: toDate(row.expires_at),
+    scope: row.scope,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toEvent(row: EventRow): TokenEvent {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    type: row.type as TokenEventType,
+    source: row.source as TokenEventSource,
+    httpStatus: row.http_status,
+    message: row.message,
+    errorBody: row.error_body,
+    refreshTokenFingerprint: row.refresh_token_fingerprint,
+    newTokenFingerprint: row.new_token_fingerprint,
+    expiresAt: toDate(row.expires_at),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toLease(row: LeaseRow): Lease {
+  return {
+    name: row.name,
+    holder: row.holder,
+    fencingToken: row.fencing_token,
+    expiresAt: new Date(row.expires_at),
+  };
+}
+
+function toConsumer(row: ConsumerRow): ApiConsumer {
+  return {
+    id: row.id,
+    name: row.name,
+    keyHash: row.key_hash,
+    keyPrefix: row.key_prefix,
+    enabled: row.enabled === 1,
+    lastUsedAt: toDate(row.last_used_at),
+    revokedAt: toDate(row.revoked_at),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * SQLite storage for single-host deployments. Safe to share between the server
+ * and CLI processes on the same machine.
+ */
+export class SqliteTokenStore implements TokenStore {
+  readonly name = "sqlite";
+  private readonly db: Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec("PRAGMA busy_timeout = 5000;");
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  /**
+   * Add columns introduced after a database file was created
+   */
+  private migrate(): void {
+    const tokenColumns = this.db
+      .query<{ name: string }, []>("PRAGMA table_info(lightspeed_tokens)")
+      .all()
+      .map((column) => column.name);
+
+    if (!tokenColumns.includes("scope")) {
+      this.db.exec("ALTER TABLE lightspeed_tokens ADD COLUMN scope TEXT");
+    }
+  }
+
+  // Tokens
+
+  async getLatestTokens(accountId: string): Promise<LightspeedToken | null> {
+    const row = this.db
+      .query<TokenRow, [string]>(
+        "SELECT * FROM lightspeed_tokens WHERE account_id = ? ORDER BY updated_at DESC LIMIT 1"
+      )
+      .get(accountId);
+
+    return row ? toToken(row) : null;
+  }
+
+  async listAccounts(): Promise<string[]> {
+    return this.db
+      .query<{ account_id: string }, []>(
+        "SELECT account_id FROM lightspeed_tokens ORDER BY account_id ASC"
+      )
+      .all()
+      .map((row) => row.account_id);
+  }
+
+  async insertTokens(record: NewTokenRecord): Promise<LightspeedToken> {
+    const row = this.db
+      .query<TokenRow, [string, string, string, number | null, string | null, number]>(
+        `INSERT INTO lightspeed_tokens (account_id, access_token, refresh_token, expires_at, scope, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?) RETURNING *`
+      )
+      .get(
+        record.accountId,
+        record.accessToken,
+        record.refreshToken,
+        toMillis(record.expiresAt),
+        record.scope,
+        record.updatedAt.getTime()
+      );
+
+    return toToken(row!);
+  }
+
+  async updateTokens(id: number, update: TokenRecordUpdate, fence?: Lease): Promise<LightspeedToken> {
+    // The fence is checked in the same statement, so a takeover cannot slip in between
+    const row = this.db
+      .query<
+        TokenRow,
+        [
+          string | null,
+          string | null,
+          number,
+          number | null,
+          number,
+          string | null,
+          number | null,
+          number,
+          number,
+          string | null,
+          string | null,
+          number | null,
+        ]
+      >(
+        `UPDATE lightspeed_tokens SET
+           access_token = COALESCE(?, access_token),
+           refresh_token = COALESCE(?, refresh_token),
+           expires_at = CASE WHEN ? = 1 THEN ? ELSE expires_at END,
+           scope = CASE WHEN ? = 1 THEN ? ELSE scope END,
+           updated_at = COALESCE(?, updated_at)
+         WHERE id = ?
+           AND (? = 0 OR EXISTS (
+             SELECT 1 FROM token_leases WHERE name = ? AND holder = ? AND fencing_token = ?
+           ))
+         RETURNING *`
+      )
+      .get(
+        update.accessToken ?? null,
+        update.refreshToken ?? null,
+        update.expiresAt !== undefined ? 1 : 0,
+        toMillis(update.expiresAt),
+        update.scope !== undefined ? 1 : 0,
+        update.scope ?? null,
+        toMillis(update.updatedAt),
+        id,
+        fence ? 1 : 0,
+        fence?.name ?? null,
+        fence?.holder ?? null,
+        fence?.fencingToken ?? null
+      );
+
+    if (!row) {
+      const exists = this.db.query("SELECT 1 FROM lightspeed_tokens WHERE id = ?").get(id);
+      if (exists && fence) {
+        throw new StaleLeaseError(fence);
+      }
+      throw new Error(`Token record ${id} not found`);
+    }
+
+    return toToken(row);
+  }
+
+  async deleteTokens(accountId?: string): Promise<number> {
+    const result = accountId
+      ? this.db.query("DELETE FROM lightspeed_tokens WHERE account_id = ?").run(accountId)
+      : this.db.query("DELETE FROM lightspeed_tokens").run();
+
+    return result.changes;
+  }
+
+  async rewriteTokens(rewrite: TokenRewrite): Promise<number> {
+    const rows = this.db.query<TokenRow, []>("SELECT * FROM lightspeed_tokens").all();
+
+    // Rewrites are async, SQLite transactions are not: compute first, then apply
+    // atomically, refusing to overwrite any record that changed in the meantime
+    const replacements: [TokenRow, Pick<LightspeedToken, "accessToken" | "refreshToken">][] = [];
+    for (const row of rows) {
+      const replacement = await rewrite(toToken(row));
+      if (replacement) {
+        replacements.push([row, replacement]);
+      }
+    }
+
+    const update = this.db.query(
+      `UPDATE lightspeed_tokens SET access_token = ?, refresh_token = ?
+       WHERE id = ? AND access_token = ? AND refresh_token = ?`
+    );
+
+    this.db.transaction(() => {
+      for (const [row, replacement] of replacements) {
+        const result = update.run(
+          replacement.accessToken,
+          replacement.refreshToken,
+          row.id,
+          row.access_token,
+          row.refresh_token
+        );
+        if (result.changes !== 1) {
+          throw new Error(`Token record ${row.id} changed during rewrite - try again`);
+        }
+      }
+    })();
+
+    return replacements.length;
+  }
+
+  // History
+
+  async recordEvent(event: NewTokenEvent): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO token_events (account_id, type, source, http_status, message, error_body,
+           refresh_token_fingerprint, new_token_fingerprint, expires_at, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.accountId,
+        event.type,
+        event.source,
+        event.httpStatus ?? null,
+        event.message ?? null,
+        event.errorBody ?? null,
+        event.refreshTokenFingerprint ?? null,
+        event.newTokenFingerprint ?? null,
+        toMillis(event.expiresAt),
+        Date.now()
+      );
+  }
+
+  async listEvents(filters: TokenEventFilters): Promise<TokenEvent[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filters.accountId) {
+      conditions.push("account_id = ?");
+      params.push(filters.accountId);
+    }
+    if (filters.type) {
+      conditions.push("type = ?");
+      params.push(filters.type);
+    }
+    if (filters.source) {
+      conditions.push("source = ?");
+      params.push(filters.source);
+    }
+    if (filters.since) {
+      conditions.push("created_at >= ?");
+      params.push(filters.since.getTime());
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = filters.limit ? `LIMIT ${Math.floor(filters.limit)}` : "";
+
+    return this.db
+      .query<EventRow, (string | number)[]>(
+        `SELECT * FROM token_events ${where} ORDER BY created_at DESC, id DESC ${limit}`
+      )
+      .all(...params)
+      .map(toEvent);
+  }
+
+  async pruneEvents(olderThan: Date): Promise<number> {
+    return this.db
+      .query("DELETE FROM token_events WHERE created_at < ?")
+      .run(olderThan.getTime()).changes;
+  }
+
+  // Leases
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease | null> {
+    const now = Date.now();
+    const row = this.db
+      .query<LeaseRow, [string, string, number, number, number]>(
+        `INSERT INTO token_leases (name, holder, fencing_token, expires_at, acquired_at)
+         VALUES (?, ?, 1, ?, ?)
+         ON CONFLICT (name) DO UPDATE
+           SET holder = excluded.holder,
+               fencing_token = token_leases.fencing_token + 1,
+               expires_at = excluded.expires_at,
+               acquired_at = excluded.acquired_at
+           WHERE token_leases.expires_at <= ?
+         RETURNING name, holder, fencing_token, expires_at`
+      )
+      .get(name, holder, now + ttlMs, now, now);
+
+    return row ? toLease(row) : null;
+  }
+
+  async renewLease(lease: Lease, ttlMs: number): Promise<Lease | null> {
+    const row = this.db
+      .query<LeaseRow, [number, string, string, number]>(
+        `UPDATE token_leases SET expires_at = ?
+         WHERE name = ? AND holder = ? AND fencing_token = ?
+         RETURNING name, holder, fencing_token, expires_at`
+      )
+      .get(Date.now() + ttlMs, lease.name, lease.holder, lease.fencingToken);
+
+    return row ? toLease(row) : null;
+  }
+
+  async releaseLease(lease: Lease): Promise<void> {
+    this.db
+      .query(
+        `UPDATE token_leases SET expires_at = ?
+         WHERE name = ? AND holder = ? AND fencing_token = ?`
+      )
+      .run(Date.now(), lease.name, lease.holder, lease.fencingToken);
+  }
+
+  async isLeaseHeld(name: string): Promise<boolean> {
+    const row = this.db
+      .query<{ expires_at: number }, [string]>(
+        "SELECT expires_at FROM token_leases WHERE name = ?"
+      )
+      .get(name);
+
+    return !!row && row.expires_at > Date.now();
+  }
+
+  // Consumers
+
+  async getConsumer(name: string): Promise<ApiConsumer | null> {
+    const row = this.db
+      .query<ConsumerRow, [string]>("SELECT * FROM api_consumers WHERE name = ?")
+      .get(name);
+    return row ? toConsumer(row) : null;
+  }
+
+  async getConsumerByKeyHash(keyHash: string): Promise<ApiConsumer | null> {
+    const row = this.db
+      .query<ConsumerRow, [string]>("SELECT * FROM api_consumers WHERE key_hash = ?")
+      .get(keyHash);
+    return row ? toConsumer(row) : null;
+  }
+
+  async listConsumers(): Promise<ApiConsumer[]> {
+    return this.db
+      .query<ConsumerRow, []>("SELECT * FROM api_consumers ORDER BY name ASC")
+      .all()
+      .map(toConsumer);
+  }
+
+  async createConsumer(consumer: NewApiConsumer): Promise<ApiConsumer> {
+    const now = Date.now();
+    const row = this.db
+      .query<ConsumerRow, [string, string, string, number, number]>(
+        `INSERT INTO api_consumers (name, key_hash, key_prefix, enabled, created_at, updated_at)
+         VALUES (?, ?, ?, 1, ?, ?) RETURNING *`
+      )
+      .get(consumer.name, consumer.keyHash, consumer.keyPrefix, now, now);
+
+    return toConsumer(row!);
+  }
+
+  async updateConsumer(id: number, update: ApiConsumerUpdate): Promise<ApiConsumer> {
+    const existing = this.db
+      .query<ConsumerRow, [number]>("SELECT * FROM api_consumers WHERE id = ?")
+      .get(id);
+
+    if (!existing) {
+      throw new Error(`Consumer ${id} not found`);
+    }
+
+    const merged = { ...toConsumer(existing), ...update, updatedAt: new Date() };
+    const row = this.db
+      .query<ConsumerRow, [string, string, string, number, number | null, number | null, number, number]>(
+        `UPDATE api_consumers SET name = ?, key_hash = ?, key_prefix = ?, enabled = ?,
+           last_used_at = ?, revoked_at = ?, updated_at = ?
+         WHERE id = ? RETURNING *`
+      )
+      .get(
+        merged.name,
+        merged.keyHash,
+        merged.keyPrefix,
+        merged.enabled ? 1 : 0,
+        toMillis(merged.lastUsedAt),
+        toMillis(merged.revokedAt),
+        merged.updatedAt.getTime(),
+        id
+      );
+
+    return toConsumer(row!);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
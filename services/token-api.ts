@@ -0,0 +1,414 @@
+import type { Server } from "bun";
+import crypto from "crypto";
+import {
+  DEFAULT_ACCOUNT_ID,
+  InvalidClientError,
+  InvalidGrantError,
+  InsufficientScopeError,
+  LightspeedTokenService,
+  RefreshInProgressError,
+  type ValidAccessToken,
+} from "./token-service";
+import { ConsumerService, type ApiConsumer } from "./consumer-service";
+import { LightspeedProxy } from "./lightspeed-proxy";
+import { HealthService } from "./health-service";
+import { OAuthLoginFlow, renderCallbackPage } from "./oauth-callback";
+import { metrics, registry } from "./metrics";
+import { parseScopes } from "./scopes";
+import { getConfig } from "./config";
+import { systemClock, type Clock } from "./clock";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "token-api" });
+
+const PROXY_PREFIX = "/proxy";
+
+// Sent to GET /v1/token with an access token Lightspeed answered 401 to, so it is replaced
+const REJECTED_TOKEN_HEADER = "x-rejected-token";
+
+// Metric label for accounts with no stored tokens, so callers cannot mint label values
+const UNKNOWN_ACCOUNT_LABEL = "unknown";
+
+// JSON body returned by GET /v1/token
+export interface TokenResponseBody {
+  accountId: string;
+  accessToken: string;
+  tokenType: "Bearer";
+  expiresAt: string | null;
+  expiresIn: number; // seconds
+  scope: string | null; // Granted OAuth scope, null if unknown
+}
+
+// JSON body returned for any non-2xx response
+export interface ErrorResponseBody {
+  error: string;
+  message: string;
+}
+
+// JSON body returned when the token lacks a scope the caller requires
+export interface InsufficientScopeResponseBody extends ErrorResponseBody {
+  error: "insufficient_scope";
+  missingScopes: string[];
+  grantedScope: string | null;
+}
+
+export class TokenApi {
+  private tokenService: LightspeedTokenService;
+  private consumerService: ConsumerService;
+  private metricsToken: string | undefined;
+  private proxy: LightspeedProxy;
+  private health: HealthService;
+  private loginFlow: OAuthLoginFlow;
+  private callbackPath: string;
+  private clock: Clock;
+  private server: Server | null = null;
+
+  constructor(
+    tokenService: LightspeedTokenService,
+    consumerService: ConsumerService,
+    metricsToken: string | undefined = getConfig().metrics.token ?? undefined,
+    proxy: LightspeedProxy = new LightspeedProxy(tokenService),
+    health: HealthService = new HealthService(tokenService),
+    loginFlow: OAuthLoginFlow = new OAuthLoginFlow(tokenService, { source: "api" }),
+    clock: Clock = systemClock
+  ) {
+    this.tokenService = tokenService;
+    this.consumerService = consumerService;
+    this.metricsToken = metricsToken || undefined;
+    this.proxy = proxy;
+    this.health = health;
+    this.loginFlow = loginFlow;
+    this.callbackPath = new URL(getConfig().lightspeed.redirectUri).pathname;
+    this.clock = clock;
+  }
+
+  /**
+   * Start listening for HTTP requests
+   */
+  start(port: number, hostname: string = "0.0.0.0"): void {
+    if (this.server) {
+      log.warn("⚠️  Token API is already running");
+      return;
+    }
+
+    this.server = Bun.serve({
+      port,
+      hostname,
+      fetch: (request) => this.handleRequest(request),
+    });
+
+    log.info(`🌐 Token API listening on http://${hostname}:${this.server.port}`, {
+      hostname,
+      port: this.server.port,
+    });
+  }
+
+  /**
+   * Stop the HTTP server
+   */
+  stop(): void {
+    if (this.server) {
+      this.server.stop();
+      this.server = null;
+      log.info("🛑 Token API stopped");
+    }
+  }
+
+  /**
+   * Route an incoming request to its handler
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      // Scraped by Prometheus, which has no consumer API key
+      if (url.pathname === "/metrics") {
+        if (request.method !== "GET") {
+          return this.error(405, "method_not_allowed", `${request.method} is not supported on ${url.pathname}`);
+        }
+        return await this.handleMetrics(request);
+      }
+
+      // Probed by orchestrators, which have no consumer API key
+      if (url.pathname === "/healthz" || url.pathname === "/readyz") {
+        if (request.method !== "GET" && request.method !== "HEAD") {
+          return this.error(405, "method_not_allowed", `${request.method} is not supported on ${url.pathname}`);
+        }
+        const report =
+          url.pathname === "/healthz" ? this.health.liveness() : await this.health.readiness();
+        return this.json(report.status === "ok" ? 200 : 503, report);
+      }
+
+      // Lightspeed redirects the browser here after a login begun with the CLI;
+      // the single-use state stands in for an API key
+      if (url.pathname === this.callbackPath) {
+        if (request.method !== "GET") {
+          return this.error(405, "method_not_allowed", `${request.method} is not supported on ${url.pathname}`);
+        }
+        return renderCallbackPage(await this.loginFlow.handleCallback(url));
+      }
+
+      const auth = await this.authenticate(request);
+      if (auth instanceof Response) {
+        return auth;
+      }
+
+      if (url.pathname === "/v1/token") {
+        if (request.method !== "GET") {
+          return this.error(405, "method_not_allowed", `${request.method} is not supported on ${url.pathname}`);
+        }
+        const accountId = url.searchParams.get("account")?.trim() || DEFAULT_ACCOUNT_ID;
+        const response = await this.handleGetToken(
+          accountId,
+          parseScopes(url.searchParams.get("scope")),
+          request.headers.get(REJECTED_TOKEN_HEADER)?.trim() || null
+        );
+        metrics.tokenFetches.inc({
+          consumer: auth.name,
+          account: await this.accountLabel(accountId, response),
+          status: String(response.status),
+        });
+        return response;
+      }
+
+      if (url.pathname.startsWith(`${PROXY_PREFIX}/`)) {
+        const query = new URLSearchParams(url.search);
+        const accountId = query.get("account")?.trim() || DEFAULT_ACCOUNT_ID;
+        query.delete("account"); // Selects our stored tokens, not meant for Lightspeed
+        const response = await this.handleProxy(
+          request,
+          url.pathname.slice(PROXY_PREFIX.length),
+          query,
+          accountId
+        );
+        metrics.proxyRequests.inc({
+          consumer: auth.name,
+          account: await this.accountLabel(accountId, response),
+          status: String(response.status),
+        });
+        return response;
+      }
+
+      return this.error(404, "not_found", `No route for ${url.pathname}`);
+    } catch (error) {
+      log.error(`❌ Token API error on ${request.method} ${url.pathname}`, {
+        method: request.method,
+        path: url.pathname,
+        error,
+      });
+      return this.error(500, "internal_error", "Unexpected error while handling the request");
+    }
+  }
+
+  /**
+   * GET /v1/token?account=<id>&scope=<required scopes>: return a valid access token,
+   * refreshing on demand. Answers 403 when the token lacks a required scope.
+   * With X-Rejected-Token, that token is refreshed unless it has already been replaced.
+   */
+  private async handleGetToken(
+    accountId: string,
+    requiredScopes: string[],
+    rejectedToken: string | null
+  ): Promise<Response> {
+    const stored = await this.tokenService.getLatestTokens(accountId);
+
+    if (!stored) {
+      return this.error(404, "no_tokens", `No tokens configured for account "${accountId}". Run the login or set command first`);
+    }
+
+    let token: ValidAccessToken | null;
+    try {
+      if (rejectedToken && !(await this.tokenService.refreshRejectedToken(accountId, rejectedToken))) {
+        return this.error(503, "refresh_failed", "Lightspeed rejected the token and the refresh failed");
+      }
+      token = await this.tokenService.getValidToken(accountId, requiredScopes);
+    } catch (error) {
+      if (error instanceof InsufficientScopeError) {
+        const body: InsufficientScopeResponseBody = {
+          error: "insufficient_scope",
+          message: `${error.message}. Run: bun run tokens login --account ${accountId} --add-scope "${error.missingScopes.join(" ")}"`,
+          missingScopes: error.missingScopes,
+          grantedScope: error.grantedScope,
+        };
+        return this.json(403, body);
+      }
+      return this.refreshErrorResponse(error, accountId);
+    }
+
+    if (!token) {
+      return this.error(503, "refresh_failed", "Tokens need refresh and the refresh failed");
+    }
+
+    const expiresIn = token.expiresAt
+      ? Math.max(0, Math.floor((token.expiresAt.getTime() - this.clock.now().getTime()) / 1000))
+      : 0;
+
+    const body: TokenResponseBody = {
+      accountId,
+      accessToken: token.accessToken,
+      tokenType: "Bearer",
+      expiresAt: token.expiresAt ? token.expiresAt.toISOString() : null,
+      expiresIn,
+      scope: token.scope,
+    };
+
+    return this.json(200, body);
+  }
+
+  /**
+   * /proxy/API/...?account=<id>: forward to the Lightspeed Retail API with the
+   * account's access token, refreshing and retrying once if Lightspeed answers 401
+   */
+  private async handleProxy(
+    request: Request,
+    path: string,
+    query: URLSearchParams,
+    accountId: string
+  ): Promise<Response> {
+    if (!this.proxy.isAllowedPath(path)) {
+      return this.error(404, "not_found", `Only Lightspeed API paths can be proxied (${PROXY_PREFIX}/API/...)`);
+    }
+
+    if (!(await this.tokenService.getLatestTokens(accountId))) {
+      return this.error(404, "no_tokens", `No tokens configured for account "${accountId}". Run the login or set command first`);
+    }
+
+    let response: Response | null;
+    try {
+      response = await this.proxy.forward(request, path, query, accountId);
+    } catch (error) {
+      if (error instanceof TypeError) {
+        log.error(`❌ Lightspeed API request failed for ${request.method} ${path}`, { accountId, error });
+        return this.error(502, "upstream_unreachable", "Could not reach the Lightspeed API");
+      }
+      return this.refreshErrorResponse(error, accountId);
+    }
+
+    return response ?? this.error(503, "refresh_failed", "Tokens need refresh and the refresh failed");
+  }
+
+  /**
+   * Map a rejected refresh to the response telling the caller what to fix; rethrows anything else
+   */
+  private refreshErrorResponse(error: unknown, accountId: string): Response {
+    if (error instanceof InvalidGrantError) {
+      return this.error(503, "reauth_required", `Lightspeed rejected the refresh token for account "${accountId}". Run the login command again`);
+    }
+    if (error instanceof InvalidClientError) {
+      return this.error(503, "invalid_client", "Lightspeed rejected the service's client credentials");
+    }
+    if (error instanceof RefreshInProgressError) {
+      return this.error(503, "refresh_in_progress", `Another process is refreshing the tokens for account "${accountId}". Try again shortly`);
+    }
+    throw error;
+  }
+
+  /**
+   * Account to label a request's metrics with. Only a 404 can come back for an
+   * account without tokens; anything else means its tokens were found.
+   */
+  private async accountLabel(accountId: string, response: Response): Promise<string> {
+    if (response.status !== 404) {
+      return accountId;
+    }
+    return (await this.tokenService.listAccounts()).includes(accountId)
+      ? accountId
+      : UNKNOWN_ACCOUNT_LABEL;
+  }
+
+  /**
+   * GET /metrics: Prometheus metrics, behind METRICS_TOKEN when it is set
+   */
+  private async handleMetrics(request: Request): Promise<Response> {
+    if (this.metricsToken && !this.isMetricsToken(this.extractApiKey(request))) {
+      return this.error(401, "unauthorized", "Metrics token required (Authorization: Bearer <METRICS_TOKEN>)");
+    }
+
+    await this.updateTokenExpiryMetrics();
+
+    return new Response(registry.render(), {
+      headers: {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  /**
+   * Expiry gauges are read from the store on each scrape so they never go stale
+   */
+  private async updateTokenExpiryMetrics(): Promise<void> {
+    metrics.tokenExpiryTimestamp.reset();
+    metrics.tokenSecondsUntilExpiry.reset();
+
+    for (const accountId of await this.tokenService.listAccounts()) {
+      const tokens = await this.tokenService.getLatestTokens(accountId);
+      if (!tokens?.expiresAt) {
+        continue;
+      }
+
+      const expiresAt = tokens.expiresAt.getTime();
+      metrics.tokenExpiryTimestamp.set({ account: accountId }, Math.floor(expiresAt / 1000));
+      metrics.tokenSecondsUntilExpiry.set(
+        { account: accountId },
+        Math.floor((expiresAt - this.clock.now().getTime()) / 1000)
+      );
+    }
+  }
+
+  private isMetricsToken(candidate: string | null): boolean {
+    if (!candidate || !this.metricsToken) {
+      return false;
+    }
+    // Compare digests so the check takes the same time whatever the input
+    const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+    return crypto.timingSafeEqual(digest(candidate), digest(this.metricsToken));
+  }
+
+  /**
+   * Resolve the consumer presenting the request's API key, or an error response
+   */
+  private async authenticate(request: Request): Promise<ApiConsumer | Response> {
+    const apiKey = this.extractApiKey(request);
+
+    if (!apiKey) {
+      return this.error(401, "unauthorized", "API key required (Authorization: Bearer <key> or X-API-Key header)");
+    }
+
+    const consumer = await this.consumerService.authenticate(apiKey);
+
+    if (!consumer) {
+      return this.error(401, "unauthorized", "Invalid API key");
+    }
+
+    if (!consumer.enabled) {
+      return this.error(403, "forbidden", "API key has been revoked");
+    }
+
+    return consumer;
+  }
+
+  private extractApiKey(request: Request): string | null {
+    const authorization = request.headers.get("authorization");
+    if (authorization?.toLowerCase().startsWith("bearer ")) {
+      return authorization.slice("bearer ".length).trim() || null;
+    }
+
+    return request.headers.get("x-api-key")?.trim() || null;
+  }
+
+  private json(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  private error(status: number, error: string, message: string): Response {
+    const body: ErrorResponseBody = { error, message };
+    return this.json(status, body);
+  }
+}
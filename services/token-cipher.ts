@@ -0,0 +1,193 @@
+import crypto from "crypto";
+import { getConfig } from "./config";
+import { DecryptionError, Keyring, type KeyringSettings } from "./encryption";
+import {
+  KeyringProvider,
+  createEncryptionProvider,
+  createEnvKeyProvider,
+  type EncryptionConfig,
+  type EncryptionProvider,
+} from "./encryption-providers";
+
+const ENVELOPE_VERSION = "v3";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const DATA_KEY_BYTES = 32;
+const MAX_CACHED_DATA_KEYS = 100;
+
+/**
+ * Envelope encryption for stored tokens: every value gets its own random data key,
+ * which is wrapped by the configured provider's master key and stored alongside it.
+ *
+ * Format: `v3:<provider>:<wrappedKey base64url>:<ivHex>:<authTagHex>:<ciphertextHex>`.
+ * Values written directly with a keyring (v2, v1, legacy) remain readable.
+ */
+export class TokenCipher {
+  readonly provider: EncryptionProvider;
+  private readonly keySettings: KeyringSettings; // env provider keys, for values written before a switch
+  private readonly fallbackProviders = new Map<string, EncryptionProvider>();
+  private readonly dataKeyCache = new Map<string, Buffer>();
+  private legacyKeyring: Keyring | null = null;
+
+  constructor(provider: EncryptionProvider, keySettings: KeyringSettings = getConfig().encryption) {
+    this.provider = provider;
+    this.keySettings = keySettings;
+  }
+
+  /**
+   * Cipher using the provider selected by TOKEN_ENCRYPTION_PROVIDER
+   */
+  static fromConfig(config: EncryptionConfig = getConfig().encryption): TokenCipher {
+    return new TokenCipher(createEncryptionProvider(config), config);
+  }
+
+  /**
+   * Encrypt a string value under a fresh data key
+   */
+  async encrypt(text: string): Promise<string> {
+    const dataKey = crypto.randomBytes(DATA_KEY_BYTES);
+    const wrappedKey = Buffer.from(
+      await this.provider.wrapKey(dataKey),
+      "utf8"
+    ).toString("base64url");
+    const header = [ENVELOPE_VERSION, this.provider.name, wrappedKey].join(":");
+
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
+    cipher.setAAD(Buffer.from(header, "utf8"));
+
+    let encrypted = cipher.update(text, "utf8", "hex");
+    encrypted += cipher.final("hex");
+
+    return [header, iv.toString("hex"), cipher.getAuthTag().toString("hex"), encrypted].join(":");
+  }
+
+  /**
+   * Decrypt a value written by any supported format
+   */
+  async decrypt(encryptedText: string): Promise<string> {
+    const parts = encryptedText.split(":");
+
+    if (parts.length !== 6 || parts[0] !== ENVELOPE_VERSION) {
+      return this.getLegacyKeyring().decrypt(encryptedText);
+    }
+
+    const [version, providerName, wrappedKey, ivHex, authTagHex, encrypted] = parts;
+    const provider = this.providerFor(providerName);
+    const dataKey = await this.unwrapDataKey(provider, wrappedKey);
+
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, Buffer.from(ivHex, "hex"));
+      decipher.setAAD(Buffer.from([version, providerName, wrappedKey].join(":"), "utf8"));
+      decipher.setAuthTag(Buffer.from(authTagHex, "hex"));
+
+      let decrypted = decipher.update(encrypted, "hex", "utf8");
+      decrypted += decipher.final("utf8");
+
+      return decrypted;
+    } catch {
+      throw new DecryptionError("Failed to decrypt envelope value - tampered data");
+    }
+  }
+
+  /**
+   * Whether a value predates envelope encryption
+   */
+  isLegacyFormat(encryptedText: string): boolean {
+    return !encryptedText.startsWith(`${ENVELOPE_VERSION}:`);
+  }
+
+  /**
+   * Whether a value should be rewritten with the current provider and master key
+   */
+  needsReencryption(encryptedText: string): boolean {
+    if (this.isLegacyFormat(encryptedText)) {
+      return true;
+    }
+
+    const [, providerName, wrappedKey] = encryptedText.split(":");
+    if (providerName !== this.provider.name) {
+      return true;
+    }
+
+    return this.provider.needsRewrap(Buffer.from(wrappedKey, "base64url").toString("utf8"));
+  }
+
+  /**
+   * Describe the active provider for status output
+   */
+  describe(): string {
+    if (this.provider instanceof KeyringProvider) {
+      return `${this.provider.name} (primary key: ${this.provider.keyring.primaryKeyId})`;
+    }
+    return this.provider.name;
+  }
+
+  private providerFor(name: string): EncryptionProvider {
+    if (name === this.provider.name) {
+      return this.provider;
+    }
+
+    // Values written under the env provider stay readable after switching providers
+    if (name === "env" && Keyring.isConfigured(this.keySettings)) {
+      if (!this.fallbackProviders.has(name)) {
+        this.fallbackProviders.set(name, createEnvKeyProvider(this.keySettings));
+      }
+      return this.fallbackProviders.get(name)!;
+    }
+
+    throw new DecryptionError(
+      `Value was encrypted with the "${name}" provider but "${this.provider.name}" is configured`
+    );
+  }
+
+  private async unwrapDataKey(provider: EncryptionProvider, wrappedKey: string): Promise<Buffer> {
+    const cacheKey = `${provider.name}:${wrappedKey}`;
+    const cached = this.dataKeyCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let dataKey: Buffer;
+    try {
+      dataKey = await provider.unwrapKey(Buffer.from(wrappedKey, "base64url").toString("utf8"));
+    } catch (error) {
+      if (error instanceof DecryptionError) {
+        throw error;
+      }
+      throw new DecryptionError(
+        `Failed to unwrap data key with the "${provider.name}" provider: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    // Unwrapping may be a network call, so keep a bounded set of recent keys
+    if (this.dataKeyCache.size >= MAX_CACHED_DATA_KEYS) {
+      this.dataKeyCache.delete(this.dataKeyCache.keys().next().value!);
+    }
+    this.dataKeyCache.set(cacheKey, dataKey);
+
+    return dataKey;
+  }
+
+  /**
+   * Keyring for values written before envelope encryption
+   */
+  private getLegacyKeyring(): Keyring {
+    if (!this.legacyKeyring) {
+      if (this.provider instanceof KeyringProvider && this.provider.name === "env") {
+        this.legacyKeyring = this.provider.keyring;
+      } else if (Keyring.isConfigured(this.keySettings)) {
+        this.legacyKeyring = Keyring.fromSettings(this.keySettings);
+      } else if (this.provider instanceof KeyringProvider) {
+        this.legacyKeyring = this.provider.keyring;
+      } else {
+        throw new DecryptionError(
+          "Value predates envelope encryption - set TOKEN_ENCRYPTION_KEY to read it"
+        );
+      }
+    }
+    return this.legacyKeyring;
+  }
+}
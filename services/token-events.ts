@@ -0,0 +1,193 @@
+import { getDefaultTokenStore, type TokenStore } from "./token-store";
+import crypto from "crypto";
+import { logger } from "./logger";
+
+export type TokenEventType =
+  | "login"
+  | "login_failure"
+  | "manual_set"
+  | "refresh_attempt"
+  | "refresh_success"
+  | "refresh_failure"
+  | "clear";
+
+// What triggered the event
+export type TokenEventSource = "scheduler" | "cli" | "on_demand" | "api";
+
+export interface TokenEvent {
+  id: number;
+  accountId: string;
+  type: TokenEventType;
+  source: TokenEventSource;
+  httpStatus: number | null;
+  message: string | null;
+  errorBody: string | null;
+  refreshTokenFingerprint: string | null;
+  newTokenFingerprint: string | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+export type NewTokenEvent = Pick<TokenEvent, "accountId" | "type" | "source"> &
+  Partial<
+    Pick<
+      TokenEvent,
+      | "httpStatus"
+      | "message"
+      | "errorBody"
+      | "refreshTokenFingerprint"
+      | "newTokenFingerprint"
+      | "expiresAt"
+    >
+  >;
+
+export interface TokenEventFilters {
+  accountId?: string;
+  type?: TokenEventType;
+  source?: TokenEventSource;
+  since?: Date;
+  limit?: number;
+}
+
+// Account id recorded for events that affect every account (e.g. clearing all tokens)
+export const ALL_ACCOUNTS = "*";
+
+/**
+ * Short, irreversible identifier for a token so refresh chains can be traced
+ * without storing the token itself
+ */
+export function fingerprintToken(token: string): string {
+  return crypto.createHash("sha256").update(token, "utf8").digest("hex").substring(0, 12);
+}
+
+/**
+ * Strip token values and client secrets from text that is about to be stored
+ */
+export function redactSecrets(text: string, secrets: string[] = []): string {
+  let redacted = text.replace(
+    /("(?:access_token|refresh_token|client_secret|code)"\s*:\s*)"[^"]*"/g,
+    '$1"[REDACTED]"'
+  );
+
+  for (const secret of secrets) {
+    if (secret) {
+      redacted = redacted.split(secret).join("[REDACTED]");
+    }
+  }
+
+  return redacted;
+}
+
+export class TokenEventService {
+  private readonly MAX_ERROR_BODY_LENGTH = 2000;
+  private readonly store: TokenStore;
+
+  constructor(store: TokenStore = getDefaultTokenStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Record an event. Never throws: losing an audit row must not break a refresh.
+   */
+  async record(event: NewTokenEvent): Promise<void> {
+    try {
+      await this.store.recordEvent({
+        ...event,
+        errorBody: event.errorBody?.substring(0, this.MAX_ERROR_BODY_LENGTH),
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to record ${event.type} event for account "${event.accountId}"`, {
+        component: "token-events",
+        accountId: event.accountId,
+        error,
+      });
+    }
+  }
+
+  /**
+   * List events, newest first
+   */
+  async listEvents(filters: TokenEventFilters = {}): Promise<TokenEvent[]> {
+    return await this.store.listEvents({ ...filters, limit: filters.limit ?? 50 });
+  }
+
+  /**
+   * Delete events older than the given date. Returns the number removed.
+   */
+  async pruneEvents(olderThan: Date): Promise<number> {
+    return await this.store.pruneEvents(olderThan);
+  }
+
+  // CLI-focused methods that combine business logic with appropriate responses
+
+  /**
+   * CLI History: Format matching events for display
+   */
+  async cliHistory(filters: TokenEventFilters = {}): Promise<{
+    success: boolean;
+    message: string;
+    formatted?: string;
+  }> {
+    try {
+      const events = await this.listEvents(filters);
+
+      if (events.length === 0) {
+        return {
+          success: true,
+          message: "No events found",
+          formatted: "📭 No token events match the given filters",
+        };
+      }
+
+      const lines = [`📜 Token History (${events.length} most recent):`];
+      for (const event of events) {
+        const details = [
+          event.httpStatus ? `HTTP ${event.httpStatus}` : null,
+          event.refreshTokenFingerprint ? `rt:${event.refreshTokenFingerprint}` : null,
+          event.newTokenFingerprint ? `→ rt:${event.newTokenFingerprint}` : null,
+          event.message,
+        ].filter(Boolean);
+
+        lines.push(
+          `   ${event.createdAt.toISOString()}  ${event.accountId.padEnd(12)} ${event.type.padEnd(16)} ${event.source.padEnd(10)} ${details.join("  ")}`
+        );
+        if (event.errorBody) {
+          lines.push(`      ↳ ${event.errorBody}`);
+        }
+      }
+
+      return {
+        success: true,
+        message: `${events.length} event(s) found`,
+        formatted: lines.join("\n"),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to read token history: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * CLI Prune: Delete events older than the retention period
+   */
+  async cliPrune(olderThan: Date): Promise<{ success: boolean; message: string }> {
+    try {
+      const count = await this.pruneEvents(olderThan);
+      return {
+        success: true,
+        message: `Pruned ${count} event(s) older than ${olderThan.toISOString()}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to prune token history: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+}
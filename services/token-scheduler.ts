@@ -1,64 +1,142 @@
 import * as cron from "node-cron";
-import { LightspeedTokenService } from "./token-service";
+import {
+  InvalidClientError,
+  InvalidGrantError,
+  LightspeedTokenService,
+  type LightspeedToken,
+} from "./token-service";
+import { AlertService } from "./alert-service";
+import { systemClock, systemTimers, type Clock, type Timers } from "./clock";
+import { LeaderElection, type LeadershipStatus } from "./leader-election";
+import { metrics } from "./metrics";
+import { logger } from "./logger";
 
+const log = logger.child({ component: "scheduler" });
+
+type SchedulerTask = "refresh" | "health_check";
+
+const FAILED_REFRESH_RETRY_MS = 60 * 1000; // Wait before retrying a refresh that is still due after a check
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1; // Longest delay setTimeout supports; later refreshes re-arm
+
+// Dependencies that can be swapped out, e.g. in tests
+export interface TokenSchedulerOptions {
+  clock?: Clock; // Should match the token service's clock
+  timers?: Timers;
+  election?: LeaderElection; // Default: on the shared store, timed by the configuration
+}
+
+/**
+ * Refreshes each account's tokens when they become due: a timer is set for the
+ * moment the refresh policy says each token needs refreshing. A slower cron poll
+ * (REFRESH_CHECK_SCHEDULE) is kept as a safety net and picks up tokens changed by
+ * other processes, such as the CLI.
+ *
+ * With startAll() replicas sharing a store elect a leader, and only the leader
+ * runs these tasks; a follower takes over when the leader's lease expires.
+ */
 export class TokenScheduler {
   private tokenService: LightspeedTokenService;
+  private alerts: AlertService;
+  private readonly clock: Clock;
+  private readonly timers: Timers;
+  private readonly election: LeaderElection;
+  private stopFollowingElection: (() => void) | null = null;
   private refreshTask: cron.ScheduledTask | null = null;
   private healthCheckTask: cron.ScheduledTask | null = null;
-  private lastTokenCheckHadTokens: boolean = false;
+  // Timer set for each account's next refresh
+  private refreshTimers: Map<string, { handle: unknown; dueAt: Date }> = new Map();
+  private stopWatchingTokens: (() => void) | null = null;
+  private accountsWithTokens: Set<string> = new Set();
+  // Accounts whose refresh was rejected outright, keyed to the record that was rejected
+  private rejectedAccounts: Map<string, { updatedAt: number; reason: string }> = new Map();
+  // When each task last finished, whether run by cron or by hand
+  private lastRunAt: Record<SchedulerTask, Date | null> = { refresh: null, health_check: null };
 
-  constructor() {
-    this.tokenService = new LightspeedTokenService();
+  constructor(
+    tokenService: LightspeedTokenService = new LightspeedTokenService(),
+    alerts: AlertService = AlertService.fromConfig(),
+    options: TokenSchedulerOptions = {}
+  ) {
+    this.tokenService = tokenService;
+    this.alerts = alerts;
+    this.clock = options.clock ?? systemClock;
+    this.timers = options.timers ?? systemTimers;
+    this.election = options.election ?? LeaderElection.fromConfig();
   }
 
   /**
-   * Start the token refresh scheduler
-   * Runs every 5 minutes to check if tokens need refreshing
+   * Start the token refresh scheduler: check every account at once (catching up
+   * on refreshes that fell due while stopped), then refresh each one when it is due.
+   * The safety-net poll runs on the refresh policy's check schedule.
+   * Resolves once the catch-up check has finished.
    */
-  startRefreshScheduler(): void {
+  startRefreshScheduler(): Promise<void> {
     if (this.refreshTask) {
-      console.log("⚠️  Token refresh scheduler is already running");
-      return;
+      log.warn("⚠️  Token refresh scheduler is already running");
+      return Promise.resolve();
     }
 
-    // Run every 5 minutes
-    this.refreshTask = cron.schedule("*/5 * * * *", async () => {
-      await this.checkAndRefreshTokens();
+    const schedule = this.tokenService.refreshPolicy.refreshCheckSchedule;
+    this.refreshTask = cron.schedule(schedule, async () => {
+      if (await this.holdsLeadership()) {
+        await this.checkAndRefreshTokens();
+      }
     }, {
       scheduled: false // Don't start automatically
     });
 
     this.refreshTask.start();
-    console.log("🚀 Token refresh scheduler started (runs every 5 minutes)");
+    this.stopWatchingTokens = this.tokenService.onTokensChanged((accountId) => {
+      void (accountId ? this.scheduleRefresh(accountId) : this.rescheduleAll());
+    });
+    log.info(`🚀 Token refresh scheduler started (safety-net poll: ${schedule})`, { schedule });
+
+    return this.checkAndRefreshTokens();
   }
 
   /**
    * Start health check scheduler
-   * Runs every hour to log token status
+   * Logs token status on the refresh policy's health check schedule (default hourly)
    */
   startHealthCheckScheduler(): void {
     if (this.healthCheckTask) {
-      console.log("⚠️  Health check scheduler is already running");
+      log.warn("⚠️  Health check scheduler is already running");
       return;
     }
 
-    // Run every hour at minute 0
-    this.healthCheckTask = cron.schedule("0 * * * *", async () => {
-      await this.performHealthCheck();
+    const schedule = this.tokenService.refreshPolicy.healthCheckSchedule;
+    this.healthCheckTask = cron.schedule(schedule, async () => {
+      if (await this.holdsLeadership()) {
+        await this.performHealthCheck();
+      }
     }, {
       scheduled: false
     });
 
     this.healthCheckTask.start();
-    console.log("🏥 Health check scheduler started (runs every hour)");
+    log.info(`🏥 Health check scheduler started (schedule: ${schedule})`, { schedule });
   }
 
   /**
-   * Start both schedulers
+   * Join the leader election and run both schedulers while this replica leads
    */
   startAll(): void {
-    this.startRefreshScheduler();
-    this.startHealthCheckScheduler();
+    if (this.stopFollowingElection) {
+      log.warn("⚠️  Scheduler is already taking part in the leader election");
+      return;
+    }
+
+    this.stopFollowingElection = this.election.onRoleChange((role) => {
+      if (role === "leader") {
+        void this.startRefreshScheduler();
+        this.startHealthCheckScheduler();
+      } else {
+        this.stopRefreshScheduler();
+        this.stopHealthCheckScheduler();
+      }
+    });
+    log.info("🗳️  Joining the scheduler leader election - only the leader refreshes tokens on schedule");
+    void this.election.start();
   }
 
   /**
@@ -68,7 +146,12 @@ export class TokenScheduler {
     if (this.refreshTask) {
       this.refreshTask.stop();
       this.refreshTask = null;
-      console.log("🛑 Token refresh scheduler stopped");
+      this.stopWatchingTokens?.();
+      this.stopWatchingTokens = null;
+      for (const accountId of [...this.refreshTimers.keys()]) {
+        this.cancelRefresh(accountId);
+      }
+      log.info("🛑 Token refresh scheduler stopped");
     }
   }
 
@@ -79,66 +162,230 @@ export class TokenScheduler {
     if (this.healthCheckTask) {
       this.healthCheckTask.stop();
       this.healthCheckTask = null;
-      console.log("🛑 Health check scheduler stopped");
+      log.info("🛑 Health check scheduler stopped");
     }
   }
 
   /**
-   * Stop all schedulers
+   * Stop all schedulers and leave the leader election, handing over to a follower
    */
-  stopAll(): void {
+  async stopAll(): Promise<void> {
+    this.stopFollowingElection?.();
+    this.stopFollowingElection = null;
     this.stopRefreshScheduler();
     this.stopHealthCheckScheduler();
+    await this.election.stop();
   }
 
   /**
-   * Check if tokens need refresh and refresh them if necessary
+   * Confirm through the lease's fencing token that this replica still leads before
+   * scheduled work, so one that lost its lease (e.g. after a long pause) skips it
    */
-  private async checkAndRefreshTokens(): Promise<void> {
+  private async holdsLeadership(): Promise<boolean> {
+    if (!this.election.isRunning) {
+      return true; // Schedulers started directly, without an election
+    }
+    return await this.election.confirm();
+  }
+
+  /**
+   * Check every account's tokens and refresh those that need it
+   */
+  async checkAndRefreshTokens(): Promise<void> {
     try {
-      const tokens = await this.tokenService.getLatestTokens();
-      
-      if (!tokens) {
-        // Only show guidance periodically, not every 5 minutes
-        if (this.lastTokenCheckHadTokens) {
-          console.log("🔍 Tokens were removed - service is now waiting for new tokens");
-          console.log("💡 To reconfigure tokens, use: bun run tokens login <authorization_code>");
-          this.lastTokenCheckHadTokens = false;
+      const accounts = await this.tokenService.listAccounts();
+
+      // Only show guidance when tokens disappear, not on every check
+      for (const accountId of this.accountsWithTokens) {
+        if (!accounts.includes(accountId)) {
+          log.warn(
+            `🔍 Tokens for account "${accountId}" were removed - to reconfigure, use: bun run tokens login --account ${accountId}`,
+            { accountId }
+          );
+          this.accountsWithTokens.delete(accountId);
+          this.rejectedAccounts.delete(accountId);
+          this.cancelRefresh(accountId);
+          this.alerts.forget(accountId);
         }
+      }
+
+      // Refresh each account independently so one failure doesn't block the rest
+      for (const accountId of accounts) {
+        await this.checkAndRefreshAccount(accountId);
+      }
+    } catch (error) {
+      log.error("❌ Error during scheduled token refresh", { error });
+    } finally {
+      this.recordRun("refresh");
+    }
+  }
+
+  /**
+   * Check if one account's tokens need refresh and refresh them if necessary
+   */
+  private async checkAndRefreshAccount(accountId: string): Promise<void> {
+    try {
+      const tokens = await this.tokenService.getLatestTokens(accountId);
+
+      if (!tokens) {
         return;
       }
 
       // Detect when tokens are first configured
-      if (!this.lastTokenCheckHadTokens) {
-        console.log("🎉 Tokens detected! Automatic token management is now active");
-        this.lastTokenCheckHadTokens = true;
+      if (!this.accountsWithTokens.has(accountId)) {
+        log.info(`🎉 Tokens detected for account "${accountId}"! Automatic token management is now active`, { accountId });
+        this.accountsWithTokens.add(accountId);
+      }
+
+      // Don't retry a rejected refresh token every tick - wait for new tokens to be stored
+      const rejected = this.rejectedAccounts.get(accountId);
+      if (rejected?.updatedAt === tokens.updatedAt.getTime()) {
+        await this.alerts.reauthRequired(accountId, rejected.reason); // Repeated after the cooldown
+        return;
       }
+      this.rejectedAccounts.delete(accountId);
 
       if (this.tokenService.needsRefresh(tokens)) {
-        console.log("🔄 Tokens need refresh - attempting automatic refresh...");
+        log.info(`🔄 Tokens for account "${accountId}" need refresh - attempting automatic refresh...`, { accountId });
         
         const refreshedTokens = await this.tokenService.refreshTokens(
-          this.tokenService.decrypt(tokens.refreshToken)
+          await this.tokenService.decrypt(tokens.refreshToken),
+          accountId,
+          "scheduler"
         );
         
         if (refreshedTokens) {
-          console.log("✅ Tokens automatically refreshed successfully");
-          
-          // Log new expiry time
-          const status = await this.tokenService.getTokenStatus();
-          if (status) {
-            console.log(`📅 New expiry: ${status.expiresAt?.toISOString()}`);
-            console.log(`⏱️  Expires in: ${status.expiresIn} minutes`);
-          }
+          const status = await this.tokenService.getTokenStatus(accountId);
+          log.info(`✅ Tokens for account "${accountId}" automatically refreshed successfully`, {
+            accountId,
+            expiresAt: status?.expiresAt,
+            expiresInMinutes: status?.expiresIn,
+          });
+          await this.alerts.resolve(accountId);
         } else {
-          console.error("❌ Automatic token refresh failed");
-          console.log("🚨 Manual intervention may be required");
+          log.error(`❌ Automatic token refresh failed for account "${accountId}" - manual intervention may be required`, {
+            accountId,
+          });
+          await this.alerts.refreshFailed(accountId, "Automatic refresh failed after retrying");
+          await this.checkExpiry(accountId);
         }
       } else {
-        console.log("✅ Tokens are still valid - no refresh needed");
+        log.info(`✅ Tokens for account "${accountId}" are still valid - no refresh needed`, { accountId });
+        await this.alerts.resolve(accountId);
       }
     } catch (error) {
-      console.error("❌ Error during scheduled token refresh:", error);
+      if (error instanceof InvalidGrantError || error instanceof InvalidClientError) {
+        const tokens = await this.tokenService.getLatestTokens(accountId).catch(() => null);
+        if (tokens) {
+          this.rejectedAccounts.set(accountId, {
+            updatedAt: tokens.updatedAt.getTime(),
+            reason: error.message,
+          });
+        }
+
+        log.error(`❌ ${error.message} for account "${accountId}" - automatic refresh paused`, {
+          accountId,
+          action:
+            error instanceof InvalidGrantError
+              ? `bun run tokens login --account ${accountId}`
+              : "check LIGHTSPEED_CLIENT_ID and LIGHTSPEED_CLIENT_SECRET, then log in again",
+        });
+        await this.alerts.reauthRequired(accountId, error.message);
+        return;
+      }
+
+      log.error(`❌ Error during scheduled token refresh for account "${accountId}"`, { accountId, error });
+      await this.alerts.refreshFailed(
+        accountId,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    } finally {
+      await this.scheduleRefresh(accountId, FAILED_REFRESH_RETRY_MS);
+    }
+  }
+
+  /**
+   * Set a timer for when an account's tokens are next due for refresh, replacing
+   * any earlier one. Tokens already due are refreshed after `minDelayMs`. No timer
+   * is set while the scheduler is stopped, or for tokens whose refresh was rejected.
+   */
+  private async scheduleRefresh(accountId: string, minDelayMs = 0): Promise<void> {
+    if (!this.refreshTask) {
+      return;
+    }
+
+    let tokens: LightspeedToken | null;
+    try {
+      tokens = await this.tokenService.getLatestTokens(accountId);
+    } catch (error) {
+      log.warn(`⚠️  Could not schedule the next refresh for account "${accountId}" - the poll will retry`, {
+        accountId,
+        error,
+      });
+      return;
+    }
+
+    // Cancel only now, so overlapping calls leave exactly one timer
+    this.cancelRefresh(accountId);
+    if (!this.refreshTask || !tokens) {
+      return;
+    }
+    if (this.rejectedAccounts.get(accountId)?.updatedAt === tokens.updatedAt.getTime()) {
+      return; // Waits for new tokens, which reschedule through onTokensChanged or the poll
+    }
+
+    const now = this.clock.now().getTime();
+    const dueAt = this.tokenService.refreshDueAt(tokens)?.getTime() ?? now;
+    const delayMs = Math.min(Math.max(dueAt - now, minDelayMs), MAX_TIMER_DELAY_MS);
+
+    const handle = this.timers.setTimeout(async () => {
+      this.refreshTimers.delete(accountId);
+      if (await this.holdsLeadership()) {
+        await this.checkAndRefreshAccount(accountId);
+      }
+    }, delayMs);
+    this.refreshTimers.set(accountId, { handle, dueAt: new Date(now + delayMs) });
+    log.debug(`⏰ Next refresh for account "${accountId}" at ${new Date(now + delayMs).toISOString()}`, {
+      accountId,
+      delayMs,
+    });
+  }
+
+  /**
+   * Reschedule every account, e.g. after all tokens were cleared
+   */
+  private async rescheduleAll(): Promise<void> {
+    try {
+      const accounts = await this.tokenService.listAccounts();
+      for (const accountId of [...this.refreshTimers.keys()]) {
+        if (!accounts.includes(accountId)) {
+          this.cancelRefresh(accountId);
+        }
+      }
+      for (const accountId of accounts) {
+        await this.scheduleRefresh(accountId);
+      }
+    } catch (error) {
+      log.warn("⚠️  Could not reschedule token refreshes - the poll will retry", { error });
+    }
+  }
+
+  private cancelRefresh(accountId: string): void {
+    const timer = this.refreshTimers.get(accountId);
+    if (timer) {
+      this.timers.clearTimeout(timer.handle);
+      this.refreshTimers.delete(accountId);
+    }
+  }
+
+  /**
+   * Alert if an account's tokens expire within the alert threshold
+   */
+  private async checkExpiry(accountId: string): Promise<void> {
+    const status = await this.tokenService.getTokenStatus(accountId);
+
+    if (status && status.expiresIn <= this.alerts.expiryThresholdMinutes) {
+      await this.alerts.expiringSoon(accountId, status.expiresAt, status.expiresIn);
     }
   }
 
@@ -147,49 +394,66 @@ export class TokenScheduler {
    */
   private async performHealthCheck(): Promise<void> {
     try {
-      const status = await this.tokenService.getTokenStatus();
+      const accounts = await this.tokenService.listAccounts();
       
-      if (!status) {
-        console.log("🏥 Health Check: No tokens configured");
-        console.log("🚨 ACTION REQUIRED: No tokens found in the system");
-        console.log("📋 To set up tokens (choose one option):");
-        console.log("   Option 1 - OAuth flow:");
-        console.log("     1. Get authorization code from Lightspeed OAuth");
-        console.log("     2. Run: bun run tokens login <authorization_code>");
-        console.log("   Option 2 - Manual entry:");
-        console.log("     1. Get access and refresh tokens from another source");
-        console.log("     2. Run: bun run tokens set <access_token> <refresh_token>");
-        console.log("   The service will then start managing tokens automatically");
-        console.log("");
-        console.log("💡 Until tokens are configured, the scheduler will continue checking every hour");
+      if (accounts.length === 0) {
+        log.warn(
+          "🏥 Health Check: No tokens configured - run `bun run tokens login <authorization_code>` " +
+            "or `bun run tokens set <access_token> <refresh_token>`; the scheduler keeps checking"
+        );
         return;
       }
 
-      console.log("🏥 Health Check Results:");
-      console.log(`   Status: ${status.isValid ? "✅ Valid" : "❌ Invalid"}`);
-      console.log(`   Expires in: ${status.expiresIn} minutes`);
-      console.log(`   Needs refresh: ${status.needsRefresh ? "⚠️ Yes" : "✅ No"}`);
-      console.log(`   Last updated: ${status.lastUpdated.toISOString()}`);
+      for (const accountId of accounts) {
+        const status = await this.tokenService.getTokenStatus(accountId);
+        if (!status) {
+          continue;
+        }
 
-      // Alert if tokens expire soon
-      if (status.expiresIn <= 30 && status.expiresIn > 0) {
-        console.log("🚨 WARNING: Tokens expire in less than 30 minutes!");
-      }
+        log.info(`🏥 Health Check Results (account: ${accountId})`, {
+          accountId,
+          valid: status.isValid,
+          expiresInMinutes: status.expiresIn,
+          needsRefresh: status.needsRefresh,
+          lastUpdated: status.lastUpdated,
+        });
 
-      // Alert if tokens are expired
-      if (!status.isValid) {
-        console.log("🚨 ALERT: Tokens are expired! Automatic refresh should handle this.");
+        // Alert if tokens expire soon
+        const { expiryWarningMinutes } = this.tokenService.refreshPolicy;
+        if (status.expiresIn <= expiryWarningMinutes && status.expiresIn > 0) {
+          log.warn(
+            `🚨 WARNING: Tokens for account "${accountId}" expire in less than ${expiryWarningMinutes} minutes!`,
+            { accountId }
+          );
+        }
+
+        // Alert if tokens are expired
+        if (!status.isValid) {
+          log.error(`🚨 ALERT: Tokens for account "${accountId}" are expired! Automatic refresh should handle this.`, {
+            accountId,
+          });
+        }
+
+        await this.checkExpiry(accountId);
       }
     } catch (error) {
-      console.error("❌ Error during health check:", error);
+      log.error("❌ Error during health check", { error });
+    } finally {
+      this.recordRun("health_check");
     }
   }
 
+  private recordRun(task: SchedulerTask): void {
+    const now = this.clock.now();
+    this.lastRunAt[task] = now;
+    metrics.schedulerLastRun.set({ task }, now.getTime() / 1000);
+  }
+
   /**
    * Run a one-time token refresh check
    */
   async runOneTimeRefreshCheck(): Promise<void> {
-    console.log("🔍 Running one-time token refresh check...");
+    log.info("🔍 Running one-time token refresh check...");
     await this.checkAndRefreshTokens();
   }
 
@@ -197,7 +461,7 @@ export class TokenScheduler {
    * Run a one-time health check
    */
   async runOneTimeHealthCheck(): Promise<void> {
-    console.log("🏥 Running one-time health check...");
+    log.info("🏥 Running one-time health check...");
     await this.performHealthCheck();
   }
 
@@ -205,12 +469,26 @@ export class TokenScheduler {
    * Get scheduler status
    */
   getSchedulerStatus(): {
+    started: boolean; // Taking part in the leader election (startAll)
     refreshSchedulerRunning: boolean;
     healthCheckSchedulerRunning: boolean;
+    leadership: LeadershipStatus;
+    managedAccounts: string[];
+    nextRefreshes: Record<string, Date>; // When each account's refresh timer fires
+    lastRefreshRunAt: Date | null;
+    lastHealthCheckAt: Date | null;
   } {
     return {
+      started: this.stopFollowingElection !== null,
       refreshSchedulerRunning: this.refreshTask !== null,
       healthCheckSchedulerRunning: this.healthCheckTask !== null,
+      leadership: this.election.status(),
+      managedAccounts: [...this.accountsWithTokens].sort(),
+      nextRefreshes: Object.fromEntries(
+        [...this.refreshTimers].map(([accountId, timer]) => [accountId, timer.dueAt])
+      ),
+      lastRefreshRunAt: this.lastRunAt.refresh,
+      lastHealthCheckAt: this.lastRunAt.health_check,
     };
   }
 }
\ No newline at end of file
@@ -1,11 +1,39 @@
-import { db } from "../db/connection";
-import crypto from "crypto";
+import { getDefaultTokenStore, type TokenStore } from "./token-store";
+import { LeaseService, StaleLeaseError, type Lease } from "./lease-service";
+import { TokenCipher } from "./token-cipher";
+import { getTokenEndpointUrl } from "./lightspeed-oauth";
+import { getConfig, getLightspeedCredentials } from "./config";
+import { systemClock, systemTimers, type Clock, type Timers } from "./clock";
+import { metrics } from "./metrics";
+import { findMissingScopes } from "./scopes";
+import { describeRefreshPolicy, refreshDueAt, type RefreshPolicy } from "./refresh-policy";
+import { logger } from "./logger";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  backoffDelay,
+  parseRetryAfter,
+  type RetryOptions,
+} from "./retry";
+import {
+  ALL_ACCOUNTS,
+  TokenEventService,
+  fingerprintToken,
+  redactSecrets,
+  type TokenEventSource,
+} from "./token-events";
+
+const log = logger.child({ component: "token-service" });
+
+// Account used when a caller does not name one
+export const DEFAULT_ACCOUNT_ID = "default";
 
 export interface LightspeedToken {
   id: number;
+  accountId: string;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | null;
+  scope: string | null; // Granted OAuth scope, space separated; null if never recorded
   updatedAt: Date;
 }
 
@@ -13,125 +41,533 @@ export interface LightspeedTokenResponse {
   access_token: string;
   refresh_token: string;
   expires_in: number; // seconds
+  scope?: string;
 }
 
+// Raised when the Lightspeed token endpoint rejects a request or cannot be reached
+export class TokenRequestError extends Error {
+  readonly status?: number;
+  readonly body?: string;
+  readonly retryable: boolean; // Network errors, 5xx and 429 may succeed if tried again
+  readonly retryAfterMs?: number; // From a Retry-After header
+
+  constructor(
+    message: string,
+    status?: number,
+    body?: string,
+    options: { retryable?: boolean; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = "TokenRequestError";
+    this.status = status;
+    this.body = body;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// Lightspeed no longer accepts the refresh token (revoked, expired or already rotated):
+// the account must be authorized again with the login command
+export class InvalidGrantError extends TokenRequestError {
+  constructor(status?: number, body?: string) {
+    super("Refresh token was rejected (invalid_grant) - log in again", status, body);
+    this.name = "InvalidGrantError";
+  }
+}
+
+// Lightspeed rejected the client credentials: check LIGHTSPEED_CLIENT_ID and LIGHTSPEED_CLIENT_SECRET
+export class InvalidClientError extends TokenRequestError {
+  constructor(status?: number, body?: string) {
+    super("Client credentials were rejected (invalid_client)", status, body);
+    this.name = "InvalidClientError";
+  }
+}
+
+/**
+ * Short, low-cardinality label for why a refresh failed (used in metrics)
+ */
+export function refreshFailureReason(error: unknown): string {
+  if (error instanceof InvalidGrantError) return "invalid_grant";
+  if (error instanceof InvalidClientError) return "invalid_client";
+  if (!(error instanceof TokenRequestError)) return "other";
+  if (error.status === undefined) return "network";
+  if (error.status === 429) return "rate_limited";
+  if (error.status >= 500) return "server_error";
+  if (error.status < 300) return "invalid_response"; // 2xx without tokens
+  return "http_error";
+}
+
+// Another process held the refresh lock for longer than the caller could wait for it:
+// try again shortly, by which time its refreshed tokens should be stored
+export class RefreshInProgressError extends Error {
+  readonly accountId: string;
+
+  constructor(accountId: string) {
+    super(`Timed out waiting for another process to refresh account "${accountId}"`);
+    this.name = "RefreshInProgressError";
+    this.accountId = accountId;
+  }
+}
+
+// The stored tokens were not granted a scope the caller requires:
+// log in again with the missing scopes (login --add-scope)
+export class InsufficientScopeError extends Error {
+  readonly accountId: string;
+  readonly missingScopes: string[];
+  readonly grantedScope: string | null;
+
+  constructor(accountId: string, missingScopes: string[], grantedScope: string | null) {
+    super(
+      grantedScope === null
+        ? `The scope granted to account "${accountId}" was not recorded, so ${missingScopes.join(", ")} cannot be confirmed - log in again`
+        : `Tokens for account "${accountId}" lack scope ${missingScopes.join(", ")} (granted: ${grantedScope})`
+    );
+    this.name = "InsufficientScopeError";
+    this.accountId = accountId;
+    this.missingScopes = missingScopes;
+    this.grantedScope = grantedScope;
+  }
+}
+
+// Decrypted access token handed out to consumers
+export interface ValidAccessToken {
+  accessToken: string;
+  expiresAt: Date | null;
+  scope: string | null;
+}
+
+// fetch-compatible function used for requests to the Lightspeed token endpoint
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit
+) => Promise<Response>;
+
+// OAuth client registered with Lightspeed
+export interface LightspeedCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+// Dependencies that can be swapped out, e.g. in tests
+export interface TokenServiceOptions {
+  store?: TokenStore;
+  credentials?: LightspeedCredentials; // Default: from the validated configuration
+  refreshPolicy?: RefreshPolicy; // Default: from the validated configuration
+  clock?: Clock;
+  timers?: Timers; // Polls the refresh lock while another process holds it
+  fetch?: FetchFunction;
+  cipher?: TokenCipher;
+  retry?: Partial<RetryOptions>;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number; // Source of backoff and refresh jitter
+}
+
+// Called after tokens are stored or cleared; accountId is undefined when every account was cleared
+export type TokensChangedListener = (accountId: string | undefined) => void;
+
 // Token status for monitoring
 export interface TokenStatus {
+  accountId: string;
   isValid: boolean;
   expiresAt: Date | null;
   expiresIn: number; // minutes
   needsRefresh: boolean;
+  refreshDueAt: Date | null; // Null when the expiry is unknown
   lastUpdated: Date;
+  scope: string | null;
 }
 
 export class LightspeedTokenService {
-  private readonly REFRESH_BUFFER_MINUTES = 10; // Refresh tokens 10 minutes before expiry
-  private readonly ENCRYPTION_KEY = process.env.TOKEN_ENCRYPTION_KEY; // Add this
-  private readonly ALGORITHM = "aes-256-cbc";
+  private readonly REFRESH_LOCK_TTL_MS = 3 * 60 * 1000; // Longest one refresh attempt may hold the lock; renewed before each retry
+  private readonly REQUEST_REFRESH_WAIT_MS = 10 * 1000; // Longest an HTTP caller waits on another process's refresh
+  private readonly ACCESS_TOKEN_CACHE_TTL_MS = 30 * 1000; // How long decrypted tokens are served from memory
+  private readonly TOKEN_REQUEST_TIMEOUT_MS = 15 * 1000; // Give up on an unresponsive token endpoint
+  private readonly MAX_ERROR_BODY_LENGTH = 500; // Kept from a malformed token endpoint response
+  private readonly STORE_WRITE_ATTEMPTS = 3; // Tries at saving tokens Lightspeed has already rotated
+  private readonly store: TokenStore;
+  private readonly clock: Clock;
+  private readonly fetch: FetchFunction;
+  private readonly retryOptions: RetryOptions;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+  private readonly leaseService: LeaseService;
+  private readonly eventService: TokenEventService;
+  private readonly configuredCredentials: LightspeedCredentials | null;
+  private readonly configuredRefreshPolicy: RefreshPolicy | null;
+  // Refresh jitter drawn for each account's current token record
+  private refreshJitter = new Map<string, { updatedAt: number; jitterMs: number }>();
+  private cachedCipher: TokenCipher | null = null;
+
+  // In-process caches: decrypted tokens, and in-flight work shared by concurrent callers
+  private tokenCache = new Map<string, { token: ValidAccessToken; cachedUntil: number }>();
+  private tokenCacheGeneration = 0;
+  private inflightLookups = new Map<string, Promise<ValidAccessToken | null>>();
+  private inflightRefreshes = new Map<string, Promise<LightspeedToken | null>>();
+  private changeListeners = new Set<TokensChangedListener>();
+  // Refreshed tokens the store would not take; the refresh token they replaced is already dead
+  private unsavedTokens = new Map<string, { response: LightspeedTokenResponse; receivedAt: number }>();
+
+  constructor(options: TokenServiceOptions = {}) {
+    this.store = options.store ?? getDefaultTokenStore();
+    this.clock = options.clock ?? systemClock;
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.cachedCipher = options.cipher ?? null;
+    this.configuredCredentials = options.credentials ?? null;
+    this.configuredRefreshPolicy = options.refreshPolicy ?? null;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.sleep = options.sleep ?? ((ms) => Bun.sleep(ms));
+    this.random = options.random ?? Math.random;
+    this.leaseService = new LeaseService(
+      this.store,
+      undefined,
+      this.clock,
+      options.timers ?? systemTimers
+    );
+    this.eventService = new TokenEventService(this.store);
+  }
 
   /**
-   * Get the latest (most recent) tokens
+   * Get the latest (most recent) tokens for an account
    */
-  async getLatestTokens(): Promise<LightspeedToken | null> {
-    const result = await db.lightspeedTokens.findFirst();
+  async getLatestTokens(
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ): Promise<LightspeedToken | null> {
+    return await this.store.getLatestTokens(accountId);
+  }
 
-    return result;
+  /**
+   * List every account that has tokens stored
+   */
+  async listAccounts(): Promise<string[]> {
+    return await this.store.listAccounts();
+  }
+
+  /**
+   * Refresh policy given to the constructor, or from the configuration
+   */
+  get refreshPolicy(): RefreshPolicy {
+    return this.configuredRefreshPolicy ?? getConfig().refresh;
+  }
+
+  /**
+   * When tokens are due for refresh under the refresh policy, or null if they have no expiry
+   */
+  refreshDueAt(tokens: LightspeedToken): Date | null {
+    if (!tokens.expiresAt) {
+      return null;
+    }
+    const expiresAt = new Date(tokens.expiresAt);
+    return refreshDueAt(this.refreshPolicy, tokens.updatedAt, expiresAt, this.jitterFor(tokens));
   }
 
   /**
    * Check if tokens need refresh
    */
   needsRefresh(tokens: LightspeedToken): boolean {
-    if (!tokens.expiresAt) {
+    const dueAt = this.refreshDueAt(tokens);
+    if (!dueAt) {
       return true; // No expiry time, assume needs refresh
     }
 
-    const now = new Date();
-    const expiresAt = new Date(tokens.expiresAt);
-    const bufferTime = new Date(
-      expiresAt.getTime() - this.REFRESH_BUFFER_MINUTES * 60 * 1000
-    );
-
-    return now >= bufferTime;
+    return this.clock.now() >= dueAt;
   }
 
   /**
-   * Encrypt a string value
+   * Random refresh jitter for a token record, drawn once so repeated checks agree
    */
-  private encrypt(text: string): string {
-    if (!this.ENCRYPTION_KEY) {
-      throw new Error("TOKEN_ENCRYPTION_KEY environment variable is required");
+  private jitterFor(tokens: LightspeedToken): number {
+    const { jitterMs } = this.refreshPolicy;
+    if (jitterMs <= 0) {
+      return 0;
     }
 
-    const iv = crypto.randomBytes(16);
+    const updatedAt = tokens.updatedAt.getTime();
+    const drawn = this.refreshJitter.get(tokens.accountId);
+    if (drawn?.updatedAt === updatedAt) {
+      return drawn.jitterMs;
+    }
 
-    // ✅ Convert hex string to Buffer (this was likely missing)
-    const keyBuffer = Buffer.from(this.ENCRYPTION_KEY, "hex");
+    const jitter = Math.floor(this.random() * jitterMs);
+    this.refreshJitter.set(tokens.accountId, { updatedAt, jitterMs: jitter });
+    return jitter;
+  }
 
-    // ✅ Verify key is exactly 32 bytes
-    if (keyBuffer.length !== 32) {
-      throw new Error(
-        `Invalid encryption key length: expected 32 bytes, got ${keyBuffer.length}`
-      );
+  /**
+   * Cipher for the configured encryption provider, built on first use
+   */
+  private get cipher(): TokenCipher {
+    if (!this.cachedCipher) {
+      this.cachedCipher = TokenCipher.fromConfig();
     }
+    return this.cachedCipher;
+  }
 
-    const cipher = crypto.createCipheriv(this.ALGORITHM, keyBuffer, iv);
-
-    let encrypted = cipher.update(text, "utf8", "hex");
-    encrypted += cipher.final("hex");
+  /**
+   * Client credentials given to the constructor, or from the configuration.
+   * Throws ConfigError when they are not configured.
+   */
+  private credentials(): LightspeedCredentials {
+    return this.configuredCredentials ?? getLightspeedCredentials();
+  }
 
-    return iv.toString("hex") + ":" + encrypted;
+  /**
+   * Encrypt a string value with envelope encryption
+   */
+  public async encrypt(text: string): Promise<string> {
+    try {
+      return await this.cipher.encrypt(text);
+    } catch (error) {
+      metrics.encryptionErrors.inc({ operation: "encrypt" });
+      throw error;
+    }
   }
 
   /**
    * Decrypt a string value
    */
-  public decrypt(encryptedText: string): string {
-    if (!this.ENCRYPTION_KEY) {
-      throw new Error("TOKEN_ENCRYPTION_KEY environment variable is required");
+  public async decrypt(encryptedText: string): Promise<string> {
+    try {
+      return await this.cipher.decrypt(encryptedText);
+    } catch (error) {
+      metrics.encryptionErrors.inc({ operation: "decrypt" });
+      throw error;
     }
+  }
 
-    const [ivHex, encrypted] = encryptedText.split(":");
-    const iv = Buffer.from(ivHex, "hex");
+  /**
+   * Check that the encryption provider works and matches what is stored: encrypt and
+   * decrypt a probe value, then decrypt each account's stored access token
+   */
+  async verifyEncryption(): Promise<void> {
+    const probe = "encryption-check";
+    if ((await this.decrypt(await this.encrypt(probe))) !== probe) {
+      throw new Error("Decrypting a freshly encrypted value returned something else");
+    }
 
-    // ✅ Convert hex string to Buffer
-    const keyBuffer = Buffer.from(this.ENCRYPTION_KEY, "hex");
+    for (const accountId of await this.listAccounts()) {
+      const tokens = await this.getLatestTokens(accountId);
+      if (tokens) {
+        await this.decrypt(tokens.accessToken);
+      }
+    }
+  }
 
-    const decipher = crypto.createDecipheriv(this.ALGORITHM, keyBuffer, iv);
+  /**
+   * Re-encrypt every stored token under the current provider and master key,
+   * all or nothing. Returns the number of records rewritten.
+   */
+  async rotateEncryptionKey(): Promise<number> {
+    return await this.reencryptTokens((value) =>
+      this.cipher.needsReencryption(value)
+    );
+  }
 
-    let decrypted = decipher.update(encrypted, "hex", "utf8");
-    decrypted += decipher.final("utf8");
+  /**
+   * Upgrade tokens stored before envelope encryption (CBC or direct GCM).
+   * Returns the number of records rewritten.
+   */
+  async migrateEncryption(): Promise<number> {
+    return await this.reencryptTokens((value) =>
+      this.cipher.isLegacyFormat(value)
+    );
+  }
 
-    return decrypted;
+  /**
+   * Rewrite records whose ciphertexts match the predicate, all or nothing
+   */
+  private async reencryptTokens(
+    shouldReencrypt: (encryptedText: string) => boolean
+  ): Promise<number> {
+    const cipher = this.cipher;
+
+    const rewritten = await this.store.rewriteTokens(async (row) => {
+      if (
+        !shouldReencrypt(row.accessToken) &&
+        !shouldReencrypt(row.refreshToken)
+      ) {
+        return null;
+      }
+
+      return {
+        accessToken: await cipher.encrypt(await cipher.decrypt(row.accessToken)),
+        refreshToken: await cipher.encrypt(await cipher.decrypt(row.refreshToken)),
+      };
+    });
+
+    this.invalidateTokenCache();
+    return rewritten;
   }
 
   /**
    * Get valid access token (refresh if needed)
    */
-  async getValidAccessToken(): Promise<string | null> {
-    const tokens = await this.getLatestTokens();
+  async getValidAccessToken(
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ): Promise<string | null> {
+    const token = await this.getValidToken(accountId);
+    return token ? token.accessToken : null;
+  }
+
+  /**
+   * Get valid decrypted access token together with its expiry (refresh if needed).
+   * Served from a short-lived memory cache; concurrent callers share one lookup.
+   * Throws InvalidGrantError or InvalidClientError if a needed refresh is rejected,
+   * RefreshInProgressError if another process is still refreshing the account,
+   * and InsufficientScopeError if the tokens were not granted every required scope.
+   */
+  async getValidToken(
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    requiredScopes: string[] = []
+  ): Promise<ValidAccessToken | null> {
+    const token = await this.getCachedOrLookup(accountId);
+
+    if (token && requiredScopes.length > 0) {
+      const missing = findMissingScopes(token.scope, requiredScopes);
+      if (missing === null || missing.length > 0) {
+        throw new InsufficientScopeError(accountId, missing ?? requiredScopes, token.scope);
+      }
+    }
+
+    return token;
+  }
+
+  private async getCachedOrLookup(accountId: string): Promise<ValidAccessToken | null> {
+    const cached = this.tokenCache.get(accountId);
+    if (cached && this.clock.now().getTime() < cached.cachedUntil) {
+      return cached.token;
+    }
+
+    const inflight = this.inflightLookups.get(accountId);
+    if (inflight) {
+      return await inflight;
+    }
+
+    const lookup = this.lookupValidToken(accountId).finally(() => {
+      this.inflightLookups.delete(accountId);
+    });
+    this.inflightLookups.set(accountId, lookup);
+
+    return await lookup;
+  }
+
+  /**
+   * Replace an access token Lightspeed rejected with HTTP 401 by refreshing it.
+   * If the stored token has already moved on (another caller refreshed it), that
+   * token is returned instead, so a burst of 401s causes a single refresh.
+   */
+  async refreshRejectedToken(
+    accountId: string,
+    rejectedAccessToken: string,
+    source: TokenEventSource = "api"
+  ): Promise<ValidAccessToken | null> {
+    this.invalidateTokenCache(accountId);
+    const tokens = await this.getLatestTokens(accountId);
 
     if (!tokens) {
-      console.error("No Lightspeed tokens found");
+      return null;
+    }
+
+    if ((await this.decrypt(tokens.accessToken)) !== rejectedAccessToken) {
+      return await this.getCachedOrLookup(accountId);
+    }
+
+    log.warn(`⚠️  Lightspeed rejected the access token for account "${accountId}", refreshing`, { accountId });
+    const refreshed = await this.refreshTokens(
+      await this.decrypt(tokens.refreshToken),
+      accountId,
+      source
+    );
+
+    return refreshed
+      ? {
+          accessToken: await this.decrypt(refreshed.accessToken),
+          expiresAt: refreshed.expiresAt,
+          scope: refreshed.scope,
+        }
+      : null;
+  }
+
+  /**
+   * Drop cached decrypted tokens for one account, or all accounts
+   */
+  invalidateTokenCache(accountId?: string): void {
+    this.tokenCacheGeneration++;
+
+    if (accountId) {
+      this.tokenCache.delete(accountId);
+    } else {
+      this.tokenCache.clear();
+    }
+  }
+
+  /**
+   * Cache a token until the cache TTL passes or it enters the refresh window,
+   * unless the cache was invalidated while the token was being loaded
+   */
+  private cacheToken(
+    accountId: string,
+    token: ValidAccessToken,
+    record: LightspeedToken,
+    generation: number
+  ): void {
+    const refreshAt = this.refreshDueAt(record);
+    if (generation !== this.tokenCacheGeneration || !refreshAt) {
+      return;
+    }
+
+    const cachedUntil = Math.min(
+      this.clock.now().getTime() + this.ACCESS_TOKEN_CACHE_TTL_MS,
+      refreshAt.getTime()
+    );
+
+    if (cachedUntil > this.clock.now().getTime()) {
+      this.tokenCache.set(accountId, { token, cachedUntil });
+    }
+  }
+
+  /**
+   * Load the stored token for an account, refreshing it if needed
+   */
+  private async lookupValidToken(
+    accountId: string
+  ): Promise<ValidAccessToken | null> {
+    const generation = this.tokenCacheGeneration;
+    const tokens = await this.getLatestTokens(accountId);
+
+    if (!tokens) {
+      log.error(`No Lightspeed tokens found for account "${accountId}"`, { accountId });
       return null;
     }
 
     // Check if token needs refresh
     if (this.needsRefresh(tokens)) {
-      console.log("Access token needs refresh, attempting to refresh...");
+      log.info(`Access token for account "${accountId}" needs refresh, attempting to refresh...`, { accountId });
       const refreshedTokens = await this.refreshTokens(
-        this.decrypt(tokens.refreshToken) // Decrypt before use
+        await this.decrypt(tokens.refreshToken), // Decrypt before use
+        accountId
       );
 
       if (refreshedTokens) {
-        return this.decrypt(refreshedTokens.accessToken);
+        const token = {
+          accessToken: await this.decrypt(refreshedTokens.accessToken),
+          expiresAt: refreshedTokens.expiresAt,
+          scope: refreshedTokens.scope,
+        };
+        this.cacheToken(accountId, token, refreshedTokens, this.tokenCacheGeneration);
+        return token;
       } else {
-        console.error("Failed to refresh tokens");
+        log.error("Failed to refresh tokens", { accountId });
         return null;
       }
     }
 
-    return this.decrypt(tokens.accessToken); // Decrypt before returning
+    const token = {
+      accessToken: await this.decrypt(tokens.accessToken), // Decrypt before returning
+      expiresAt: tokens.expiresAt,
+      scope: tokens.scope,
+    };
+    this.cacheToken(accountId, token, tokens, generation);
+    return token;
   }
 
   /**
@@ -140,133 +576,382 @@ export class LightspeedTokenService {
   async insertTokens(
     accessToken: string,
     refreshToken: string,
-    expiresIn: number
+    expiresIn: number,
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    scope: string | null = null
   ): Promise<LightspeedToken> {
-    // ✅ Log tokens before attempting to encrypt/store
-    console.log("🔐 Received tokens for storage:");
-    console.log(
-      "  Access Token (first 20 chars):",
-      accessToken.substring(0, 20) + "..."
-    );
-    console.log(
-      "  Refresh Token (first 20 chars):",
-      refreshToken.substring(0, 20) + "..."
-    );
-    console.log("  Expires In:", expiresIn, "seconds");
+    log.debug("🔐 Received tokens for storage", {
+      accountId,
+      refreshTokenFingerprint: fingerprintToken(refreshToken),
+      expiresIn,
+    });
 
-    const expiresAt = new Date();
-    expiresAt.setSeconds(expiresAt.getSeconds() + expiresIn);
+    const expiresAt = new Date(this.clock.now().getTime() + expiresIn * 1000);
 
     try {
       const tokenData: LightspeedToken = {
         id: 0, // Auto-incremented by database
-        accessToken: this.encrypt(accessToken),
-        refreshToken: this.encrypt(refreshToken),
+        accountId,
+        accessToken: await this.encrypt(accessToken),
+        refreshToken: await this.encrypt(refreshToken),
         expiresAt,
-        updatedAt: new Date(),
+        scope,
+        updatedAt: this.clock.now(),
       };
 
-      const result = await db.lightspeedTokens.create({
-        data: tokenData,
-      });
+      const { id: _id, ...data } = tokenData;
+      const result = await this.store.insertTokens(data);
+      this.invalidateTokenCache(accountId);
+      this.notifyTokensChanged(accountId);
 
-      console.log("✅ New tokens inserted successfully");
-      console.log("  Database ID:", result.id);
-      console.log("  Expires At:", expiresAt.toISOString());
+      log.info("✅ New tokens inserted successfully", {
+        accountId,
+        recordId: result.id,
+        expiresAt,
+      });
 
       return result;
     } catch (error) {
-      console.error("❌ Failed to insert tokens to database:", error);
-      console.log("🚨 RECOVERY INFO - Save these tokens:");
-      console.log("  LIGHTSPEED_REFRESH_TOKEN=" + refreshToken);
-      console.log("  Access token was:", accessToken);
+      log.error("❌ Failed to insert tokens to database", {
+        accountId,
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+        error,
+      });
       throw error;
     }
   }
 
   /**
-   * Update tokens (after refresh or initial setup)
+   * Update tokens (after refresh or initial setup). With a fence, the store refuses
+   * the update once that lease has been taken over (StaleLeaseError).
    */
   async updateTokens(
     id: number,
     accessToken: string,
     refreshToken: string,
-    expiresIn: number
+    expiresIn: number,
+    scope?: string | null, // Left unchanged when undefined
+    fence?: Lease
   ): Promise<void> {
-    // ✅ Log tokens before attempting to encrypt/store
-    console.log("🔄 Updating tokens in database:");
-    console.log("  Record ID:", id);
-    console.log(
-      "  Access Token (first 20 chars):",
-      accessToken.substring(0, 20) + "..."
-    );
-    console.log(
-      "  Refresh Token (first 20 chars):",
-      refreshToken.substring(0, 20) + "..."
-    );
-    console.log("  Expires In:", expiresIn, "seconds");
+    log.debug("🔄 Updating tokens in database", {
+      recordId: id,
+      refreshTokenFingerprint: fingerprintToken(refreshToken),
+      expiresIn,
+    });
 
-    const expiresAt = new Date();
-    expiresAt.setSeconds(expiresAt.getSeconds() + expiresIn);
+    const expiresAt = new Date(this.clock.now().getTime() + expiresIn * 1000);
 
     try {
-      await db.lightspeedTokens.update({
-        where: { id },
-        data: {
-          accessToken: this.encrypt(accessToken),
-          refreshToken: this.encrypt(refreshToken),
+      const updated = await this.store.updateTokens(
+        id,
+        {
+          accessToken: await this.encrypt(accessToken),
+          refreshToken: await this.encrypt(refreshToken),
           expiresAt,
-          updatedAt: new Date(),
+          scope,
+          updatedAt: this.clock.now(),
         },
-      });
+        fence
+      );
+      this.invalidateTokenCache(); // Record ID only, so drop every account
+      this.notifyTokensChanged(updated.accountId);
 
-      console.log("✅ Tokens updated successfully");
-      console.log("  Expires At:", expiresAt.toISOString());
+      log.info("✅ Tokens updated successfully", { recordId: id, expiresAt });
     } catch (error) {
-      console.error("❌ Failed to update tokens in database:", error);
-      console.log("🚨 RECOVERY INFO - Save these tokens:");
-      console.log("  LIGHTSPEED_REFRESH_TOKEN=" + refreshToken);
-      console.log("  Access token was:", accessToken);
+      log.error("❌ Failed to update tokens in database", {
+        recordId: id,
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+        error,
+      });
       throw error;
     }
   }
 
   /**
-   * Refresh tokens using the refresh token
+   * Refresh tokens using the refresh token.
+   * Concurrent calls for the same account in this process share one refresh.
+   * Returns null on transient failures once retries are exhausted; throws
+   * InvalidGrantError or InvalidClientError when Lightspeed rejects the refresh outright,
+   * and RefreshInProgressError when another process holds the refresh lock for too long.
+   */
+  async refreshTokens(
+    refreshToken: string,
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    source: TokenEventSource = "on_demand"
+  ): Promise<LightspeedToken | null> {
+    const inflight = this.inflightRefreshes.get(accountId);
+    if (inflight) {
+      return await inflight;
+    }
+
+    const refresh = this.performRefresh(refreshToken, accountId, source).finally(() => {
+      this.inflightRefreshes.delete(accountId);
+      this.invalidateTokenCache(accountId);
+    });
+    this.inflightRefreshes.set(accountId, refresh);
+
+    return await refresh;
+  }
+
+  /**
+   * Only one process at a time may refresh an account, because Lightspeed
+   * rotates the refresh token and a second refresh would use a dead one.
    */
-  async refreshTokens(refreshToken: string): Promise<LightspeedToken | null> {
+  private async performRefresh(
+    refreshToken: string,
+    accountId: string,
+    source: TokenEventSource
+  ): Promise<LightspeedToken | null> {
+    const lockName = `refresh:${accountId}`;
+    let lease: Lease | null;
+
     try {
-      // Make request to Lightspeed token refresh endpoint
-      const response = await this.requestTokenRefresh(refreshToken);
+      lease = await this.leaseService.acquire(lockName, this.REFRESH_LOCK_TTL_MS);
+    } catch (error) {
+      log.error(`Error acquiring refresh lock for account "${accountId}"`, { accountId, error });
+      return null;
+    }
 
-      if (!response) {
-        return null;
+    if (!lease) {
+      log.info(`⏳ Another process is refreshing account "${accountId}" - waiting for it to finish...`, { accountId });
+      // Callers answering an HTTP request cannot wait out a whole refresh lock
+      const timeoutMs =
+        source === "api" || source === "on_demand" ? this.REQUEST_REFRESH_WAIT_MS : this.REFRESH_LOCK_TTL_MS;
+      return await this.waitForConcurrentRefresh(lockName, refreshToken, accountId, timeoutMs);
+    }
+
+    try {
+      const unsaved = this.unsavedTokens.get(accountId);
+      if (unsaved) {
+        return await this.saveUnsavedTokens(accountId, unsaved, source, lease);
       }
 
-      // Get the latest token record to update
-      const latestTokens = await this.getLatestTokens();
+      // Another process may have refreshed while we were acquiring the lock
+      const currentTokens = await this.getLatestTokens(accountId);
 
-      if (!latestTokens) {
-        // Insert new tokens if none exist
-        return await this.insertTokens(
-          response.access_token,
-          response.refresh_token,
-          response.expires_in
-        );
-      } else {
-        // Update existing tokens
-        await this.updateTokens(
-          latestTokens.id,
-          response.access_token,
-          response.refresh_token,
-          response.expires_in
+      if (currentTokens) {
+        const currentRefreshToken = await this.decrypt(currentTokens.refreshToken);
+
+        if (currentRefreshToken !== refreshToken) {
+          if (!this.needsRefresh(currentTokens)) {
+            log.info(`✅ Tokens for account "${accountId}" were already refreshed by another process`, { accountId });
+            return currentTokens;
+          }
+          refreshToken = currentRefreshToken;
+        }
+      }
+
+      await this.eventService.record({
+        accountId,
+        type: "refresh_attempt",
+        source,
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+      });
+
+      metrics.refreshAttempts.inc({ account: accountId, source });
+
+      // Make request to Lightspeed token refresh endpoint
+      const startedAt = performance.now();
+      const heldLease = lease;
+      const response = await this.requestTokenRefresh(refreshToken, async () => {
+        await this.renewRefreshLock(heldLease, accountId);
+      }).finally(() => {
+        metrics.refreshDuration.observe(
+          { account: accountId },
+          (performance.now() - startedAt) / 1000
         );
+      });
+
+      const storedTokens = await this.storeRefreshedTokens(accountId, response, heldLease);
+
+      await this.eventService.record({
+        accountId,
+        type: "refresh_success",
+        source,
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+        newTokenFingerprint: fingerprintToken(response.refresh_token),
+        expiresAt: storedTokens?.expiresAt ?? null,
+      });
+      metrics.refreshSuccesses.inc({ account: accountId, source });
+
+      return storedTokens;
+    } catch (error) {
+      log.error(`Error refreshing Lightspeed tokens for account "${accountId}"`, { accountId, source, error });
+      metrics.refreshFailures.inc({
+        account: accountId,
+        source,
+        reason: refreshFailureReason(error),
+      });
+      await this.eventService.record({
+        accountId,
+        type: "refresh_failure",
+        source,
+        httpStatus: error instanceof TokenRequestError ? error.status : undefined,
+        message: error instanceof Error ? error.message : "Unknown error",
+        errorBody:
+          error instanceof TokenRequestError && error.body
+            ? redactSecrets(error.body, [refreshToken])
+            : undefined,
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+      });
+
+      // Retrying cannot fix these, so callers must see them and tell someone
+      if (error instanceof InvalidGrantError || error instanceof InvalidClientError) {
+        throw error;
+      }
+      return null;
+    } finally {
+      await this.leaseService.release(lease).catch((error) => {
+        log.error(`Error releasing refresh lock for account "${accountId}"`, { accountId, error });
+      });
+    }
+  }
+
+  /**
+   * Save tokens Lightspeed has just issued under the refresh lock, retrying the store.
+   * If it still fails they are kept in memory and saved by the next refresh of the
+   * account instead of calling Lightspeed again, as the refresh token they replaced
+   * no longer works. Once the lock was taken over they are dropped instead, so they
+   * cannot overwrite tokens stored by the process that took it.
+   */
+  private async storeRefreshedTokens(
+    accountId: string,
+    response: LightspeedTokenResponse,
+    lease: Lease,
+    receivedAt: number = this.clock.now().getTime()
+  ): Promise<LightspeedToken | null> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const stored = await this.writeRefreshedTokens(accountId, response, lease);
+        this.unsavedTokens.delete(accountId);
+        return stored;
+      } catch (error) {
+        if (error instanceof StaleLeaseError) {
+          this.unsavedTokens.delete(accountId);
+          log.error(
+            `❌ Another process took over the refresh lock for account "${accountId}" before its tokens were stored - discarding them`,
+            { accountId, newRefreshTokenFingerprint: fingerprintToken(response.refresh_token), error }
+          );
+          throw error;
+        }
+        if (attempt >= this.STORE_WRITE_ATTEMPTS) {
+          this.unsavedTokens.set(accountId, { response, receivedAt });
+          log.error(
+            `❌ Could not store the tokens refreshed for account "${accountId}" - keeping them in memory until the store accepts them`,
+            { accountId, newRefreshTokenFingerprint: fingerprintToken(response.refresh_token), error }
+          );
+          throw error;
+        }
+        await this.sleep(backoffDelay(attempt, this.retryOptions, this.random));
+      }
+    }
+  }
+
+  private async writeRefreshedTokens(
+    accountId: string,
+    response: LightspeedTokenResponse,
+    lease: Lease
+  ): Promise<LightspeedToken | null> {
+    const latestTokens = await this.getLatestTokens(accountId);
+
+    if (!latestTokens) {
+      return await this.insertTokens(
+        response.access_token,
+        response.refresh_token,
+        response.expires_in,
+        accountId,
+        response.scope ?? null
+      );
+    }
+
+    // A refresh keeps the granted scope unless Lightspeed reports one
+    await this.updateTokens(
+      latestTokens.id,
+      response.access_token,
+      response.refresh_token,
+      response.expires_in,
+      response.scope,
+      lease
+    );
+    return await this.getLatestTokens(accountId);
+  }
+
+  /**
+   * Retry saving tokens an earlier refresh could not store
+   */
+  private async saveUnsavedTokens(
+    accountId: string,
+    unsaved: { response: LightspeedTokenResponse; receivedAt: number },
+    source: TokenEventSource,
+    lease: Lease
+  ): Promise<LightspeedToken | null> {
+    log.info(`💾 Storing tokens refreshed earlier for account "${accountId}"`, { accountId });
+    const elapsedSeconds = Math.floor((this.clock.now().getTime() - unsaved.receivedAt) / 1000);
+    const response = {
+      ...unsaved.response,
+      expires_in: Math.max(0, unsaved.response.expires_in - elapsedSeconds),
+    };
+
+    const storedTokens = await this.storeRefreshedTokens(accountId, response, lease, unsaved.receivedAt);
+    await this.eventService.record({
+      accountId,
+      type: "refresh_success",
+      source,
+      message: "Stored tokens from an earlier refresh the store had rejected",
+      newTokenFingerprint: fingerprintToken(response.refresh_token),
+      expiresAt: storedTokens?.expiresAt ?? null,
+    });
+    return storedTokens;
+  }
+
+  /**
+   * Extend the refresh lock before another attempt, so a slow retry sequence cannot
+   * outlive it and let a second process spend the same refresh token
+   */
+  private async renewRefreshLock(lease: Lease, accountId: string): Promise<void> {
+    if (!(await this.leaseService.renew(lease, this.REFRESH_LOCK_TTL_MS))) {
+      throw new TokenRequestError(
+        `Lost the refresh lock for account "${accountId}" while retrying - another process may be refreshing it`
+      );
+    }
+  }
+
+  /**
+   * Wait for another process's refresh to finish and return the tokens it stored
+   * rather than calling the token endpoint with a refresh token it has just rotated.
+   * Throws RefreshInProgressError if the lock is still held after timeoutMs.
+   */
+  private async waitForConcurrentRefresh(
+    lockName: string,
+    refreshToken: string,
+    accountId: string,
+    timeoutMs: number
+  ): Promise<LightspeedToken | null> {
+    let released: boolean;
+    try {
+      released = await this.leaseService.waitForRelease(lockName, timeoutMs);
+    } catch (error) {
+      log.error(`Error waiting for concurrent refresh of account "${accountId}"`, { accountId, error });
+      return null;
+    }
+
+    if (!released) {
+      log.error(`❌ Timed out waiting for another process to refresh account "${accountId}"`, { accountId });
+      throw new RefreshInProgressError(accountId);
+    }
+
+    try {
+      const tokens = await this.getLatestTokens(accountId);
 
-        // Return updated tokens
-        return await this.getLatestTokens();
+      if (tokens && (await this.decrypt(tokens.refreshToken)) !== refreshToken) {
+        log.info(`✅ Using tokens refreshed by another process for account "${accountId}"`, { accountId });
+        return tokens;
       }
+
+      log.error(`❌ Concurrent refresh of account "${accountId}" did not store new tokens`, { accountId });
+      return null;
     } catch (error) {
-      console.error("Error refreshing Lightspeed tokens:", error);
+      log.error(`Error loading tokens refreshed by another process for account "${accountId}"`, { accountId, error });
       return null;
     }
   }
@@ -274,14 +959,16 @@ export class LightspeedTokenService {
   /**
    * Get token status for monitoring
    */
-  async getTokenStatus(): Promise<TokenStatus | null> {
-    const tokens = await this.getLatestTokens();
+  async getTokenStatus(
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ): Promise<TokenStatus | null> {
+    const tokens = await this.getLatestTokens(accountId);
 
     if (!tokens) {
       return null;
     }
 
-    const now = new Date();
+    const now = this.clock.now();
     const expiresAt = tokens.expiresAt ? new Date(tokens.expiresAt) : null;
     const isValid = expiresAt ? now < expiresAt : false;
     const expiresIn = expiresAt
@@ -291,59 +978,147 @@ export class LightspeedTokenService {
         )
       : 0;
     const needsRefresh = this.needsRefresh(tokens);
+    const refreshDueAt = this.refreshDueAt(tokens);
 
     return {
+      accountId: tokens.accountId,
       isValid,
       expiresAt,
       expiresIn,
       needsRefresh,
+      refreshDueAt,
       lastUpdated: tokens.updatedAt,
+      scope: tokens.scope,
     };
   }
 
   /**
    * Validate tokens are properly configured
    */
-  async validateTokens(): Promise<boolean> {
-    const tokens = await this.getLatestTokens();
+  async validateTokens(
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ): Promise<boolean> {
+    const tokens = await this.getLatestTokens(accountId);
 
     if (!tokens || !tokens.refreshToken) {
       return false;
     }
 
     // Try to get a valid access token (will refresh if needed)
-    const accessToken = await this.getValidAccessToken();
+    const accessToken = await this.getValidAccessToken(accountId).catch(() => null);
     return !!accessToken;
   }
 
   /**
-   * Clear all tokens (for reset/logout)
+   * Be told when this service stores or clears tokens. Changes made by other
+   * processes are not reported. Returns a function that removes the listener.
+   */
+  onTokensChanged(listener: TokensChangedListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private notifyTokensChanged(accountId: string | undefined): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(accountId);
+      } catch (error) {
+        log.error("❌ Token change listener failed", { accountId, error });
+      }
+    }
+  }
+
+  /**
+   * Clear tokens for one account, or every account when none is given (for reset/logout)
    */
-  async clearTokens(): Promise<void> {
-    await db.lightspeedTokens.deleteMany({});
+  async clearTokens(
+    accountId?: string,
+    source: TokenEventSource = "cli"
+  ): Promise<void> {
+    await this.store.deleteTokens(accountId);
+    this.invalidateTokenCache(accountId);
+    this.notifyTokensChanged(accountId);
+
+    await this.eventService.record({
+      accountId: accountId ?? ALL_ACCOUNTS,
+      type: "clear",
+      source,
+    });
   }
 
   /**
-   * Complete login flow: exchange auth code and store tokens
+   * Store tokens for an account, replacing any existing record.
+   * Without a scope, the scope already recorded for the account is kept.
    */
-  async loginWithAuthCode(authCode: string): Promise<LightspeedToken | null> {
+  async saveTokens(
+    accessToken: string,
+    refreshToken: string,
+    expiresIn: number,
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    scope?: string | null
+  ): Promise<LightspeedToken> {
+    const existing = await this.getLatestTokens(accountId);
+
+    if (!existing) {
+      return await this.insertTokens(accessToken, refreshToken, expiresIn, accountId, scope ?? null);
+    }
+
+    await this.updateTokens(existing.id, accessToken, refreshToken, expiresIn, scope);
+    return (await this.getLatestTokens(accountId))!;
+  }
+
+  /**
+   * Complete login flow: exchange auth code and store tokens.
+   * The granted scope is the one Lightspeed reports, else the scope that was requested.
+   */
+  async loginWithAuthCode(
+    authCode: string,
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    source: TokenEventSource = "cli",
+    requestedScope?: string
+  ): Promise<LightspeedToken | null> {
     try {
       const tokenResponse = await this.exchangeAuthCodeForTokens(authCode);
 
       if (!tokenResponse) {
+        await this.eventService.record({
+          accountId,
+          type: "login_failure",
+          source,
+          message: "Authorization code exchange failed",
+        });
         return null;
       }
 
-      const storedTokens = await this.insertTokens(
+      const storedTokens = await this.saveTokens(
         tokenResponse.access_token,
         tokenResponse.refresh_token,
-        tokenResponse.expires_in
+        tokenResponse.expires_in,
+        accountId,
+        tokenResponse.scope ?? requestedScope ?? null
       );
 
-      console.log("✅ Login completed successfully");
+      await this.eventService.record({
+        accountId,
+        type: "login",
+        source,
+        message: storedTokens.scope ? `Granted scope: ${storedTokens.scope}` : undefined,
+        newTokenFingerprint: fingerprintToken(tokenResponse.refresh_token),
+        expiresAt: storedTokens.expiresAt,
+      });
+
+      log.info("✅ Login completed successfully", { accountId });
       return storedTokens;
     } catch (error) {
-      console.error("❌ Login flow failed:", error);
+      log.error("❌ Login flow failed", { accountId, error });
+      await this.eventService.record({
+        accountId,
+        type: "login_failure",
+        source,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
       return null;
     }
   }
@@ -356,14 +1131,7 @@ export class LightspeedTokenService {
   ): Promise<LightspeedTokenResponse | null> {
     // Clean the authorization code - remove any whitespace, newlines, etc.
     const cleanAuthCode = authCode.replace(/\s/g, "").trim();
-    const clientId = process.env.LIGHTSPEED_CLIENT_ID;
-    const clientSecret = process.env.LIGHTSPEED_CLIENT_SECRET;
-
-    if (!clientId || !clientSecret) {
-      throw new Error(
-        "LIGHTSPEED_CLIENT_ID and LIGHTSPEED_CLIENT_SECRET environment variables are required"
-      );
-    }
+    const { clientId, clientSecret } = this.credentials();
 
     const requestBody = {
       grant_type: "authorization_code",
@@ -372,117 +1140,205 @@ export class LightspeedTokenService {
       code: cleanAuthCode,
     };
 
-    console.log("🌐 Making token exchange request to Lightspeed...");
-    console.log("  Client ID:", clientId);
-    console.log("  Request body:", JSON.stringify(requestBody, null, 2));
+    log.info(`🌐 Making token exchange request to ${getTokenEndpointUrl()}...`, { clientId });
 
     try {
-      const response = await fetch(
-        "https://cloud.lightspeedapp.com/auth/oauth/token",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(requestBody),
-        }
-      );
+      const response = await this.fetch(getTokenEndpointUrl(), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(this.TOKEN_REQUEST_TIMEOUT_MS),
+      });
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error("❌ Token exchange failed:", response.status, errorText);
+        log.error("❌ Token exchange failed", { status: response.status, body: errorText });
         return null;
       }
 
       const data = await response.json();
 
       if (data.access_token && data.refresh_token) {
-        console.log("✅ Token exchange successful");
+        log.info("✅ Token exchange successful");
         return {
           access_token: data.access_token,
           refresh_token: data.refresh_token,
-          expires_in: data.expires_in || 3600, // Default to 1 hour if not provided
+          expires_in: data.expires_in || this.refreshPolicy.defaultExpiresInSeconds,
+          scope: typeof data.scope === "string" ? data.scope : undefined,
         };
       } else {
-        console.error("❌ Invalid response - missing tokens:", data);
+        log.error("❌ Invalid response - missing tokens", { fields: Object.keys(data ?? {}) });
         return null;
       }
     } catch (error) {
-      console.error("❌ Network error during token exchange:", error);
+      log.error("❌ Network error during token exchange", { error });
       return null;
     }
   }
 
   /**
-   * Make HTTP request to refresh tokens
+   * Request a token refresh, retrying transient failures (network errors, 5xx, 429)
+   * with exponential backoff and jitter. Permanent rejections are thrown at once.
+   * `beforeRetry` runs after each backoff; if it throws, no further attempt is made.
    */
   private async requestTokenRefresh(
+    refreshToken: string,
+    beforeRetry: () => Promise<void> = async () => {}
+  ): Promise<LightspeedTokenResponse> {
+    const { maxAttempts, maxRetryAfterMs } = this.retryOptions;
+
+    for (let attempt = 1; ; attempt++) {
+      if (attempt > 1) {
+        await beforeRetry();
+      }
+      try {
+        return await this.sendTokenRefresh(refreshToken);
+      } catch (error) {
+        if (
+          !(error instanceof TokenRequestError) ||
+          !error.retryable ||
+          attempt >= maxAttempts ||
+          (error.retryAfterMs ?? 0) > maxRetryAfterMs
+        ) {
+          throw error;
+        }
+
+        const delayMs =
+          error.retryAfterMs ?? backoffDelay(attempt, this.retryOptions, this.random);
+        log.warn(
+          `⏳ Token refresh attempt ${attempt}/${maxAttempts} failed (${error.message}) - retrying in ${delayMs}ms`,
+          { attempt, maxAttempts, delayMs, status: error.status }
+        );
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Make one HTTP request to refresh tokens
+   */
+  private async sendTokenRefresh(
     refreshToken: string
-  ): Promise<LightspeedTokenResponse | null> {
-    const clientId = process.env.LIGHTSPEED_CLIENT_ID;
-    const clientSecret = process.env.LIGHTSPEED_CLIENT_SECRET;
+  ): Promise<LightspeedTokenResponse> {
+    const { clientId, clientSecret } = this.credentials();
+
+    log.info(`🔄 Requesting token refresh from ${getTokenEndpointUrl()}...`, {
+      refreshTokenFingerprint: fingerprintToken(refreshToken),
+    });
 
-    if (!clientId || !clientSecret) {
-      throw new Error("Lightspeed client credentials not configured");
+    let response: Response;
+
+    try {
+      response = await this.fetch(getTokenEndpointUrl(), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          refresh_token: refreshToken,
+          client_id: clientId,
+          client_secret: clientSecret,
+          grant_type: "refresh_token",
+        }),
+        signal: AbortSignal.timeout(this.TOKEN_REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      log.error("❌ Network error during token refresh", {
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+        error,
+      });
+      throw new TokenRequestError(
+        `Network error during token refresh: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        undefined,
+        undefined,
+        { retryable: true }
+      );
     }
 
-    console.log("🔄 Requesting token refresh from Lightspeed...");
-    console.log(
-      "  Using refresh token (first 20 chars):",
-      refreshToken.substring(0, 20) + "..."
-    );
+    if (!response.ok) {
+      const errorText = await response.text();
+      log.error("❌ Token refresh failed", {
+        status: response.status,
+        body: redactSecrets(errorText, [refreshToken]),
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+      });
+      throw this.classifyTokenError(response, errorText);
+    }
 
+    const body = await response.text();
+    let rawData: unknown;
     try {
-      const response = await fetch(
-        "https://cloud.lightspeedapp.com/auth/oauth/token",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            refresh_token: refreshToken,
-            client_id: clientId,
-            client_secret: clientSecret,
-            grant_type: "refresh_token",
-          }),
-        }
+      rawData = JSON.parse(body);
+    } catch {
+      // Typically a proxy or maintenance page in front of Lightspeed, so worth another try
+      const excerpt = redactSecrets(body.substring(0, this.MAX_ERROR_BODY_LENGTH), [refreshToken]);
+      log.error("❌ Invalid response - body is not JSON", {
+        status: response.status,
+        body: excerpt,
+        refreshTokenFingerprint: fingerprintToken(refreshToken),
+      });
+      throw new TokenRequestError(
+        `Invalid refresh response - HTTP ${response.status} body is not JSON`,
+        response.status,
+        excerpt,
+        { retryable: true }
       );
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("❌ Token refresh failed:", response.status, errorText);
-        console.log("🚨 The refresh token that failed was:", refreshToken);
-        return null;
-      }
+    const data: LightspeedTokenResponse = rawData as LightspeedTokenResponse;
 
-      const rawData = await response.json();
+    if (data.access_token && data.refresh_token) {
+      log.info("✅ Tokens refreshed successfully from Lightspeed", {
+        newRefreshTokenFingerprint: fingerprintToken(data.refresh_token),
+      });
+    } else {
+      log.error("❌ Invalid response - missing tokens", { fields: Object.keys(rawData ?? {}) });
+      throw new TokenRequestError(
+        "Invalid refresh response - missing tokens",
+        response.status,
+        JSON.stringify(rawData)
+      );
+    }
 
-      const data: LightspeedTokenResponse = rawData as LightspeedTokenResponse;
+    return { ...data, expires_in: data.expires_in || this.refreshPolicy.defaultExpiresInSeconds };
+  }
 
-      if (data.access_token && data.refresh_token) {
-        console.log("✅ Tokens refreshed successfully from Lightspeed");
-        console.log(
-          "  New Access Token (first 20):",
-          data.access_token.substring(0, 20) + "..."
-        );
-        console.log(
-          "  New Refresh Token (first 20):",
-          data.refresh_token.substring(0, 20) + "..."
-        );
-      } else {
-        console.error("❌ Invalid response - missing tokens:", rawData);
-      }
+  /**
+   * Turn an error response from the token endpoint into a typed error
+   */
+  private classifyTokenError(response: Response, body: string): TokenRequestError {
+    let oauthError: string | undefined;
+    try {
+      oauthError = JSON.parse(body)?.error;
+    } catch {
+      // Not an OAuth error document
+    }
 
-      return data;
-    } catch (error) {
-      console.error("❌ Network error during token refresh:", error);
-      console.log(
-        "🚨 The refresh token that caused the error was:",
-        refreshToken
-      );
-      return null;
+    if (oauthError === "invalid_grant") {
+      return new InvalidGrantError(response.status, body);
     }
+
+    // A 401 without an OAuth error may come from a proxy or gateway, not Lightspeed
+    if (oauthError === "invalid_client") {
+      return new InvalidClientError(response.status, body);
+    }
+
+    const retryable =
+      response.status === 408 || response.status === 429 || response.status >= 500;
+
+    return new TokenRequestError(
+      `Token refresh failed with HTTP ${response.status}`,
+      response.status,
+      body,
+      {
+        retryable,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after"), this.clock.now()),
+      }
+    );
   }
 
   /**
@@ -491,7 +1347,7 @@ export class LightspeedTokenService {
   getTimeUntilExpiry(tokens: LightspeedToken): number {
     if (!tokens.expiresAt) return 0;
 
-    const now = new Date();
+    const now = this.clock.now();
     const expiresAt = new Date(tokens.expiresAt);
     return Math.max(
       0,
@@ -512,7 +1368,9 @@ export class LightspeedTokenService {
    * CLI Login: Handle complete login flow with user-friendly responses
    */
   async cliLogin(
-    authCode: string
+    authCode: string,
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    requestedScope?: string
   ): Promise<{ success: boolean; message: string; status?: any }> {
     if (!authCode?.trim()) {
       return {
@@ -522,11 +1380,11 @@ export class LightspeedTokenService {
     }
 
     try {
-      console.log("🔐 Exchanging authorization code for tokens...");
-      const tokens = await this.loginWithAuthCode(authCode);
+      log.info("🔐 Exchanging authorization code for tokens...", { accountId });
+      const tokens = await this.loginWithAuthCode(authCode, accountId, "cli", requestedScope);
 
       if (tokens) {
-        const status = await this.getTokenStatus();
+        const status = await this.getTokenStatus(accountId);
         return {
           success: true,
           message: "Login successful! Tokens stored securely.",
@@ -552,30 +1410,32 @@ export class LightspeedTokenService {
   /**
    * CLI Refresh: Handle token refresh with user-friendly responses
    */
-  async cliRefresh(): Promise<{
+  async cliRefresh(accountId: string = DEFAULT_ACCOUNT_ID): Promise<{
     success: boolean;
     message: string;
+    reason?: "invalid_grant" | "invalid_client";
     status?: any;
   }> {
     try {
-      console.log("🔄 Refreshing tokens...");
+      log.info("🔄 Refreshing tokens...", { accountId });
 
-      const currentTokens = await this.getLatestTokens();
+      const currentTokens = await this.getLatestTokens(accountId);
 
       if (!currentTokens) {
         return {
           success: false,
-          message:
-            "No tokens found. Please login first using the login command",
+          message: `No tokens found for account "${accountId}". Please login first using the login command`,
         };
       }
 
       const refreshedTokens = await this.refreshTokens(
-        this.decrypt(currentTokens.refreshToken)
+        await this.decrypt(currentTokens.refreshToken),
+        accountId,
+        "cli"
       );
 
       if (refreshedTokens) {
-        const status = await this.getTokenStatus();
+        const status = await this.getTokenStatus(accountId);
         return {
           success: true,
           message: "Tokens refreshed successfully!",
@@ -584,10 +1444,26 @@ export class LightspeedTokenService {
       } else {
         return {
           success: false,
-          message: "Failed to refresh tokens - they may be expired or invalid",
+          message: "Failed to refresh tokens after retrying - Lightspeed may be unavailable, try again later",
         };
       }
     } catch (error) {
+      if (error instanceof InvalidGrantError) {
+        return {
+          success: false,
+          reason: "invalid_grant",
+          message: `Lightspeed rejected the refresh token (invalid_grant) - log in again: bun run tokens login --account ${accountId}`,
+        };
+      }
+
+      if (error instanceof InvalidClientError) {
+        return {
+          success: false,
+          reason: "invalid_client",
+          message: "Lightspeed rejected the client credentials (invalid_client) - check LIGHTSPEED_CLIENT_ID and LIGHTSPEED_CLIENT_SECRET",
+        };
+      }
+
       return {
         success: false,
         message: `Refresh failed: ${
@@ -600,32 +1476,37 @@ export class LightspeedTokenService {
   /**
    * CLI Status: Get formatted status information
    */
-  async cliStatus(): Promise<{
+  async cliStatus(accountId: string = DEFAULT_ACCOUNT_ID): Promise<{
     success: boolean;
     message: string;
     status?: any;
     formatted?: string;
   }> {
     try {
-      const status = await this.getTokenStatus();
+      const status = await this.getTokenStatus(accountId);
 
       if (!status) {
         return {
           success: false,
-          message: "No tokens found",
-          formatted: "❌ No tokens found\nUse the login command to get started",
+          message: `No tokens found for account "${accountId}"`,
+          formatted: `❌ No tokens found for account "${accountId}"\nUse the login command to get started`,
         };
       }
 
       const formatted = [
-        "📊 Token Status:",
+        `📊 Token Status (account: ${status.accountId}):`,
         `   Valid: ${status.isValid ? "✅" : "❌"}`,
         `   Expires: ${
           status.expiresAt ? status.expiresAt.toISOString() : "Unknown"
         }`,
         `   Expires in: ${status.expiresIn} minutes`,
         `   Needs refresh: ${status.needsRefresh ? "⚠️ Yes" : "✅ No"}`,
+        `   Refresh due: ${status.refreshDueAt ? status.refreshDueAt.toISOString() : "Now"}`,
+        `   Scope: ${status.scope ?? "Unknown (log in again to record it)"}`,
         `   Last updated: ${status.lastUpdated.toISOString()}`,
+        "",
+        "⚙️  Refresh policy:",
+        ...describeRefreshPolicy(this.refreshPolicy).map((line) => `   ${line}`),
       ].join("\n");
 
       let tips = "";
@@ -653,14 +1534,16 @@ export class LightspeedTokenService {
   }
 
   /**
-   * CLI Clear: Clear all tokens with confirmation
+   * CLI Clear: Clear tokens for one account, or all accounts when none is given
    */
-  async cliClear(): Promise<{ success: boolean; message: string }> {
+  async cliClear(accountId?: string): Promise<{ success: boolean; message: string }> {
     try {
-      await this.clearTokens();
+      await this.clearTokens(accountId);
       return {
         success: true,
-        message: "All tokens cleared successfully",
+        message: accountId
+          ? `Tokens for account "${accountId}" cleared successfully`
+          : "All tokens cleared successfully",
       };
     } catch (error) {
       return {
@@ -672,13 +1555,63 @@ export class LightspeedTokenService {
     }
   }
 
+  /**
+   * CLI Rotate Key: Re-encrypt all tokens under the primary key
+   */
+  async cliRotateKey(): Promise<{ success: boolean; message: string }> {
+    try {
+      const provider = this.cipher.describe();
+      const count = await this.rotateEncryptionKey();
+      return {
+        success: true,
+        message:
+          count > 0
+            ? `Re-encrypted ${count} token record(s) with provider ${provider}`
+            : `All token records already use provider ${provider}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Key rotation failed (no records were changed): ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * CLI Migrate Encryption: Upgrade legacy CBC ciphertexts to AES-256-GCM
+   */
+  async cliMigrateEncryption(): Promise<{ success: boolean; message: string }> {
+    try {
+      const count = await this.migrateEncryption();
+      return {
+        success: true,
+        message:
+          count > 0
+            ? `Upgraded ${count} token record(s) to envelope encryption`
+            : "All token records already use envelope encryption",
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Encryption migration failed (no records were changed): ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
   /**
    * Manually set tokens (for debugging, testing, or when you already have tokens)
    */
   async setTokensManually(
     accessToken: string,
     refreshToken: string,
-    expiresInMinutes?: number
+    expiresInMinutes?: number,
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    source: TokenEventSource = "cli",
+    scope?: string // Keeps the account's recorded scope when omitted
   ): Promise<LightspeedToken> {
     if (!accessToken?.trim() || !refreshToken?.trim()) {
       throw new Error("Both access token and refresh token are required");
@@ -687,35 +1620,49 @@ export class LightspeedTokenService {
     // Default to 1 hour if not specified
     const expiresIn = (expiresInMinutes || 60) * 60; // Convert minutes to seconds
 
-    console.log("🔐 Storing manually provided tokens...");
-    console.log(
-      `   Access Token (first 20 chars): ${accessToken.substring(0, 20)}...`
-    );
-    console.log(
-      `   Refresh Token (first 20 chars): ${refreshToken.substring(0, 20)}...`
+    log.info("🔐 Storing manually provided tokens...", {
+      accountId,
+      refreshTokenFingerprint: fingerprintToken(refreshToken),
+      expiresInMinutes: expiresInMinutes || 60,
+    });
+
+    const storedTokens = await this.saveTokens(
+      accessToken,
+      refreshToken,
+      expiresIn,
+      accountId,
+      scope
     );
-    console.log(`   Expires in: ${expiresInMinutes || 60} minutes`);
 
-    return await this.insertTokens(accessToken, refreshToken, expiresIn);
+    await this.eventService.record({
+      accountId,
+      type: "manual_set",
+      source,
+      message: storedTokens.scope ? `Granted scope: ${storedTokens.scope}` : undefined,
+      newTokenFingerprint: fingerprintToken(refreshToken),
+      expiresAt: storedTokens.expiresAt,
+    });
+
+    return storedTokens;
   }
 
   /**
    * CLI Show Tokens: Display decrypted tokens (use with caution)
    */
-  async cliShowTokens(): Promise<{ success: boolean; message: string; tokens?: { accessToken: string; refreshToken: string; expiresAt: Date | null } }> {
+  async cliShowTokens(accountId: string = DEFAULT_ACCOUNT_ID): Promise<{ success: boolean; message: string; tokens?: { accessToken: string; refreshToken: string; expiresAt: Date | null } }> {
     try {
-      const tokens = await this.getLatestTokens();
+      const tokens = await this.getLatestTokens(accountId);
       
       if (!tokens) {
         return {
           success: false,
-          message: "No tokens found"
+          message: `No tokens found for account "${accountId}"`
         };
       }
 
       const decryptedTokens = {
-        accessToken: this.decrypt(tokens.accessToken),
-        refreshToken: this.decrypt(tokens.refreshToken),
+        accessToken: await this.decrypt(tokens.accessToken),
+        refreshToken: await this.decrypt(tokens.refreshToken),
         expiresAt: tokens.expiresAt
       };
 
@@ -738,7 +1685,9 @@ export class LightspeedTokenService {
   async cliSetTokens(
     accessToken: string,
     refreshToken: string,
-    expiresInMinutes?: number
+    expiresInMinutes?: number,
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    scope?: string
   ): Promise<{ success: boolean; message: string; status?: any }> {
     if (!accessToken?.trim() || !refreshToken?.trim()) {
       return {
@@ -764,8 +1713,8 @@ export class LightspeedTokenService {
     }
 
     try {
-      await this.setTokensManually(accessToken, refreshToken, expiresInMinutes);
-      const status = await this.getTokenStatus();
+      await this.setTokensManually(accessToken, refreshToken, expiresInMinutes, accountId, "cli", scope);
+      const status = await this.getTokenStatus(accountId);
 
       return {
         success: true,
@@ -0,0 +1,140 @@
+import type { LightspeedToken } from "./token-service";
+import type { NewTokenEvent, TokenEvent, TokenEventFilters } from "./token-events";
+import type { Lease } from "./lease-service";
+import type { ApiConsumer } from "./consumer-service";
+import { getConfig, type AppConfig } from "./config";
+import { TokenCipher } from "./token-cipher";
+import { PrismaTokenStore } from "./stores/prisma-store";
+import { SqliteTokenStore } from "./stores/sqlite-store";
+import { FileTokenStore } from "./stores/file-store";
+import { MemoryTokenStore } from "./stores/memory-store";
+import { metrics } from "./metrics";
+
+export type NewTokenRecord = Omit<LightspeedToken, "id">;
+
+export type TokenRecordUpdate = Partial<Omit<LightspeedToken, "id" | "accountId">>;
+
+export type NewApiConsumer = Pick<ApiConsumer, "name" | "keyHash" | "keyPrefix">;
+
+export type ApiConsumerUpdate = Partial<Omit<ApiConsumer, "id" | "createdAt">>;
+
+// New ciphertexts for a record, or null to leave it untouched
+export type TokenRewrite = (
+  token: LightspeedToken
+) => Promise<Pick<LightspeedToken, "accessToken" | "refreshToken"> | null>;
+
+/**
+ * Persistence for everything the service stores: token records, their event
+ * history, cross-process leases and API consumers
+ */
+export interface TokenStore {
+  readonly name: TokenStoreName;
+
+  // Tokens
+  getLatestTokens(accountId: string): Promise<LightspeedToken | null>;
+  listAccounts(): Promise<string[]>;
+  insertTokens(record: NewTokenRecord): Promise<LightspeedToken>;
+  /**
+   * Update a record. With a fence, the update only applies while that lease is still
+   * held under its fencing token, and throws StaleLeaseError once it was taken over.
+   */
+  updateTokens(id: number, update: TokenRecordUpdate, fence?: Lease): Promise<LightspeedToken>;
+  /** Delete one account's tokens, or every account's when none is given */
+  deleteTokens(accountId?: string): Promise<number>;
+  /** Rewrite token records all-or-nothing; returns the number rewritten */
+  rewriteTokens(rewrite: TokenRewrite): Promise<number>;
+
+  // History
+  recordEvent(event: NewTokenEvent): Promise<void>;
+  listEvents(filters: TokenEventFilters): Promise<TokenEvent[]>;
+  pruneEvents(olderThan: Date): Promise<number>;
+
+  // Leases
+  acquireLease(name: string, holder: string, ttlMs: number): Promise<Lease | null>;
+  /** Extend a lease still held under the same fencing token; null once it was taken over */
+  renewLease(lease: Lease, ttlMs: number): Promise<Lease | null>;
+  releaseLease(lease: Lease): Promise<void>;
+  isLeaseHeld(name: string): Promise<boolean>;
+
+  // Consumers
+  getConsumer(name: string): Promise<ApiConsumer | null>;
+  getConsumerByKeyHash(keyHash: string): Promise<ApiConsumer | null>;
+  listConsumers(): Promise<ApiConsumer[]>;
+  createConsumer(consumer: NewApiConsumer): Promise<ApiConsumer>;
+  updateConsumer(id: number, update: ApiConsumerUpdate): Promise<ApiConsumer>;
+
+  close(): Promise<void>;
+}
+
+export type TokenStoreName = "postgres" | "sqlite" | "file" | "memory";
+
+const DEFAULT_PATHS: Record<"sqlite" | "file", string> = {
+  sqlite: "./data/tokens.sqlite",
+  file: "./data/tokens.json.enc",
+};
+
+/**
+ * Build the store selected by TOKEN_STORE (default: postgres).
+ * sqlite and file stores use TOKEN_STORE_PATH.
+ */
+export function createTokenStore(
+  settings: AppConfig["store"] = getConfig().store
+): TokenStore {
+  const name = settings.type;
+
+  switch (name) {
+    case "postgres":
+      return new PrismaTokenStore();
+
+    case "sqlite":
+      return new SqliteTokenStore(settings.path || DEFAULT_PATHS.sqlite);
+
+    case "file":
+      return new FileTokenStore(settings.path || DEFAULT_PATHS.file, TokenCipher.fromConfig());
+
+    case "memory":
+      return new MemoryTokenStore();
+
+    default:
+      throw new Error(
+        `Unknown TOKEN_STORE "${name}" (expected postgres, sqlite, file or memory)`
+      );
+  }
+}
+
+let defaultStore: TokenStore | null = null;
+
+/**
+ * Wrap a store so every rejected operation is counted in lightspeed_store_errors_total
+ */
+export function instrumentStore(store: TokenStore): TokenStore {
+  return new Proxy(store, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== "function") {
+        return value;
+      }
+
+      return (...args: unknown[]) => {
+        const result = value.apply(target, args);
+        if (result instanceof Promise) {
+          return result.catch((error: unknown) => {
+            metrics.storeErrors.inc({ store: target.name, operation: String(property) });
+            throw error;
+          });
+        }
+        return result;
+      };
+    },
+  });
+}
+
+/**
+ * Store shared by every service in this process, created from the configuration on first use
+ */
+export function getDefaultTokenStore(): TokenStore {
+  if (!defaultStore) {
+    defaultStore = instrumentStore(createTokenStore());
+  }
+  return defaultStore;
+}
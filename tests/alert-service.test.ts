@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+import { AlertService, type Alert } from "../services/alert-service";
+import { parseConfig } from "../services/config";
+import type { Notifier } from "../services/notifiers";
+import { TokenScheduler } from "../services/token-scheduler";
+import { createTestService, ManualClock } from "./helpers";
+
+class RecordingNotifier implements Notifier {
+  readonly name = "recording";
+  readonly sent: Alert[] = [];
+
+  async send(alert: Alert): Promise<void> {
+    this.sent.push(alert);
+  }
+}
+
+function createAlerts(clock = new ManualClock()) {
+  const notifier = new RecordingNotifier();
+  const alerts = new AlertService([notifier], { clock, cooldownMinutes: 60 });
+  return { alerts, notifier, clock };
+}
+
+describe("AlertService", () => {
+  test("sends a problem once per cooldown", async () => {
+    const { alerts, notifier, clock } = createAlerts();
+
+    await alerts.refreshFailed("shop", "HTTP 500");
+    clock.advanceMinutes(5);
+    await alerts.refreshFailed("shop", "HTTP 500");
+    expect(notifier.sent).toHaveLength(1);
+
+    clock.advanceMinutes(56);
+    await alerts.refreshFailed("shop", "HTTP 500");
+    expect(notifier.sent).toHaveLength(2);
+  });
+
+  test("tracks alert types and accounts separately", async () => {
+    const { alerts, notifier } = createAlerts();
+
+    await alerts.refreshFailed("shop-a", "HTTP 500");
+    await alerts.refreshFailed("shop-b", "HTTP 500");
+    await alerts.reauthRequired("shop-a", "invalid_grant");
+
+    expect(notifier.sent.map((alert) => `${alert.accountId}:${alert.type}`)).toEqual([
+      "shop-a:refresh_failure",
+      "shop-b:refresh_failure",
+      "shop-a:reauth_required",
+    ]);
+  });
+
+  test("sends one recovery alert after a problem clears", async () => {
+    const { alerts, notifier } = createAlerts();
+
+    await alerts.refreshFailed("shop", "HTTP 500");
+    await alerts.resolve("shop");
+    await alerts.resolve("shop");
+
+    expect(notifier.sent.map((alert) => alert.type)).toEqual(["refresh_failure", "recovered"]);
+    expect(notifier.sent[1].message).toContain("refresh_failure");
+  });
+
+  test("does not announce recovery for healthy accounts", async () => {
+    const { alerts, notifier } = createAlerts();
+    await alerts.resolve("shop");
+    expect(notifier.sent).toHaveLength(0);
+  });
+
+  test("alerts again right away after a recovery", async () => {
+    const { alerts, notifier } = createAlerts();
+
+    await alerts.refreshFailed("shop", "HTTP 500");
+    await alerts.resolve("shop");
+    await alerts.refreshFailed("shop", "HTTP 500");
+
+    expect(notifier.sent.map((alert) => alert.type)).toEqual([
+      "refresh_failure",
+      "recovered",
+      "refresh_failure",
+    ]);
+  });
+
+  test("keeps delivering when one notifier fails", async () => {
+    const working = new RecordingNotifier();
+    const broken: Notifier = {
+      name: "broken",
+      send: async () => {
+        throw new Error("unreachable");
+      },
+    };
+    const alerts = new AlertService([broken, working]);
+
+    await alerts.reauthRequired("shop", "invalid_grant");
+
+    expect(working.sent).toHaveLength(1);
+  });
+
+  test("reads notifiers from the configuration", () => {
+    const alertSettings = (env: NodeJS.ProcessEnv) => parseConfig(env).config.alerts;
+    const alerts = AlertService.fromConfig(
+      alertSettings({
+        ALERT_WEBHOOK_URL: "http://localhost/hook",
+        ALERT_SLACK_WEBHOOK_URL: "http://localhost/slack",
+        ALERT_SMTP_HOST: "localhost",
+        ALERT_SMTP_FROM: "tokens@example.com",
+        ALERT_SMTP_TO: "ops@example.com",
+      })
+    );
+
+    expect(alerts.notifierNames).toEqual(["webhook", "slack", "smtp"]);
+    expect(() => AlertService.fromConfig(alertSettings({ ALERT_SMTP_HOST: "localhost" }))).toThrow(/ALERT_SMTP_TO/);
+  });
+});
+
+describe("TokenScheduler alerts", () => {
+  function createAlertingScheduler() {
+    const context = createTestService();
+    const notifier = new RecordingNotifier();
+    const alerts = new AlertService([notifier], { clock: context.clock });
+    const scheduler = new TokenScheduler(context.service, alerts);
+    return { ...context, scheduler, notifier };
+  }
+
+  test("alerts on failed refreshes and imminent expiry, then on recovery", async () => {
+    const { scheduler, service, clock, endpoint, notifier } = createAlertingScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advanceMinutes(56);
+
+    for (let i = 0; i < 4; i++) {
+      endpoint.respondWithError(503);
+    }
+    await scheduler.checkAndRefreshTokens();
+
+    expect(notifier.sent.map((alert) => alert.type)).toEqual([
+      "refresh_failure",
+      "expiring_soon",
+    ]);
+
+    await scheduler.checkAndRefreshTokens();
+    expect(notifier.sent.map((alert) => alert.type)).toEqual([
+      "refresh_failure",
+      "expiring_soon",
+      "recovered",
+    ]);
+  });
+
+  test("asks for re-authorization when the refresh token is rejected", async () => {
+    const { scheduler, service, clock, endpoint, notifier } = createAlertingScheduler();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+    clock.advanceMinutes(55);
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+
+    await scheduler.checkAndRefreshTokens();
+    await scheduler.checkAndRefreshTokens();
+
+    expect(notifier.sent).toHaveLength(1);
+    expect(notifier.sent[0]).toMatchObject({
+      type: "reauth_required",
+      severity: "critical",
+      accountId: "shop",
+    });
+    expect(notifier.sent[0].message).toContain("tokens login --account shop");
+  });
+});
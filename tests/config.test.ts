@@ -0,0 +1,211 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ConfigError,
+  describeConfig,
+  getLightspeedCredentials,
+  lightspeedCredentialProblems,
+  maskSetting,
+  parseConfig,
+  resolveEnvironment,
+} from "../services/config";
+
+const dir = mkdtempSync(join(tmpdir(), "config-test-"));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeFile(name: string, contents: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, contents);
+  return path;
+}
+
+// Smallest environment that passes validation
+const VALID_ENV: NodeJS.ProcessEnv = {
+  LIGHTSPEED_CLIENT_ID: "client",
+  LIGHTSPEED_CLIENT_SECRET: "secret",
+  TOKEN_STORE: "memory",
+  TOKEN_ENCRYPTION_KEY: "11".repeat(32),
+};
+
+describe("resolveEnvironment", () => {
+  test("merges a YAML config file under the environment", () => {
+    const configFile = writeFile("config.yaml", "PORT: 8080\nHOST: 127.0.0.1\nLOG_LEVEL: debug\n");
+
+    const { env, sources, problems } = resolveEnvironment({ CONFIG_FILE: configFile, PORT: "9090" });
+
+    expect(problems).toEqual([]);
+    expect(env).toMatchObject({ PORT: "9090", HOST: "127.0.0.1", LOG_LEVEL: "debug" });
+    expect(sources).toMatchObject({ PORT: "env", HOST: "config file" });
+  });
+
+  test("reads JSON config files", () => {
+    const configFile = writeFile("config.json", JSON.stringify({ TOKEN_STORE: "sqlite", PORT: 3001 }));
+
+    expect(resolveEnvironment({ CONFIG_FILE: configFile }).env).toMatchObject({
+      TOKEN_STORE: "sqlite",
+      PORT: "3001",
+    });
+  });
+
+  test("reads secrets from *_FILE without the trailing newline", () => {
+    const secretFile = writeFile("client_secret", "from-file\n");
+
+    const { env, sources } = resolveEnvironment({ LIGHTSPEED_CLIENT_SECRET_FILE: secretFile });
+
+    expect(env.LIGHTSPEED_CLIENT_SECRET).toBe("from-file");
+    expect(sources.LIGHTSPEED_CLIENT_SECRET).toBe("LIGHTSPEED_CLIENT_SECRET_FILE");
+  });
+
+  test("reports conflicting and unreadable sources", () => {
+    const { problems } = resolveEnvironment({
+      CONFIG_FILE: join(dir, "missing.yaml"),
+      METRICS_TOKEN: "inline",
+      METRICS_TOKEN_FILE: writeFile("metrics_token", "from-file"),
+      DATABASE_URL_FILE: join(dir, "missing"),
+    });
+
+    expect(problems).toHaveLength(3);
+    expect(problems.join("\n")).toContain("Set either METRICS_TOKEN or METRICS_TOKEN_FILE");
+  });
+
+  test("reads the encryption key from TOKEN_ENCRYPTION_KEY_FILE", () => {
+    const keyFile = writeFile("master.key", "22".repeat(32) + "\n");
+    const { TOKEN_ENCRYPTION_KEY: _key, ...env } = VALID_ENV;
+
+    const { config, problems } = parseConfig(
+      resolveEnvironment({ ...env, TOKEN_ENCRYPTION_KEY_FILE: keyFile }).env
+    );
+
+    expect(problems).toEqual([]);
+    expect(config.encryption).toMatchObject({ provider: "env", key: "22".repeat(32), keyFile: null });
+  });
+
+  test("reads the file provider's key file from TOKEN_ENCRYPTION_KEY_FILE_PATH", () => {
+    const keyFile = writeFile("keyring", `primary:${"33".repeat(32)}\n`);
+    const { TOKEN_ENCRYPTION_KEY: _key, ...env } = VALID_ENV;
+
+    const { config, problems } = parseConfig({
+      ...env,
+      TOKEN_ENCRYPTION_PROVIDER: "file",
+      TOKEN_ENCRYPTION_KEY_FILE_PATH: keyFile,
+    });
+
+    expect(problems).toEqual([]);
+    expect(config.encryption).toMatchObject({ provider: "file", keyFile });
+  });
+});
+
+describe("parseConfig", () => {
+  test("builds typed settings with defaults", () => {
+    const { config, problems } = parseConfig({ ...VALID_ENV, PORT: "8080" });
+
+    expect(problems).toEqual([]);
+    expect(config.server).toEqual({ port: 8080, host: "0.0.0.0" });
+    expect(config.lightspeed).toMatchObject({
+      clientId: "client",
+      redirectUri: "https://localhost:3000/auth/callback",
+      oauthBaseUrl: "https://cloud.lightspeedapp.com",
+      callbackTls: null,
+    });
+    expect(config.store.type).toBe("memory");
+  });
+
+  test("reports every problem at once", () => {
+    const { config, problems } = parseConfig({
+      PORT: "http",
+      TOKEN_STORE: "postgres",
+      TOKEN_ENCRYPTION_KEY: "not-hex",
+      LOG_LEVEL: "verbose",
+      OAUTH_CALLBACK_TLS_CERT: "/tls/cert.pem",
+      ALERT_SMTP_HOST: "smtp.example.com",
+      ALERT_COOLDOWN_MINUTES: "-5",
+    });
+
+    const report = [...problems, ...lightspeedCredentialProblems(config)].join("\n");
+    for (const expected of [
+      "PORT",
+      "LIGHTSPEED_CLIENT_ID is required",
+      "LIGHTSPEED_CLIENT_SECRET is required",
+      "DATABASE_URL is required",
+      "TOKEN_ENCRYPTION_PROVIDER=env",
+      "LOG_LEVEL",
+      "OAUTH_CALLBACK_TLS_KEY",
+      "ALERT_SMTP_FROM",
+      "ALERT_COOLDOWN_MINUTES",
+    ]) {
+      expect(report).toContain(expected);
+    }
+  });
+
+  test("does not require client credentials until Lightspeed is called", () => {
+    const { config, problems } = parseConfig({ TOKEN_STORE: "memory", TOKEN_ENCRYPTION_KEY: "11".repeat(32) });
+
+    expect(problems).toEqual([]);
+    expect(lightspeedCredentialProblems(config)).toEqual([
+      "LIGHTSPEED_CLIENT_ID is required",
+      "LIGHTSPEED_CLIENT_SECRET is required",
+    ]);
+    expect(() => getLightspeedCredentials(config)).toThrow(ConfigError);
+    expect(getLightspeedCredentials(parseConfig(VALID_ENV).config)).toEqual({
+      clientId: "client",
+      clientSecret: "secret",
+    });
+  });
+
+  test("carries the settings other modules need", () => {
+    const { config } = parseConfig({
+      ...VALID_ENV,
+      LIGHTSPEED_OAUTH_BASE_URL: "http://localhost:8300/",
+      TOKEN_ENCRYPTION_PRIMARY_KEY_ID: "default",
+      ALERT_SMTP_HOST: "smtp.example.com",
+      ALERT_SMTP_FROM: "tokens@example.com",
+      ALERT_SMTP_TO: "ops@example.com, oncall@example.com",
+      METRICS_TOKEN: "metrics-token-123",
+    });
+
+    expect(config.lightspeed.oauthBaseUrl).toBe("http://localhost:8300");
+    expect(config.encryption).toMatchObject({ provider: "env", key: "11".repeat(32), primaryKeyId: "default" });
+    expect(config.alerts).toMatchObject({
+      webhook: null,
+      smtp: { host: "smtp.example.com", port: 587, startTls: true, to: ["ops@example.com", "oncall@example.com"] },
+      cooldownMinutes: 60,
+      expiryThresholdMinutes: 5,
+    });
+    expect(config.logging.secrets).toEqual(expect.arrayContaining(["secret", "metrics-token-123"]));
+  });
+});
+
+describe("config check output", () => {
+  test("masks secrets and credentials in URLs", () => {
+    expect(maskSetting("LIGHTSPEED_CLIENT_SECRET", "abcdef")).toBe("**** (6 chars)");
+    expect(maskSetting("DATABASE_URL", "postgresql://app:hunter2@db:5432/tokens")).toBe(
+      "postgresql://app:****@db:5432/tokens"
+    );
+    expect(maskSetting("ALERT_SLACK_WEBHOOK_URL", "https://hooks.slack.com/services/T0/B0/x")).toBe(
+      "https://hooks.slack.com/****"
+    );
+    expect(maskSetting("HOST", "127.0.0.1")).toBe("127.0.0.1");
+  });
+
+  test("lists each setting with its source", () => {
+    const entries = describeConfig(resolveEnvironment(VALID_ENV));
+
+    expect(entries.find((entry) => entry.name === "PORT")).toMatchObject({
+      value: "3000",
+      source: "default",
+    });
+    expect(entries.find((entry) => entry.name === "TOKEN_ENCRYPTION_KEY")).toMatchObject({
+      value: "**** (64 chars)",
+      source: "env",
+    });
+    expect(entries.find((entry) => entry.name === "METRICS_TOKEN")).toMatchObject({
+      value: null,
+      source: null,
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import crypto from "crypto";
+import { DecryptionError, Keyring } from "../services/encryption";
+import { createTestCipher, TEST_KEY_HEX } from "./helpers";
+
+const OTHER_KEY_HEX = "33".repeat(32);
+
+function keyring(entries: Record<string, string>, primaryKeyId?: string): Keyring {
+  return new Keyring(
+    Object.entries(entries).map(([id, hex]) => ({ id, key: Buffer.from(hex, "hex") })),
+    primaryKeyId
+  );
+}
+
+/**
+ * Flip one hex digit of the last segment of a ciphertext
+ */
+function tamper(encrypted: string): string {
+  const last = encrypted.at(-1) === "0" ? "1" : "0";
+  return encrypted.slice(0, -1) + last;
+}
+
+describe("Keyring", () => {
+  test("round-trips values under the primary key", () => {
+    const ring = keyring({ k1: TEST_KEY_HEX });
+    const encrypted = ring.encrypt("secret-token");
+
+    expect(encrypted.startsWith("v2:k1:")).toBe(true);
+    expect(ring.decrypt(encrypted)).toBe("secret-token");
+  });
+
+  test("uses a fresh IV for every value", () => {
+    const ring = keyring({ k1: TEST_KEY_HEX });
+    expect(ring.encrypt("same")).not.toBe(ring.encrypt("same"));
+  });
+
+  test("rejects a value encrypted with a different key", () => {
+    const encrypted = keyring({ k1: TEST_KEY_HEX }).encrypt("secret");
+    expect(() => keyring({ k1: OTHER_KEY_HEX }).decrypt(encrypted)).toThrow(DecryptionError);
+  });
+
+  test("names a missing key id", () => {
+    const encrypted = keyring({ old: TEST_KEY_HEX }).encrypt("secret");
+    expect(() => keyring({ new: OTHER_KEY_HEX }).decrypt(encrypted)).toThrow(/"old"/);
+  });
+
+  test("rejects tampered ciphertext", () => {
+    const ring = keyring({ k1: TEST_KEY_HEX });
+    expect(() => ring.decrypt(tamper(ring.encrypt("secret")))).toThrow(DecryptionError);
+  });
+
+  test("rejects unrecognized formats", () => {
+    expect(() => keyring({ k1: TEST_KEY_HEX }).decrypt("not-encrypted")).toThrow(DecryptionError);
+  });
+
+  test("refuses keys that are not 32 bytes", () => {
+    expect(() => Keyring.parseKeyEntries(["short:abcd"])).toThrow(/expected 32 bytes/);
+  });
+
+  test("reads legacy CBC values written before key ids", () => {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv("aes-256-cbc", Buffer.from(TEST_KEY_HEX, "hex"), iv);
+    const legacy = `${iv.toString("hex")}:${cipher.update("legacy", "utf8", "hex")}${cipher.final("hex")}`;
+
+    const ring = keyring({ default: TEST_KEY_HEX });
+    expect(ring.decrypt(legacy)).toBe("legacy");
+    expect(ring.needsReencryption(legacy)).toBe(true);
+  });
+
+  test("keeps old keys readable after rotation", () => {
+    const encrypted = keyring({ k1: TEST_KEY_HEX }).encrypt("secret");
+    const rotated = keyring({ k1: TEST_KEY_HEX, k2: OTHER_KEY_HEX }, "k2");
+
+    expect(rotated.decrypt(encrypted)).toBe("secret");
+    expect(rotated.needsReencryption(encrypted)).toBe(true);
+    expect(rotated.needsReencryption(rotated.encrypt("secret"))).toBe(false);
+  });
+});
+
+describe("TokenCipher", () => {
+  test("round-trips values with envelope encryption", async () => {
+    const cipher = createTestCipher();
+    const encrypted = await cipher.encrypt("secret-token");
+
+    expect(encrypted.startsWith("v3:env:")).toBe(true);
+    expect(await cipher.decrypt(encrypted)).toBe("secret-token");
+    expect(cipher.needsReencryption(encrypted)).toBe(false);
+  });
+
+  test("rejects values wrapped under a different master key", async () => {
+    const encrypted = await createTestCipher(TEST_KEY_HEX, "k1").encrypt("secret");
+
+    await expect(createTestCipher(OTHER_KEY_HEX, "k1").decrypt(encrypted)).rejects.toBeInstanceOf(
+      DecryptionError
+    );
+  });
+
+  test("rejects tampered ciphertext", async () => {
+    const cipher = createTestCipher();
+    const encrypted = await cipher.encrypt("secret");
+
+    await expect(cipher.decrypt(tamper(encrypted))).rejects.toBeInstanceOf(DecryptionError);
+  });
+
+  test("still reads values written directly with the keyring", async () => {
+    const cipher = createTestCipher(TEST_KEY_HEX, "test");
+    const direct = keyring({ test: TEST_KEY_HEX }).encrypt("older");
+
+    expect(await cipher.decrypt(direct)).toBe("older");
+    expect(cipher.isLegacyFormat(direct)).toBe(true);
+  });
+});
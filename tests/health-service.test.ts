@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { AlertService } from "../services/alert-service";
+import { ConsumerService } from "../services/consumer-service";
+import { HealthService, type HealthReport } from "../services/health-service";
+import { LeaderElection } from "../services/leader-election";
+import { LightspeedProxy } from "../services/lightspeed-proxy";
+import { TokenApi } from "../services/token-api";
+import { TokenScheduler } from "../services/token-scheduler";
+import { LightspeedTokenService } from "../services/token-service";
+import { ManualTimers, createTestCipher, createTestService } from "./helpers";
+
+const schedulers: TokenScheduler[] = [];
+
+afterEach(async () => {
+  await Promise.all(schedulers.splice(0).map((scheduler) => scheduler.stopAll()));
+});
+
+function createApi() {
+  const context = createTestService();
+  const scheduler = new TokenScheduler(context.service, new AlertService([]), {
+    clock: context.clock,
+    timers: new ManualTimers(),
+    election: new LeaderElection(context.store, {
+      leaseTtlMs: 30 * 1000,
+      heartbeatMs: 10 * 1000,
+      timers: new ManualTimers(),
+    }),
+  });
+  schedulers.push(scheduler);
+
+  const api = new TokenApi(
+    context.service,
+    new ConsumerService(context.store),
+    undefined,
+    new LightspeedProxy(context.service),
+    new HealthService(context.service, scheduler, context.clock)
+  );
+  return { ...context, api, scheduler };
+}
+
+async function probe(api: TokenApi, path: string): Promise<{ status: number; body: HealthReport }> {
+  const response = await api.handleRequest(new Request(`http://localhost${path}`));
+  return { status: response.status, body: await response.json() };
+}
+
+describe("GET /healthz", () => {
+  test("fails until the scheduler is started, without an API key", async () => {
+    const { api, scheduler } = createApi();
+
+    const stopped = await probe(api, "/healthz");
+    expect(stopped.status).toBe(503);
+    expect(stopped.body.checks.scheduler).toMatchObject({ status: "fail", message: "Scheduler is not running" });
+
+    scheduler.startAll();
+    await Bun.sleep(1);
+
+    const running = await probe(api, "/healthz");
+    expect(running.status).toBe(200);
+    expect(running.body).toMatchObject({
+      status: "ok",
+      checks: {
+        process: { status: "ok", pid: process.pid },
+        scheduler: { status: "ok", role: "leader", refreshSchedulerRunning: true },
+      },
+    });
+  });
+
+  test("fails when the leader's schedulers have died", async () => {
+    const { api, scheduler } = createApi();
+    scheduler.startAll();
+    await Bun.sleep(1);
+
+    scheduler.stopRefreshScheduler();
+
+    const { status, body } = await probe(api, "/healthz");
+    expect(status).toBe(503);
+    expect(body.checks.scheduler.message).toBe("Scheduler leader has stopped its schedulers");
+  });
+
+  test("fails when the leader has not run its refresh check for several polls", async () => {
+    const { api, scheduler, clock } = createApi();
+    scheduler.startAll();
+    await Bun.sleep(1);
+
+    clock.advanceMinutes(45); // Three 15-minute polls
+    expect((await probe(api, "/healthz")).status).toBe(200);
+
+    clock.advanceMinutes(1);
+    const { status, body } = await probe(api, "/healthz");
+    expect(status).toBe(503);
+    expect(body.checks.scheduler.message).toBe(
+      "Scheduler leader has not run its refresh check since 2026-01-01T00:00:00.000Z (expected every 15m)"
+    );
+
+    await scheduler.runOneTimeRefreshCheck();
+    expect((await probe(api, "/healthz")).status).toBe(200);
+  });
+});
+
+describe("GET /readyz", () => {
+  test("is ready when every account has unexpired tokens", async () => {
+    const { api, service } = createApi();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+
+    const { status, body } = await probe(api, "/readyz");
+
+    expect(status).toBe(200);
+    expect(body.checks).toMatchObject({
+      database: { status: "ok" },
+      encryption: { status: "ok" },
+      tokens: { status: "ok", accounts: { shop: { valid: true, expiresInMinutes: 60 } } },
+    });
+  });
+
+  test("keeps a fresh install live but not ready until the first login", async () => {
+    const { api, scheduler } = createApi();
+    scheduler.startAll();
+    await Bun.sleep(1);
+
+    const ready = await probe(api, "/readyz");
+
+    expect((await probe(api, "/healthz")).status).toBe(200);
+    expect(ready.status).toBe(503);
+    expect(ready.body.checks.tokens).toMatchObject({
+      status: "fail",
+      message: expect.stringContaining("not ready until the first login"),
+    });
+  });
+
+  test("is not ready without tokens or with expired ones", async () => {
+    const { api, service, clock } = createApi();
+
+    expect((await probe(api, "/readyz")).body.checks.tokens.message).toContain("No tokens stored");
+
+    await service.saveTokens("access", "refresh", 3600, "shop");
+    clock.advanceMinutes(61);
+
+    const { status, body } = await probe(api, "/readyz");
+    expect(status).toBe(503);
+    expect(body.checks.tokens).toMatchObject({ status: "fail", message: 'Tokens expired for "shop"' });
+  });
+
+  test("reuses a recent encryption check instead of verifying on every probe", async () => {
+    const { api, service, clock } = createApi();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+    let verifications = 0;
+    const verifyEncryption = service.verifyEncryption.bind(service);
+    service.verifyEncryption = async () => {
+      verifications++;
+      await verifyEncryption();
+    };
+
+    await probe(api, "/readyz");
+    clock.advanceMinutes(4);
+    const cached = await probe(api, "/readyz");
+    expect(verifications).toBe(1);
+    expect(cached.body.checks.encryption).toMatchObject({ status: "ok", checkedAt: "2026-01-01T00:00:00.000Z" });
+
+    clock.advanceMinutes(1);
+    await probe(api, "/readyz");
+    expect(verifications).toBe(2);
+  });
+
+  test("reports an unreachable store and a wrong encryption key", async () => {
+    const { api, service, store } = createApi();
+    await service.saveTokens("access", "refresh", 3600);
+
+    // Same store read with a different master key
+    const wrongKey = new LightspeedTokenService({ store, cipher: createTestCipher("33".repeat(32)) });
+    const wrongKeyReport = await new HealthService(wrongKey).readiness();
+    expect(wrongKeyReport.checks.encryption.status).toBe("fail");
+
+    store.listAccounts = async () => {
+      throw new Error("connection refused");
+    };
+    const { status, body } = await probe(api, "/readyz");
+    expect(status).toBe(503);
+    expect(body.checks.database).toMatchObject({ status: "fail", message: "Token store is unreachable: connection refused" });
+  });
+});
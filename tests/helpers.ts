@@ -0,0 +1,175 @@
+import { Keyring } from "../services/encryption";
+import { KeyringProvider } from "../services/encryption-providers";
+import { TokenCipher } from "../services/token-cipher";
+import { MemoryTokenStore } from "../services/stores/memory-store";
+import {
+  LightspeedTokenService,
+  type FetchFunction,
+  type LightspeedTokenResponse,
+} from "../services/token-service";
+import type { Clock, Timers } from "../services/clock";
+
+export const TEST_KEY_HEX = "22".repeat(32);
+
+/**
+ * Clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date("2026-01-01T00:00:00Z")) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+
+  advanceMinutes(minutes: number): void {
+    this.advance(minutes * 60 * 1000);
+  }
+}
+
+/**
+ * Timers that only fire when told to; each timer records its delay
+ */
+export class ManualTimers implements Timers {
+  private pending = new Map<number, { callback: () => void; ms: number }>();
+  private nextId = 1;
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.pending.set(id, { callback, ms });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.pending.delete(handle as number);
+  }
+
+  /**
+   * Delays of the timers that have not fired or been cleared
+   */
+  delays(): number[] {
+    return [...this.pending.values()].map((timer) => timer.ms);
+  }
+
+  /**
+   * Fire every pending timer
+   */
+  fireAll(): void {
+    const due = [...this.pending.values()];
+    this.pending.clear();
+    for (const timer of due) {
+      timer.callback();
+    }
+  }
+}
+
+/**
+ * Cipher with a fixed in-memory master key
+ */
+export function createTestCipher(hexKey: string = TEST_KEY_HEX, keyId = "test"): TokenCipher {
+  const keyring = new Keyring([{ id: keyId, key: Buffer.from(hexKey, "hex") }]);
+  return new TokenCipher(new KeyringProvider("env", keyring), {});
+}
+
+/**
+ * Stand-in for the Lightspeed token endpoint. Records every request body and
+ * answers from a queue of responses, issuing fresh tokens once the queue is empty.
+ */
+export class FakeTokenEndpoint {
+  readonly requests: Record<string, string>[] = [];
+  private readonly queue: (() => Response)[] = [];
+  private issued = 0;
+
+  readonly fetch: FetchFunction = async (_input, init) => {
+    this.requests.push(JSON.parse(String(init?.body ?? "{}")));
+    const next = this.queue.shift();
+    return next ? next() : this.tokensResponse();
+  };
+
+  /**
+   * Queue a successful response; unspecified fields get fresh values
+   */
+  respondWithTokens(tokens: Partial<LightspeedTokenResponse> = {}): void {
+    this.queue.push(() => this.tokensResponse(tokens));
+  }
+
+  /**
+   * Queue an error response
+   */
+  respondWithError(
+    status: number,
+    body: unknown = { error: "server_error" },
+    headers: Record<string, string> = {}
+  ): void {
+    this.queue.push(
+      () =>
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": "application/json", ...headers },
+        })
+    );
+  }
+
+  /**
+   * Queue a response with a raw body, e.g. an HTML page from a proxy
+   */
+  respondWithText(status: number, text: string): void {
+    this.queue.push(() => new Response(text, { status, headers: { "Content-Type": "text/html" } }));
+  }
+
+  /**
+   * Queue a network failure
+   */
+  failWithNetworkError(message = "connect ECONNREFUSED"): void {
+    this.queue.push(() => {
+      throw new TypeError(message);
+    });
+  }
+
+  private tokensResponse(tokens: Partial<LightspeedTokenResponse> = {}): Response {
+    this.issued++;
+    return Response.json({
+      access_token: `access-${this.issued}`,
+      refresh_token: `refresh-${this.issued}`,
+      expires_in: 3600,
+      ...tokens,
+    });
+  }
+}
+
+/**
+ * Token service wired to an in-memory store, manual clock and fake endpoint
+ */
+export function createTestService() {
+  const store = new MemoryTokenStore();
+  const clock = new ManualClock();
+  const endpoint = new FakeTokenEndpoint();
+  const sleeps: number[] = []; // Backoff delays requested, in ms
+  const service = new LightspeedTokenService({
+    store,
+    clock,
+    // Lease polls move the clock on and fire straight away
+    timers: {
+      setTimeout: (callback, ms) => {
+        clock.advance(ms);
+        queueMicrotask(callback);
+      },
+      clearTimeout: () => {},
+    },
+    fetch: endpoint.fetch,
+    cipher: createTestCipher(),
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    random: () => 0.5,
+  });
+
+  return { service, store, clock, endpoint, sleeps };
+}
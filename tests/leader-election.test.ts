@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { AlertService } from "../services/alert-service";
+import { LeaderElection } from "../services/leader-election";
+import { metrics } from "../services/metrics";
+import { TokenScheduler } from "../services/token-scheduler";
+import { MemoryTokenStore } from "../services/stores/memory-store";
+import { ManualTimers, createTestService } from "./helpers";
+
+const LEASE_TTL_MS = 30;
+
+const started: { stop(): Promise<void> }[] = [];
+
+afterEach(async () => {
+  await Promise.all(started.splice(0).map((replica) => replica.stop()));
+});
+
+/**
+ * One replica's election; heartbeats only run when its timers are fired
+ */
+function createReplica(store: MemoryTokenStore, holderId: string) {
+  const timers = new ManualTimers();
+  const election = new LeaderElection(store, {
+    leaseTtlMs: LEASE_TTL_MS,
+    heartbeatMs: 10,
+    holderId,
+    timers,
+  });
+  started.push(election);
+  return { election, timers };
+}
+
+async function heartbeat(replica: { timers: ManualTimers }): Promise<void> {
+  replica.timers.fireAll();
+  await Bun.sleep(1);
+}
+
+describe("LeaderElection", () => {
+  test("elects exactly one leader among replicas", async () => {
+    const store = new MemoryTokenStore();
+    const a = createReplica(store, "replica-a");
+    const b = createReplica(store, "replica-b");
+
+    await a.election.start();
+    expect(metrics.schedulerLeader.get()).toBe(1);
+    await b.election.start();
+
+    expect(a.election.status()).toMatchObject({ role: "leader", holderId: "replica-a", fencingToken: 1 });
+    expect(b.election.status()).toMatchObject({ role: "follower", fencingToken: null });
+  });
+
+  test("keeps the lease while the leader heartbeats", async () => {
+    const store = new MemoryTokenStore();
+    const a = createReplica(store, "replica-a");
+    const b = createReplica(store, "replica-b");
+    await a.election.start();
+    await b.election.start();
+
+    for (let i = 0; i < 4; i++) {
+      await Bun.sleep(LEASE_TTL_MS / 2);
+      await heartbeat(a);
+      await heartbeat(b);
+    }
+
+    expect(a.election.isLeader).toBe(true);
+    expect(b.election.isLeader).toBe(false);
+  });
+
+  test("a follower takes over once the leader's lease expires", async () => {
+    const store = new MemoryTokenStore();
+    const a = createReplica(store, "replica-a");
+    const b = createReplica(store, "replica-b");
+    await a.election.start();
+    await b.election.start();
+
+    await Bun.sleep(LEASE_TTL_MS + 5); // The leader stalls and misses its heartbeats
+    await heartbeat(b);
+
+    expect(b.election.status()).toMatchObject({ role: "leader", fencingToken: 2 });
+
+    // The old leader's fencing token is stale, so it steps down instead of acting
+    expect(await a.election.confirm()).toBe(false);
+    expect(a.election.status().role).toBe("follower");
+  });
+
+  test("stopping hands the lease to a follower at its next heartbeat", async () => {
+    const store = new MemoryTokenStore();
+    const a = createReplica(store, "replica-a");
+    const b = createReplica(store, "replica-b");
+    await a.election.start();
+    await b.election.start();
+
+    await a.election.stop();
+    await heartbeat(b);
+
+    expect(b.election.isLeader).toBe(true);
+  });
+
+  test("steps down when the lease cannot be renewed before it expires", async () => {
+    const store = new MemoryTokenStore();
+    const a = createReplica(store, "replica-a");
+    await a.election.start();
+    store.renewLease = async () => {
+      throw new Error("connection refused");
+    };
+
+    await heartbeat(a);
+    expect(a.election.isLeader).toBe(true); // One failed renewal is tolerated
+
+    await Bun.sleep(LEASE_TTL_MS);
+    await heartbeat(a);
+    expect(a.election.isLeader).toBe(false);
+  });
+});
+
+describe("TokenScheduler with leader election", () => {
+  function createScheduler(store: MemoryTokenStore, holderId: string) {
+    const context = createTestService();
+    const replica = createReplica(store, holderId);
+    const scheduler = new TokenScheduler(context.service, new AlertService([]), {
+      clock: context.clock,
+      timers: new ManualTimers(),
+      election: replica.election,
+    });
+    started.push({ stop: () => scheduler.stopAll() });
+    return { scheduler, replica };
+  }
+
+  test("only the leader runs the schedulers", async () => {
+    const store = new MemoryTokenStore();
+    const { scheduler: leader } = createScheduler(store, "replica-a");
+    const { scheduler: follower } = createScheduler(store, "replica-b");
+
+    leader.startAll();
+    await Bun.sleep(1);
+    follower.startAll();
+    await Bun.sleep(1);
+
+    expect(leader.getSchedulerStatus()).toMatchObject({
+      refreshSchedulerRunning: true,
+      healthCheckSchedulerRunning: true,
+      leadership: { role: "leader", holderId: "replica-a" },
+    });
+    expect(follower.getSchedulerStatus()).toMatchObject({
+      refreshSchedulerRunning: false,
+      healthCheckSchedulerRunning: false,
+      leadership: { role: "follower", holderId: "replica-b" },
+    });
+  });
+
+  test("stops the schedulers when leadership is lost", async () => {
+    const store = new MemoryTokenStore();
+    const { scheduler, replica } = createScheduler(store, "replica-a");
+    scheduler.startAll();
+    await Bun.sleep(1);
+    expect(scheduler.getSchedulerStatus().refreshSchedulerRunning).toBe(true);
+
+    await Bun.sleep(LEASE_TTL_MS + 5);
+    await store.acquireLease("scheduler-leader", "replica-b", 60 * 1000);
+    await heartbeat(replica);
+
+    expect(scheduler.getSchedulerStatus()).toMatchObject({
+      refreshSchedulerRunning: false,
+      leadership: { role: "follower" },
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, expect, test } from "bun:test";
+import {
+  LeakyBucket,
+  LightspeedApiError,
+  LightspeedClient,
+  TokenServiceError,
+} from "../client";
+import { ConsumerService } from "../services/consumer-service";
+import { TokenApi } from "../services/token-api";
+import { createTestService } from "./helpers";
+
+const TOKEN_SERVICE = "http://tokens.test";
+const API = "https://api.lightspeedapp.com";
+
+/**
+ * Fake clock whose sleep() advances time instead of waiting
+ */
+function createTime() {
+  const time = { now: 0, slept: [] as number[] };
+  return {
+    time,
+    now: () => time.now,
+    sleep: async (ms: number) => {
+      time.slept.push(ms);
+      time.now += ms;
+    },
+  };
+}
+
+/**
+ * Fake token service and Lightspeed API behind one fetch function
+ */
+function createBackend() {
+  const calls: { url: string; method: string; authorization: string | null }[] = [];
+  let tokensIssued = 0;
+  const apiResponses: (() => Response)[] = [];
+
+  const fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    const headers = new Headers(init?.headers);
+    calls.push({ url, method: init?.method ?? "GET", authorization: headers.get("authorization") });
+
+    if (url.startsWith(TOKEN_SERVICE)) {
+      tokensIssued++;
+      return Response.json({
+        accountId: "default",
+        accessToken: `access-${tokensIssued}`,
+        tokenType: "Bearer",
+        expiresAt: new Date(3600 * 1000).toISOString(),
+        expiresIn: 3600,
+        scope: "employee:all",
+      });
+    }
+
+    return apiResponses.shift()?.() ?? Response.json({ ok: true });
+  };
+
+  return {
+    fetch,
+    calls,
+    apiCalls: () => calls.filter((call) => call.url.startsWith(API)),
+    tokenCalls: () => calls.filter((call) => call.url.startsWith(TOKEN_SERVICE)),
+    respond: (response: () => Response) => apiResponses.push(response),
+  };
+}
+
+function createClient() {
+  const clock = createTime();
+  const backend = createBackend();
+  const client = new LightspeedClient({
+    accountId: 42,
+    tokenServiceUrl: TOKEN_SERVICE,
+    apiKey: "consumer-key",
+    scopes: ["employee:inventory"],
+    fetch: backend.fetch,
+    now: clock.now,
+    sleep: clock.sleep,
+  });
+  return { client, backend, ...clock };
+}
+
+describe("LightspeedClient tokens", () => {
+  test("fetches a token once and reuses it until shortly before expiry", async () => {
+    const { client, backend, time } = createClient();
+
+    await client.get("Item.json");
+    await client.get("Item.json");
+    time.now = 3600 * 1000 - 30 * 1000; // Inside the refresh margin
+    await client.get("Item.json");
+
+    expect(backend.tokenCalls()).toHaveLength(2);
+    expect(backend.tokenCalls()[0]).toMatchObject({
+      url: `${TOKEN_SERVICE}/v1/token?account=default&scope=employee%3Ainventory`,
+      authorization: "Bearer consumer-key",
+    });
+    expect(backend.apiCalls().map((call) => call.authorization)).toEqual([
+      "Bearer access-1",
+      "Bearer access-1",
+      "Bearer access-2",
+    ]);
+  });
+
+  test("fetches a new token and retries once after a 401", async () => {
+    const { client, backend } = createClient();
+    backend.respond(() => new Response("", { status: 401 }));
+
+    await client.get("Item.json");
+
+    expect(backend.apiCalls().map((call) => call.authorization)).toEqual([
+      "Bearer access-1",
+      "Bearer access-2",
+    ]);
+  });
+
+  test("has the token service replace a token Lightspeed rejected before it expires", async () => {
+    const context = createTestService();
+    const consumers = new ConsumerService(context.store, context.clock);
+    const { apiKey } = await consumers.createConsumer("client");
+    const api = new TokenApi(context.service, consumers, undefined);
+    await context.service.saveTokens("revoked-access", "refresh", 3600);
+    context.endpoint.respondWithTokens({ access_token: "fresh-access" });
+
+    const sent: string[] = [];
+    const client = new LightspeedClient({
+      accountId: 42,
+      tokenServiceUrl: TOKEN_SERVICE,
+      apiKey,
+      fetch: async (input, init) => {
+        if (String(input).startsWith(TOKEN_SERVICE)) {
+          return await api.handleRequest(new Request(input, init));
+        }
+        const authorization = new Headers(init?.headers).get("authorization")!;
+        sent.push(authorization);
+        return authorization === "Bearer revoked-access"
+          ? new Response("", { status: 401 })
+          : Response.json({ ok: true });
+      },
+    });
+
+    expect(await client.get<{ ok: boolean }>("Item.json")).toEqual({ ok: true });
+    expect(sent).toEqual(["Bearer revoked-access", "Bearer fresh-access"]);
+    expect(context.endpoint.requests).toHaveLength(1);
+  });
+
+  test("surfaces token service errors", async () => {
+    const client = new LightspeedClient({
+      accountId: 42,
+      tokenServiceUrl: TOKEN_SERVICE,
+      apiKey: "consumer-key",
+      fetch: async () =>
+        Response.json({ error: "reauth_required", message: "Run the login command again" }, { status: 503 }),
+    });
+
+    const error = await client.get("Item.json").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(TokenServiceError);
+    expect(error).toMatchObject({ status: 503, code: "reauth_required" });
+  });
+});
+
+describe("LightspeedClient requests", () => {
+  test("builds account URLs and sends JSON bodies", async () => {
+    const { client, backend } = createClient();
+
+    await client.put("Item/7.json", { description: "Widget" });
+
+    expect(backend.apiCalls()[0]).toMatchObject({
+      url: `${API}/API/V3/Account/42/Item/7.json`,
+      method: "PUT",
+    });
+  });
+
+  test("throws LightspeedApiError for failed requests", async () => {
+    const { client, backend } = createClient();
+    backend.respond(() => Response.json({ message: "Not found" }, { status: 404 }));
+
+    const error = await client.get("Item/999.json").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(LightspeedApiError);
+    expect(error).toMatchObject({ status: 404, body: expect.stringContaining("Not found") });
+  });
+
+  test("waits for Retry-After and retries a 429", async () => {
+    const { client, backend, time } = createClient();
+    backend.respond(() => new Response("", { status: 429, headers: { "Retry-After": "3" } }));
+
+    await client.get("Item.json");
+
+    expect(backend.apiCalls()).toHaveLength(2);
+    expect(time.slept).toEqual([3000]);
+  });
+
+  test("refuses to send the token to another host", async () => {
+    const { client, backend } = createClient();
+
+    await expect(client.get("https://evil.test/API/V3/Account/42/Item.json")).rejects.toThrow(
+      /Refusing/
+    );
+    expect(backend.calls).toHaveLength(0);
+  });
+});
+
+describe("LightspeedClient pagination", () => {
+  test("follows next links and unwraps single records", async () => {
+    const { client, backend } = createClient();
+    backend.respond(() =>
+      Response.json({
+        "@attributes": { next: `${API}/API/V3/Account/42/Item.json?after=abc&limit=100` },
+        Item: [{ itemID: "1" }, { itemID: "2" }],
+      })
+    );
+    backend.respond(() =>
+      Response.json({ "@attributes": { next: "" }, Item: { itemID: "3" } })
+    );
+
+    const items = await client.getAll<{ itemID: string }>("Item.json", { query: { archived: false } });
+
+    expect(items.map((item) => item.itemID)).toEqual(["1", "2", "3"]);
+    expect(backend.apiCalls().map((call) => call.url)).toEqual([
+      `${API}/API/V3/Account/42/Item.json?limit=100&archived=false`,
+      `${API}/API/V3/Account/42/Item.json?after=abc&limit=100`,
+    ]);
+  });
+
+  test("stops when a page has no records", async () => {
+    const { client, backend } = createClient();
+    backend.respond(() => Response.json({ "@attributes": { next: "" } }));
+
+    expect(await client.getAll("Sale/5/SaleLine.json")).toEqual([]);
+  });
+});
+
+describe("LeakyBucket", () => {
+  test("throttles once the bucket is full and drains at the drip rate", async () => {
+    const clock = createTime();
+    const bucket = new LeakyBucket({ size: 20, dripRate: 2, now: clock.now, sleep: clock.sleep });
+
+    await bucket.acquire(10);
+    await bucket.acquire(10);
+    await bucket.acquire(10); // Needs 10 units drained at 2 per second
+
+    expect(clock.time.slept).toEqual([5000]);
+  });
+
+  test("follows the level Lightspeed reports", async () => {
+    const clock = createTime();
+    const bucket = new LeakyBucket({ now: clock.now, sleep: clock.sleep });
+
+    bucket.update(
+      new Headers({ "X-LS-API-Bucket-Level": "59.5/60", "X-LS-API-Drip-Rate": "0.5" })
+    );
+    await bucket.acquire(LeakyBucket.cost("GET"));
+
+    expect(clock.time.slept).toEqual([1000]);
+  });
+
+  test("serves waiting requests in order", async () => {
+    const clock = createTime();
+    const bucket = new LeakyBucket({ size: 10, now: clock.now, sleep: clock.sleep });
+    const order: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map((id) => bucket.acquire(LeakyBucket.cost("POST")).then(() => order.push(id)))
+    );
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(clock.time.slept).toEqual([10000, 10000]);
+  });
+});
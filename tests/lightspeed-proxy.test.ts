@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { ConsumerService } from "../services/consumer-service";
+import { LightspeedProxy } from "../services/lightspeed-proxy";
+import { TokenApi } from "../services/token-api";
+import { createTestService } from "./helpers";
+
+interface StubRequest {
+  method: string;
+  path: string;
+  authorization: string | null;
+  apiKey: string | null;
+  body: string;
+}
+
+/**
+ * Local stand-in for the Lightspeed Retail API that accepts one access token
+ */
+function startStubApi() {
+  const requests: StubRequest[] = [];
+  const stub = {
+    validToken: "access",
+    requests,
+    server: Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        const url = new URL(request.url);
+        requests.push({
+          method: request.method,
+          path: `${url.pathname}${url.search}`,
+          authorization: request.headers.get("authorization"),
+          apiKey: request.headers.get("x-api-key"),
+          body: await request.text(),
+        });
+
+        if (request.headers.get("authorization") !== `Bearer ${stub.validToken}`) {
+          return Response.json({ message: "Invalid access token" }, { status: 401 });
+        }
+
+        // Sent in two chunks to exercise streaming
+        const stream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('{"Item":'));
+            controller.enqueue(new TextEncoder().encode('[{"itemID":"1"}]}'));
+            controller.close();
+          },
+        });
+        return new Response(stream, {
+          headers: { "Content-Type": "application/json", "X-LS-API-Bucket-Level": "1/60" },
+        });
+      },
+    }) as Server,
+  };
+  return stub;
+}
+
+let stub: ReturnType<typeof startStubApi> | null = null;
+
+afterEach(() => {
+  stub?.server.stop(true);
+  stub = null;
+});
+
+async function createProxyApi() {
+  stub = startStubApi();
+  const context = createTestService();
+  const consumers = new ConsumerService(context.store);
+  const { apiKey } = await consumers.createConsumer("reports");
+  const proxy = new LightspeedProxy(context.service, { baseUrl: `http://localhost:${stub.server.port}` });
+  const api = new TokenApi(context.service, consumers, undefined, proxy);
+  await context.service.saveTokens("access", "refresh", 3600, "shop");
+
+  const call = (path: string, init: RequestInit = {}) =>
+    api.handleRequest(
+      new Request(`http://localhost${path}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${apiKey}`, ...init.headers },
+      })
+    );
+
+  return { ...context, api, apiKey, stub, call };
+}
+
+describe("/proxy", () => {
+  test("forwards requests with the access token instead of the caller's API key", async () => {
+    const { call, stub, apiKey } = await createProxyApi();
+
+    const response = await call("/proxy/API/V3/Account/42/Item.json?account=shop&limit=10");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-ls-api-bucket-level")).toBe("1/60");
+    expect(await response.json()).toEqual({ Item: [{ itemID: "1" }] });
+    expect(stub.requests).toEqual([
+      {
+        method: "GET",
+        path: "/API/V3/Account/42/Item.json?limit=10",
+        authorization: "Bearer access",
+        apiKey: null,
+        body: "",
+      },
+    ]);
+    expect(JSON.stringify(stub.requests)).not.toContain(apiKey);
+  });
+
+  test("refreshes once and retries the request after a 401", async () => {
+    const { call, stub, endpoint } = await createProxyApi();
+    stub.validToken = "access-1"; // The token the fake endpoint issues on refresh
+
+    const response = await call("/proxy/API/V3/Account/42/Item.json?account=shop", {
+      method: "POST",
+      body: JSON.stringify({ description: "Widget" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(endpoint.requests).toHaveLength(1);
+    expect(endpoint.requests[0].grant_type).toBe("refresh_token");
+    expect(stub.requests.map((request) => [request.authorization, request.body])).toEqual([
+      ["Bearer access", '{"description":"Widget"}'],
+      ["Bearer access-1", '{"description":"Widget"}'],
+    ]);
+  });
+
+  test("passes a second 401 through without refreshing again", async () => {
+    const { call, stub, endpoint } = await createProxyApi();
+    stub.validToken = "never-issued";
+
+    const response = await call("/proxy/API/V3/Account/42/Item.json?account=shop");
+
+    expect(response.status).toBe(401);
+    expect(endpoint.requests).toHaveLength(1);
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  test("shares one refresh between concurrent 401s", async () => {
+    const { call, stub, endpoint } = await createProxyApi();
+    stub.validToken = "access-1";
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => call("/proxy/API/V3/Account/42/Item.json?account=shop"))
+    );
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  test("only proxies Lightspeed API paths", async () => {
+    const { call, stub } = await createProxyApi();
+
+    const response = await call("/proxy/auth/oauth/token?account=shop");
+
+    expect(response.status).toBe(404);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  test("requires an API key", async () => {
+    const { api, stub } = await createProxyApi();
+
+    const response = await api.handleRequest(
+      new Request("http://localhost/proxy/API/V3/Account/42/Item.json?account=shop")
+    );
+
+    expect(response.status).toBe(401);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  test("answers 502 when the Lightspeed API is unreachable", async () => {
+    const { call, stub } = await createProxyApi();
+    stub.server.stop(true);
+
+    const response = await call("/proxy/API/V3/Account/42/Item.json?account=shop");
+
+    expect(response.status).toBe(502);
+  });
+});
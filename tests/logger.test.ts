@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { Logger, type LogLevel } from "../services/logger";
+import { parseConfig } from "../services/config";
+import { createTestService } from "./helpers";
+import { logger } from "../services/logger";
+
+function createCapture(options: ConstructorParameters<typeof Logger>[0] = {}) {
+  const lines: { level: LogLevel; line: string }[] = [];
+  const log = new Logger({
+    format: "json",
+    ...options,
+    sink: (level, line) => lines.push({ level, line }),
+  });
+  return { log, lines, entries: () => lines.map(({ line }) => JSON.parse(line)) };
+}
+
+describe("Logger", () => {
+  test("writes JSON lines with level, message, context and fields", () => {
+    const { log, entries } = createCapture();
+
+    log.child({ component: "scheduler" }).info("Tokens refreshed", { accountId: "shop" });
+
+    expect(entries()).toEqual([
+      {
+        time: expect.any(String),
+        level: "info",
+        msg: "Tokens refreshed",
+        component: "scheduler",
+        accountId: "shop",
+      },
+    ]);
+  });
+
+  test("drops entries below the configured level", () => {
+    const { log, lines } = createCapture({ level: "warn" });
+
+    log.debug("debug");
+    log.info("info");
+    log.warn("warn");
+    log.error("error");
+
+    expect(lines.map(({ level }) => level)).toEqual(["warn", "error"]);
+  });
+
+  test("redacts secret fields but keeps fingerprints", () => {
+    const { log, entries } = createCapture();
+
+    log.info("Stored", {
+      refreshToken: "r-123",
+      nested: { client_secret: "s-456", authorization: "Bearer abc" },
+      refreshTokenFingerprint: "0a1b2c",
+    });
+
+    expect(entries()[0]).toMatchObject({
+      refreshToken: "[REDACTED]",
+      nested: { client_secret: "[REDACTED]", authorization: "[REDACTED]" },
+      refreshTokenFingerprint: "0a1b2c",
+    });
+  });
+
+  test("redacts OAuth parameters, bearer tokens and registered secrets in text", () => {
+    const { log, lines } = createCapture({ secrets: ["super-secret-value"] });
+
+    log.error("Request failed", {
+      body: '{"error":"invalid_grant","refresh_token":"r-123","code":"c-456"}',
+      url: "https://example.com/callback?code=c-789&state=xyz",
+      header: "Bearer eyJhbGciOi.abc",
+      error: new Error("config super-secret-value is wrong"),
+    });
+
+    const output = lines[0].line;
+    for (const secret of ["r-123", "c-456", "c-789", "eyJhbGciOi", "super-secret-value"]) {
+      expect(output).not.toContain(secret);
+    }
+    expect(output).toContain("state=xyz");
+    expect(output).toContain("invalid_grant");
+  });
+
+  test("masks secrets from the configuration", () => {
+    const { config } = parseConfig({ LIGHTSPEED_CLIENT_SECRET: "client-secret-xyz", LOG_LEVEL: "debug" });
+    const log = Logger.fromConfig(config.logging);
+    expect(log.redact("secret is client-secret-xyz")).toBe("secret is [REDACTED]");
+    expect(log.isLevelEnabled("debug")).toBe(true);
+  });
+
+  test("formats pretty output for terminals", () => {
+    const { log, lines } = createCapture({ format: "pretty" });
+
+    log.child({ component: "token-service" }).error("❌ Refresh failed", {
+      accountId: "shop",
+      error: new Error("HTTP 500"),
+    });
+
+    expect(lines[0].line).toBe("❌ Refresh failed (accountId=shop) - Error: HTTP 500");
+  });
+});
+
+describe("token service logging", () => {
+  test("never logs refresh tokens or the client secret", async () => {
+    const lines: string[] = [];
+    logger.configure({ level: "debug", sink: (_level, line) => lines.push(line) });
+
+    try {
+      const { service, endpoint } = createTestService();
+      await service.saveTokens("access-secret", "refresh-secret", 3600);
+
+      endpoint.respondWithError(400, { error: "invalid_grant", refresh_token: "refresh-secret" });
+      await service.refreshTokens("refresh-secret").catch(() => {});
+      endpoint.failWithNetworkError();
+      await service.exchangeAuthCodeForTokens("auth-code-secret");
+    } finally {
+      logger.configure({ level: "silent" });
+    }
+
+    const output = lines.join("\n");
+    expect(output).toContain("Token refresh failed");
+    for (const secret of ["access-secret", "refresh-secret", "auth-code-secret", "test-secret"]) {
+      expect(output).not.toContain(secret);
+    }
+  });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { MetricsRegistry, metrics, registry } from "../services/metrics";
+import { ConsumerService } from "../services/consumer-service";
+import { TokenApi } from "../services/token-api";
+import { TokenScheduler } from "../services/token-scheduler";
+import { instrumentStore } from "../services/token-store";
+import { MemoryTokenStore } from "../services/stores/memory-store";
+import { AlertService } from "../services/alert-service";
+import { createTestService } from "./helpers";
+
+beforeEach(() => {
+  registry.reset();
+});
+
+describe("MetricsRegistry", () => {
+  test("renders counters, gauges and histograms in the text format", () => {
+    const local = new MetricsRegistry();
+    local.counter("jobs_total", "Jobs run").inc({ queue: 'say "hi"' }, 2);
+    local.gauge("temperature", "Current temperature").set({}, 21.5);
+    const histogram = local.histogram("duration_seconds", "Duration", [0.5, 1]);
+    histogram.observe({}, 0.2);
+    histogram.observe({}, 0.7);
+
+    expect(local.render()).toBe(
+      [
+        "# HELP jobs_total Jobs run",
+        "# TYPE jobs_total counter",
+        'jobs_total{queue="say \\"hi\\""} 2',
+        "",
+        "# HELP temperature Current temperature",
+        "# TYPE temperature gauge",
+        "temperature 21.5",
+        "",
+        "# HELP duration_seconds Duration",
+        "# TYPE duration_seconds histogram",
+        'duration_seconds_bucket{le="0.5"} 1',
+        'duration_seconds_bucket{le="1"} 2',
+        'duration_seconds_bucket{le="+Inf"} 2',
+        "duration_seconds_sum 0.8999999999999999",
+        "duration_seconds_count 2",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("refresh metrics", () => {
+  test("count attempts, successes and latency", async () => {
+    const { service } = createTestService();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+
+    await service.refreshTokens("refresh", "shop", "scheduler");
+
+    expect(metrics.refreshAttempts.get({ account: "shop", source: "scheduler" })).toBe(1);
+    expect(metrics.refreshSuccesses.get({ account: "shop", source: "scheduler" })).toBe(1);
+    expect(metrics.refreshDuration.count({ account: "shop" })).toBe(1);
+  });
+
+  test("count failures by reason", async () => {
+    const { service, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+
+    for (let i = 0; i < 4; i++) {
+      endpoint.respondWithError(429, { error: "slow_down" });
+    }
+    await service.refreshTokens("refresh", "shop", "on_demand");
+
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+    await service.refreshTokens("refresh", "shop", "on_demand").catch(() => {});
+
+    expect(metrics.refreshAttempts.get({ account: "shop", source: "on_demand" })).toBe(2);
+    expect(
+      metrics.refreshFailures.get({ account: "shop", source: "on_demand", reason: "rate_limited" })
+    ).toBe(1);
+    expect(
+      metrics.refreshFailures.get({ account: "shop", source: "on_demand", reason: "invalid_grant" })
+    ).toBe(1);
+  });
+
+  test("count decryption failures", async () => {
+    const { service } = createTestService();
+    await expect(service.decrypt("not-encrypted")).rejects.toThrow();
+    expect(metrics.encryptionErrors.get({ operation: "decrypt" })).toBe(1);
+  });
+});
+
+describe("instrumentStore", () => {
+  test("counts rejected operations and passes results through", async () => {
+    const inner = new MemoryTokenStore();
+    inner.listAccounts = async () => {
+      throw new Error("connection refused");
+    };
+    const store = instrumentStore(inner);
+
+    await expect(store.listAccounts()).rejects.toThrow("connection refused");
+    expect(await store.getLatestTokens("shop")).toBeNull();
+    expect(metrics.storeErrors.get({ store: "memory", operation: "listAccounts" })).toBe(1);
+  });
+});
+
+describe("scheduler metrics", () => {
+  test("record when each task last ran", async () => {
+    const { service } = createTestService();
+    const scheduler = new TokenScheduler(service, new AlertService([]));
+
+    expect(scheduler.getSchedulerStatus().lastRefreshRunAt).toBeNull();
+    await scheduler.checkAndRefreshTokens();
+    await scheduler.runOneTimeHealthCheck();
+
+    const status = scheduler.getSchedulerStatus();
+    expect(status.lastRefreshRunAt).toBeInstanceOf(Date);
+    expect(status.lastHealthCheckAt).toBeInstanceOf(Date);
+    expect(metrics.schedulerLastRun.get({ task: "refresh" })).toBe(
+      status.lastRefreshRunAt!.getTime() / 1000
+    );
+  });
+});
+
+describe("GET /metrics", () => {
+  async function createApi(metricsToken?: string) {
+    const { service, store } = createTestService();
+    const consumers = new ConsumerService(store);
+    const { apiKey } = await consumers.createConsumer("reports");
+    const api = new TokenApi(service, consumers, metricsToken);
+    return { api, service, apiKey };
+  }
+
+  test("serves token expiry and per-consumer fetch counts without an API key", async () => {
+    const { api, service, apiKey } = await createApi();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+
+    await api.handleRequest(
+      new Request("http://localhost/v1/token?account=shop", {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      })
+    );
+    const response = await api.handleRequest(new Request("http://localhost/metrics"));
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toStartWith("text/plain; version=0.0.4");
+    expect(body).toContain('lightspeed_token_fetch_requests_total{consumer="reports",account="shop",status="200"} 1');
+    expect(body).toMatch(/lightspeed_token_expiry_timestamp_seconds\{account="shop"\} \d+/);
+    expect(body).toMatch(/lightspeed_token_seconds_until_expiry\{account="shop"\} -?\d+/);
+  });
+
+  test("labels fetches for accounts without tokens as unknown", async () => {
+    const { api, service, apiKey } = await createApi();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+
+    for (const account of ["no-such-shop-1", "no-such-shop-2"]) {
+      const response = await api.handleRequest(
+        new Request(`http://localhost/v1/token?account=${account}`, {
+          headers: { Authorization: `Bearer ${apiKey}` },
+        })
+      );
+      expect(response.status).toBe(404);
+    }
+    const body = await (await api.handleRequest(new Request("http://localhost/metrics"))).text();
+
+    expect(body).toContain('lightspeed_token_fetch_requests_total{consumer="reports",account="unknown",status="404"} 2');
+    expect(body).not.toContain("no-such-shop");
+  });
+
+  test("requires METRICS_TOKEN when one is configured", async () => {
+    const { api } = await createApi("scrape-secret");
+
+    const denied = await api.handleRequest(new Request("http://localhost/metrics"));
+    const allowed = await api.handleRequest(
+      new Request("http://localhost/metrics", {
+        headers: { Authorization: "Bearer scrape-secret" },
+      })
+    );
+
+    expect(denied.status).toBe(401);
+    expect(allowed.status).toBe(200);
+  });
+});
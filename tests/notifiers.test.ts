@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { Alert } from "../services/alert-service";
+import { SlackNotifier, SmtpNotifier, WebhookNotifier } from "../services/notifiers";
+
+const alert: Alert = {
+  type: "reauth_required",
+  severity: "critical",
+  accountId: "shop",
+  title: 'Re-authorization required for account "shop"',
+  message: "Refresh token was rejected.\n.Run the login command",
+  occurredAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+const cleanups: (() => void)[] = [];
+afterEach(() => {
+  while (cleanups.length) {
+    cleanups.pop()!();
+  }
+});
+
+/**
+ * HTTP server that records every request it receives
+ */
+function startHttpCatcher(status = 200) {
+  const received: { headers: Headers; body: any }[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.json() });
+      return new Response("ok", { status });
+    },
+  });
+  cleanups.push(() => server.stop(true));
+  return { url: `http://localhost:${server.port}/hook`, received };
+}
+
+/**
+ * Minimal SMTP mail catcher that accepts every message
+ */
+function startMailCatcher() {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = Bun.listen<{ buffer: string; inData: boolean; data: string[] }>({
+    hostname: "127.0.0.1",
+    port: 0,
+    socket: {
+      open(socket) {
+        socket.data = { buffer: "", inData: false, data: [] };
+        socket.write("220 catcher ready\r\n");
+      },
+      data(socket, chunk) {
+        const state = socket.data;
+        state.buffer += chunk.toString();
+
+        let index: number;
+        while ((index = state.buffer.indexOf("\r\n")) >= 0) {
+          const line = state.buffer.substring(0, index);
+          state.buffer = state.buffer.substring(index + 2);
+
+          if (state.inData) {
+            if (line === ".") {
+              state.inData = false;
+              messages.push(state.data.join("\n"));
+              state.data = [];
+              socket.write("250 queued\r\n");
+            } else {
+              state.data.push(line);
+            }
+            continue;
+          }
+
+          commands.push(line);
+          const verb = line.split(" ")[0].toUpperCase();
+          if (verb === "EHLO") {
+            socket.write("250-catcher\r\n250 AUTH PLAIN\r\n");
+          } else if (verb === "AUTH") {
+            socket.write("235 ok\r\n");
+          } else if (verb === "DATA") {
+            state.inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (verb === "QUIT") {
+            socket.write("221 bye\r\n");
+            socket.end();
+          } else {
+            socket.write("250 ok\r\n");
+          }
+        }
+      },
+    },
+  });
+  cleanups.push(() => server.stop(true));
+  return { port: server.port, commands, messages };
+}
+
+describe("WebhookNotifier", () => {
+  test("posts the alert as JSON with an optional bearer token", async () => {
+    const catcher = startHttpCatcher();
+    await new WebhookNotifier(catcher.url, "hook-secret").send(alert);
+
+    expect(catcher.received).toHaveLength(1);
+    expect(catcher.received[0].headers.get("authorization")).toBe("Bearer hook-secret");
+    expect(catcher.received[0].body).toMatchObject({
+      type: "reauth_required",
+      accountId: "shop",
+      occurredAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  test("rejects when the endpoint fails", async () => {
+    const catcher = startHttpCatcher(500);
+    await expect(new WebhookNotifier(catcher.url).send(alert)).rejects.toThrow(/HTTP 500/);
+  });
+});
+
+describe("SlackNotifier", () => {
+  test("posts a text message", async () => {
+    const catcher = startHttpCatcher();
+    await new SlackNotifier(catcher.url).send(alert);
+
+    expect(catcher.received[0].body.text).toStartWith(
+      '🚨 *Re-authorization required for account "shop"*'
+    );
+  });
+});
+
+describe("SmtpNotifier", () => {
+  test("delivers the alert to every recipient", async () => {
+    const catcher = startMailCatcher();
+    await new SmtpNotifier({
+      host: "127.0.0.1",
+      port: catcher.port,
+      username: "user",
+      password: "pass",
+      from: "tokens@example.com",
+      to: ["ops@example.com", "oncall@example.com"],
+    }).send(alert);
+
+    expect(catcher.commands).toContain("MAIL FROM:<tokens@example.com>");
+    expect(catcher.commands).toContain("RCPT TO:<ops@example.com>");
+    expect(catcher.commands).toContain("RCPT TO:<oncall@example.com>");
+    expect(catcher.commands).toContain(`AUTH PLAIN ${Buffer.from("\0user\0pass").toString("base64")}`);
+
+    expect(catcher.messages).toHaveLength(1);
+    const message = catcher.messages[0];
+    expect(message).toContain('Subject: [CRITICAL] Re-authorization required for account "shop"');
+    expect(message).toContain("Account: shop");
+    expect(message).toContain("..Run the login command"); // Dot-stuffed
+  });
+
+  test("rejects when the server refuses a recipient", async () => {
+    const server = Bun.listen({
+      hostname: "127.0.0.1",
+      port: 0,
+      socket: {
+        open(socket) {
+          socket.write("220 ready\r\n");
+        },
+        data(socket, chunk) {
+          const line = chunk.toString();
+          socket.write(line.startsWith("RCPT") ? "550 no such user\r\n" : "250 ok\r\n");
+        },
+      },
+    });
+    cleanups.push(() => server.stop(true));
+
+    await expect(
+      new SmtpNotifier({
+        host: "127.0.0.1",
+        port: server.port,
+        from: "tokens@example.com",
+        to: ["nobody@example.com"],
+      }).send(alert)
+    ).rejects.toThrow(/RCPT failed: 550/);
+  });
+});
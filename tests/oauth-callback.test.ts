@@ -0,0 +1,239 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CallbackListenError,
+  OAuthLoginFlow,
+  renderCallbackPage,
+  waitForOAuthCallback,
+  waitForServiceLogin,
+} from "../services/oauth-callback";
+import { ConsumerService } from "../services/consumer-service";
+import { TokenApi } from "../services/token-api";
+import { TokenEventService } from "../services/token-events";
+import { LightspeedTokenService } from "../services/token-service";
+import { createTestCipher, createTestService } from "./helpers";
+
+const REDIRECT_URI = "http://localhost:3000/auth/callback";
+
+async function createFlow() {
+  const context = createTestService();
+  const flow = new OAuthLoginFlow(context.service, { store: context.store, clock: context.clock });
+  const { authorizeUrl, state } = await flow.begin({
+    clientId: "test-client",
+    redirectUri: REDIRECT_URI,
+    scope: "employee:all",
+    accountId: "shop",
+  });
+  return { ...context, flow, authorizeUrl, state };
+}
+
+function callbackUrl(params: Record<string, string>): URL {
+  return new URL(`${REDIRECT_URI}?${new URLSearchParams(params)}`);
+}
+
+describe("OAuthLoginFlow", () => {
+  test("puts a random state in the authorize URL", async () => {
+    const { authorizeUrl, state } = await createFlow();
+    const url = new URL(authorizeUrl);
+
+    expect(state.length).toBeGreaterThanOrEqual(43);
+    expect(url.searchParams.get("state")).toBe(state);
+    expect(url.searchParams.get("redirect_uri")).toBe(REDIRECT_URI);
+  });
+
+  test("exchanges the code when the state matches", async () => {
+    const { flow, state, service, endpoint } = await createFlow();
+
+    const result = await flow.handleCallback(callbackUrl({ code: "auth-code", state }));
+
+    expect(result).toMatchObject({ success: true, matchedState: true, accountId: "shop" });
+    expect(endpoint.requests[0]).toMatchObject({ grant_type: "authorization_code", code: "auth-code" });
+    expect(await service.getLatestTokens("shop")).not.toBeNull();
+  });
+
+  test("rejects unknown states without calling Lightspeed", async () => {
+    const { flow, endpoint } = await createFlow();
+
+    const result = await flow.handleCallback(callbackUrl({ code: "auth-code", state: "forged" }));
+
+    expect(result).toMatchObject({ success: false, matchedState: false });
+    expect(endpoint.requests).toHaveLength(0);
+  });
+
+  test("accepts each state once", async () => {
+    const { flow, state } = await createFlow();
+
+    await flow.handleCallback(callbackUrl({ code: "auth-code", state }));
+    const replay = await flow.handleCallback(callbackUrl({ code: "auth-code", state }));
+
+    expect(replay.matchedState).toBe(false);
+  });
+
+  test("accepts a state begun by another process sharing the key and store", async () => {
+    const { state, service, store, clock } = await createFlow();
+    const serviceFlow = new OAuthLoginFlow(service, { store, clock, source: "api" });
+
+    const result = await serviceFlow.handleCallback(callbackUrl({ code: "auth-code", state }));
+
+    expect(result).toMatchObject({ success: true, accountId: "shop" });
+    const [login] = await store.listEvents({ type: "login" });
+    expect(login.source).toBe("api");
+  });
+
+  test("rejects a state sealed with another key", async () => {
+    const { state, store, clock, endpoint } = await createFlow();
+    const otherKey = new LightspeedTokenService({
+      store,
+      clock,
+      fetch: endpoint.fetch,
+      cipher: createTestCipher("11".repeat(32), "other"),
+    });
+
+    const result = await new OAuthLoginFlow(otherKey, { store, clock }).handleCallback(
+      callbackUrl({ code: "auth-code", state })
+    );
+
+    expect(result.matchedState).toBe(false);
+    expect(endpoint.requests).toHaveLength(0);
+  });
+
+  test("rejects expired states", async () => {
+    const { flow, state, clock, endpoint } = await createFlow();
+    clock.advanceMinutes(11);
+
+    const result = await flow.handleCallback(callbackUrl({ code: "auth-code", state }));
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("expired");
+    expect(endpoint.requests).toHaveLength(0);
+  });
+
+  test("reports an authorization the user declined", async () => {
+    const { flow, state } = await createFlow();
+
+    const result = await flow.handleCallback(
+      callbackUrl({ error: "access_denied", error_description: "User denied", state })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("access_denied: User denied");
+  });
+
+  test("reports a code Lightspeed rejects", async () => {
+    const { flow, state, endpoint } = await createFlow();
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+
+    const result = await flow.handleCallback(callbackUrl({ code: "stale", state }));
+
+    expect(result).toMatchObject({ success: false, matchedState: true });
+  });
+});
+
+describe("renderCallbackPage", () => {
+  test("escapes the message", async () => {
+    const response = renderCallbackPage({
+      success: false,
+      matchedState: false,
+      message: "<script>alert(1)</script>",
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain("&lt;script&gt;");
+  });
+});
+
+describe("waitForOAuthCallback", () => {
+  test("serves the redirect URI until the login completes", async () => {
+    const probe = Bun.serve({ port: 0, fetch: () => new Response() });
+    const port = probe.port;
+    probe.stop(true);
+
+    const redirectUri = `http://localhost:${port}/auth/callback`;
+    const { service, store, clock } = createTestService();
+    const flow = new OAuthLoginFlow(service, { store, clock });
+    const { state } = await flow.begin({
+      clientId: "test-client",
+      redirectUri,
+      scope: "employee:all",
+      accountId: "shop",
+    });
+
+    const waiting = waitForOAuthCallback(flow, { redirectUri, timeoutMs: 5000 });
+
+    const forged = await fetch(`${redirectUri}?code=evil&state=forged`);
+    expect(forged.status).toBe(400);
+
+    const page = await fetch(`${redirectUri}?code=auth-code&state=${encodeURIComponent(state)}`);
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain("Lightspeed login complete");
+
+    expect(await waiting).toMatchObject({ success: true, accountId: "shop" });
+  });
+
+  test("reports a port that is already in use", async () => {
+    const busy = Bun.serve({ port: 0, fetch: () => new Response() });
+    const { service, store } = createTestService();
+    try {
+      const waiting = waitForOAuthCallback(new OAuthLoginFlow(service, { store }), {
+        redirectUri: `http://localhost:${busy.port}/auth/callback`,
+      });
+
+      await expect(waiting).rejects.toBeInstanceOf(CallbackListenError);
+      await expect(waiting).rejects.toMatchObject({ code: "EADDRINUSE" });
+    } finally {
+      busy.stop(true);
+    }
+  });
+
+  test("refuses an https redirect URI without a certificate", async () => {
+    const { service } = createTestService();
+    await expect(
+      waitForOAuthCallback(new OAuthLoginFlow(service), {
+        redirectUri: "https://localhost:3000/auth/callback",
+      })
+    ).rejects.toThrow(/OAUTH_CALLBACK_TLS_CERT/);
+  });
+});
+
+describe("callback served by the token API", () => {
+  test("completes a login begun elsewhere without an API key", async () => {
+    const { service, store, endpoint } = createTestService();
+    const cliFlow = new OAuthLoginFlow(service, { store });
+    const { state } = await cliFlow.begin({
+      clientId: "test-client",
+      redirectUri: "https://localhost:3000/auth/callback",
+      scope: "employee:all",
+      accountId: "shop",
+    });
+    const since = new Date(Date.now() - 1000);
+    const api = new TokenApi(
+      service,
+      new ConsumerService(store),
+      undefined,
+      undefined,
+      undefined,
+      new OAuthLoginFlow(service, { store, source: "api" })
+    );
+
+    const page = await api.handleRequest(
+      new Request(`http://localhost/auth/callback?code=auth-code&state=${encodeURIComponent(state)}`)
+    );
+
+    expect(page.status).toBe(200);
+    expect(page.headers.get("content-type")).toStartWith("text/html");
+    expect(endpoint.requests[0]).toMatchObject({ grant_type: "authorization_code", code: "auth-code" });
+    expect(await waitForServiceLogin(new TokenEventService(store), "shop", since, 1000)).toMatchObject({
+      success: true,
+      accountId: "shop",
+    });
+  });
+
+  test("rejects a callback with a forged state", async () => {
+    const { service, store, endpoint } = createTestService();
+    const api = new TokenApi(service, new ConsumerService(store), undefined);
+
+    const page = await api.handleRequest(new Request("http://localhost/auth/callback?code=evil&state=forged"));
+
+    expect(page.status).toBe(400);
+    expect(endpoint.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_REFRESH_POLICY,
+  cronIntervalMs,
+  formatDuration,
+  parseDuration,
+  parseRefreshPolicy,
+  refreshDueAt,
+  type RefreshPolicy,
+} from "../services/refresh-policy";
+import { LightspeedTokenService } from "../services/token-service";
+import { MemoryTokenStore } from "../services/stores/memory-store";
+import { FakeTokenEndpoint, ManualClock, createTestCipher } from "./helpers";
+
+const MINUTE = 60 * 1000;
+
+function createService(policy: Partial<RefreshPolicy>, random = () => 0.5) {
+  const clock = new ManualClock();
+  const endpoint = new FakeTokenEndpoint();
+  const service = new LightspeedTokenService({
+    store: new MemoryTokenStore(),
+    clock,
+    fetch: endpoint.fetch,
+    cipher: createTestCipher(),
+    refreshPolicy: { ...DEFAULT_REFRESH_POLICY, ...policy },
+    sleep: async () => {},
+    random,
+  });
+  return { service, clock, endpoint };
+}
+
+describe("parseDuration", () => {
+  test("reads seconds, minutes, hours and days", () => {
+    expect(parseDuration("90s")).toBe(90 * 1000);
+    expect(parseDuration("10m")).toBe(10 * MINUTE);
+    expect(parseDuration(" 12H ")).toBe(12 * 60 * MINUTE);
+    expect(parseDuration("7d")).toBe(7 * 24 * 60 * MINUTE);
+    expect(parseDuration("7")).toBeNull();
+    expect(parseDuration("1w")).toBeNull();
+  });
+
+  test("round-trips through formatDuration", () => {
+    for (const value of ["45s", "10m", "36h", "90d"]) {
+      expect(formatDuration(parseDuration(value)!)).toBe(value);
+    }
+  });
+});
+
+describe("cronIntervalMs", () => {
+  test("finds the longest gap between runs", () => {
+    expect(cronIntervalMs("*/15 * * * *")).toBe(15 * MINUTE);
+    expect(cronIntervalMs("5,35 * * * *")).toBe(30 * MINUTE);
+    expect(cronIntervalMs("0 */6 * * *")).toBe(6 * 60 * MINUTE);
+    expect(cronIntervalMs("*/10 * * * * *")).toBe(MINUTE);
+    expect(cronIntervalMs("30 9 * * mon-fri")).toBe(3 * 24 * 60 * MINUTE);
+    expect(cronIntervalMs("0 0 1 * *")).toBeNull();
+  });
+});
+
+describe("parseRefreshPolicy", () => {
+  test("keeps the defaults when nothing is set", () => {
+    expect(parseRefreshPolicy({})).toEqual({ policy: DEFAULT_REFRESH_POLICY, problems: [] });
+  });
+
+  test("reads durations, percentages and schedules", () => {
+    const { policy, problems } = parseRefreshPolicy({
+      REFRESH_BUFFER: "25%",
+      REFRESH_JITTER: "2m",
+      REFRESH_CHECK_SCHEDULE: "* * * * *",
+      HEALTH_CHECK_SCHEDULE: "*/15 * * * *",
+      EXPIRY_WARNING_MINUTES: "15",
+      DEFAULT_TOKEN_LIFETIME: "2h",
+    });
+
+    expect(problems).toEqual([]);
+    expect(policy).toEqual({
+      buffer: { kind: "fraction", fraction: 0.25 },
+      jitterMs: 2 * MINUTE,
+      refreshCheckSchedule: "* * * * *",
+      healthCheckSchedule: "*/15 * * * *",
+      expiryWarningMinutes: 15,
+      defaultExpiresInSeconds: 7200,
+    });
+  });
+
+  test("reports every invalid setting", () => {
+    const { problems } = parseRefreshPolicy({
+      REFRESH_BUFFER: "150%",
+      REFRESH_JITTER: "soon",
+      REFRESH_CHECK_SCHEDULE: "every five minutes",
+      EXPIRY_WARNING_MINUTES: "-1",
+      DEFAULT_TOKEN_LIFETIME: "0s",
+    });
+
+    expect(problems).toHaveLength(5);
+  });
+
+  test("rejects a buffer as long as the token lifetime", () => {
+    const { problems } = parseRefreshPolicy({ REFRESH_BUFFER: "1h" });
+
+    expect(problems.join("\n")).toContain("must be shorter than DEFAULT_TOKEN_LIFETIME");
+  });
+});
+
+describe("refreshDueAt", () => {
+  const issuedAt = new Date("2026-01-01T00:00:00Z");
+  const expiresAt = new Date("2026-01-01T01:00:00Z");
+
+  test("subtracts an absolute buffer or a share of the lifetime", () => {
+    expect(refreshDueAt(DEFAULT_REFRESH_POLICY, issuedAt, expiresAt).toISOString()).toBe(
+      "2026-01-01T00:50:00.000Z"
+    );
+
+    const fraction = { ...DEFAULT_REFRESH_POLICY, buffer: { kind: "fraction", fraction: 0.25 } } as const;
+    expect(refreshDueAt(fraction, issuedAt, expiresAt).toISOString()).toBe("2026-01-01T00:45:00.000Z");
+  });
+
+  test("never lets jitter move the refresh before the tokens were issued", () => {
+    expect(refreshDueAt(DEFAULT_REFRESH_POLICY, issuedAt, expiresAt, 5 * MINUTE).toISOString()).toBe(
+      "2026-01-01T00:45:00.000Z"
+    );
+    expect(refreshDueAt(DEFAULT_REFRESH_POLICY, issuedAt, expiresAt, 90 * MINUTE).toISOString()).toBe(
+      issuedAt.toISOString()
+    );
+  });
+});
+
+describe("LightspeedTokenService with a refresh policy", () => {
+  test("refreshes within the configured share of the lifetime", async () => {
+    const { service, clock } = createService({ buffer: { kind: "fraction", fraction: 0.5 } });
+    await service.saveTokens("access", "refresh", 3600);
+
+    clock.advanceMinutes(29);
+    expect((await service.getTokenStatus())?.needsRefresh).toBe(false);
+
+    clock.advanceMinutes(1);
+    expect((await service.getTokenStatus())?.needsRefresh).toBe(true);
+  });
+
+  test("draws jitter once per token record", async () => {
+    let draws = 0;
+    const { service } = createService({ jitterMs: 10 * MINUTE }, () => {
+      draws++;
+      return 0.5;
+    });
+    await service.saveTokens("access", "refresh", 3600);
+
+    const first = (await service.getTokenStatus())?.refreshDueAt;
+    const second = (await service.getTokenStatus())?.refreshDueAt;
+
+    expect(first?.toISOString()).toBe("2026-01-01T00:45:00.000Z");
+    expect(second).toEqual(first ?? null);
+    expect(draws).toBe(1);
+  });
+
+  test("assumes the default lifetime when Lightspeed omits expires_in", async () => {
+    const { service, endpoint } = createService({ defaultExpiresInSeconds: 2 * 3600 });
+    await service.saveTokens("access", "refresh", 60);
+    endpoint.respondWithTokens({ expires_in: undefined });
+
+    await service.getValidToken();
+
+    expect((await service.getTokenStatus())?.expiresIn).toBe(120);
+  });
+
+  test("shows the policy in status", async () => {
+    const { service } = createService({ buffer: { kind: "fraction", fraction: 0.2 } });
+    await service.saveTokens("access", "refresh", 3600);
+
+    const result = await service.cliStatus();
+
+    expect(result.formatted).toContain("Refresh: last 20% of the token lifetime");
+    expect(result.formatted).toContain("safety-net poll at */15 * * * *");
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { diffScopes, findMissingScopes, parseScopes } from "../services/scopes";
+import { InsufficientScopeError } from "../services/token-service";
+import { ConsumerService } from "../services/consumer-service";
+import { TokenApi } from "../services/token-api";
+import { SqliteTokenStore } from "../services/stores/sqlite-store";
+import { createTestService } from "./helpers";
+
+describe("scope helpers", () => {
+  test("parse space, comma and plus separated scopes", () => {
+    expect(parseScopes("employee:all, employee:reports+employee:all")).toEqual([
+      "employee:all",
+      "employee:reports",
+    ]);
+    expect(parseScopes(null)).toEqual([]);
+  });
+
+  test("employee:all covers every employee scope", () => {
+    expect(findMissingScopes("employee:all", ["employee:reports"])).toEqual([]);
+    expect(findMissingScopes("employee:reports", ["employee:inventory", "employee:reports"])).toEqual([
+      "employee:inventory",
+    ]);
+  });
+
+  test("report nothing missing when the granted scope is unknown", () => {
+    expect(findMissingScopes(null, ["employee:reports"])).toBeNull();
+  });
+
+  test("diff two grants", () => {
+    expect(diffScopes("employee:reports", "employee:reports employee:inventory")).toEqual({
+      added: ["employee:inventory"],
+      removed: [],
+    });
+  });
+});
+
+describe("granted scope", () => {
+  test("is stored from the token response and kept across refreshes", async () => {
+    const { service, endpoint } = createTestService();
+    endpoint.respondWithTokens({ scope: "employee:reports" });
+
+    await service.loginWithAuthCode("auth-code", "shop", "cli", "employee:all");
+    await service.cliRefresh("shop");
+
+    expect((await service.getTokenStatus("shop"))?.scope).toBe("employee:reports");
+  });
+
+  test("falls back to the requested scope when Lightspeed omits it", async () => {
+    const { service } = createTestService();
+
+    await service.loginWithAuthCode("auth-code", "shop", "cli", "employee:all");
+
+    expect((await service.getLatestTokens("shop"))?.scope).toBe("employee:all");
+  });
+
+  test("is kept when tokens are set by hand without a scope", async () => {
+    const { service } = createTestService();
+    await service.loginWithAuthCode("auth-code", "shop", "cli", "employee:reports");
+
+    await service.setTokensManually("pasted-access", "pasted-refresh", 60, "shop");
+
+    expect((await service.getValidToken("shop", ["employee:reports"]))?.accessToken).toBe("pasted-access");
+  });
+
+  test("is replaced when tokens are set by hand with a scope", async () => {
+    const { service } = createTestService();
+    await service.loginWithAuthCode("auth-code", "shop", "cli", "employee:reports");
+
+    await service.cliSetTokens("pasted-access", "pasted-refresh", 60, "shop", "employee:all");
+
+    expect((await service.getLatestTokens("shop"))?.scope).toBe("employee:all");
+  });
+
+  test("getValidToken rejects tokens missing a required scope", async () => {
+    const { service } = createTestService();
+    await service.saveTokens("access", "refresh", 3600, "shop", "employee:reports");
+
+    expect((await service.getValidToken("shop", ["employee:reports"]))?.accessToken).toBe("access");
+    await expect(service.getValidToken("shop", ["employee:inventory"])).rejects.toBeInstanceOf(
+      InsufficientScopeError
+    );
+  });
+});
+
+describe("GET /v1/token?scope=", () => {
+  test("returns 403 insufficient_scope with the missing scopes", async () => {
+    const { service, store } = createTestService();
+    const consumers = new ConsumerService(store);
+    const { apiKey } = await consumers.createConsumer("reports");
+    const api = new TokenApi(service, consumers);
+    await service.saveTokens("access", "refresh", 3600, "shop", "employee:reports");
+
+    const response = await api.handleRequest(
+      new Request("http://localhost/v1/token?account=shop&scope=employee:reports,employee:inventory", {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      })
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      error: "insufficient_scope",
+      missingScopes: ["employee:inventory"],
+      grantedScope: "employee:reports",
+    });
+  });
+});
+
+describe("SqliteTokenStore scope column", () => {
+  test("is added to databases created before scopes were recorded", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "scope-migration-"));
+    const path = join(dir, "tokens.db");
+    try {
+      const legacy = new Database(path, { create: true });
+      legacy.exec(`CREATE TABLE lightspeed_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id TEXT NOT NULL UNIQUE,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT NOT NULL,
+        expires_at INTEGER,
+        updated_at INTEGER NOT NULL
+      )`);
+      legacy.close();
+
+      const store = new SqliteTokenStore(path);
+      const inserted = await store.insertTokens({
+        accountId: "shop",
+        accessToken: "a",
+        refreshToken: "r",
+        expiresAt: null,
+        scope: "employee:all",
+        updatedAt: new Date(),
+      });
+      const updated = await store.updateTokens(inserted.id, { accessToken: "b" });
+
+      expect(updated.scope).toBe("employee:all");
+      store.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
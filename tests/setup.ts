@@ -0,0 +1,12 @@
+// Environment shared by every test: fake client credentials and an encryption key,
+// so nothing falls back to a real configuration
+process.env.LIGHTSPEED_CLIENT_ID = "test-client";
+process.env.LIGHTSPEED_CLIENT_SECRET = "test-secret";
+process.env.TOKEN_ENCRYPTION_KEY = "11".repeat(32);
+process.env.TOKEN_STORE = "memory";
+process.env.LOG_LEVEL = "silent";
+delete process.env.LOG_FORMAT;
+delete process.env.TOKEN_ENCRYPTION_KEYS;
+delete process.env.TOKEN_ENCRYPTION_PROVIDER;
+delete process.env.LIGHTSPEED_OAUTH_BASE_URL;
+delete process.env.LIGHTSPEED_API_BASE_URL;
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import { ConsumerService } from "../services/consumer-service";
+import { LeaseService } from "../services/lease-service";
+import { TokenApi } from "../services/token-api";
+import { createTestService } from "./helpers";
+
+async function createApi() {
+  const context = createTestService();
+  const consumers = new ConsumerService(context.store, context.clock);
+  const { apiKey } = await consumers.createConsumer("reports");
+  const api = new TokenApi(
+    context.service,
+    consumers,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    context.clock
+  );
+  await context.service.saveTokens("access", "refresh", 3600, "shop");
+
+  const getToken = (headers: Record<string, string> = {}) =>
+    api.handleRequest(new Request("http://localhost/v1/token?account=shop", { headers }));
+
+  return { ...context, api, consumers, apiKey, getToken };
+}
+
+describe("TokenApi authentication", () => {
+  test("accepts a key as a bearer token or in X-API-Key", async () => {
+    const { getToken, apiKey } = await createApi();
+
+    const variants: Record<string, string>[] = [
+      { Authorization: `Bearer ${apiKey}` },
+      { "X-API-Key": apiKey },
+    ];
+    for (const headers of variants) {
+      const response = await getToken(headers);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ accountId: "shop", accessToken: "access" });
+    }
+  });
+
+  test("answers 401 without a key or with an unknown one", async () => {
+    const { getToken } = await createApi();
+
+    const missing = await getToken();
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toMatchObject({ error: "unauthorized" });
+
+    for (const key of ["lts_not-a-real-key", "not-even-prefixed"]) {
+      const unknown = await getToken({ Authorization: `Bearer ${key}` });
+      expect(unknown.status).toBe(401);
+      expect(await unknown.json()).toEqual({ error: "unauthorized", message: "Invalid API key" });
+    }
+  });
+
+  test("answers 403 for a revoked key, and accepts it again once re-enabled", async () => {
+    const { getToken, consumers, apiKey } = await createApi();
+
+    await consumers.revokeConsumer("reports");
+    const revoked = await getToken({ Authorization: `Bearer ${apiKey}` });
+    expect(revoked.status).toBe(403);
+    expect(await revoked.json()).toEqual({ error: "forbidden", message: "API key has been revoked" });
+
+    await consumers.enableConsumer("reports");
+    expect((await getToken({ Authorization: `Bearer ${apiKey}` })).status).toBe(200);
+  });
+
+  test("rejects the old key once it is rotated", async () => {
+    const { getToken, consumers, apiKey } = await createApi();
+
+    const rotated = await consumers.rotateConsumerKey("reports");
+
+    expect((await getToken({ Authorization: `Bearer ${apiKey}` })).status).toBe(401);
+    expect((await getToken({ Authorization: `Bearer ${rotated.apiKey}` })).status).toBe(200);
+  });
+});
+
+describe("GET /v1/token", () => {
+  test("counts expiresIn down on the injected clock", async () => {
+    const { getToken, clock, apiKey } = await createApi();
+
+    clock.advanceMinutes(10);
+    const response = await getToken({ Authorization: `Bearer ${apiKey}` });
+
+    expect(await response.json()).toMatchObject({ accessToken: "access", expiresIn: 50 * 60 });
+  });
+
+  test("answers 503 rather than wait out another process's refresh", async () => {
+    const { getToken, store, clock, apiKey } = await createApi();
+    clock.advanceMinutes(51);
+    await new LeaseService(store, "other-process", clock).acquire("refresh:shop", 3 * 60 * 1000);
+
+    const response = await getToken({ Authorization: `Bearer ${apiKey}` });
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ error: "refresh_in_progress" });
+  });
+});
+
+describe("ConsumerService", () => {
+  test("stores only a hash and a display prefix of the key", async () => {
+    const { consumers, store, apiKey } = await createApi();
+
+    const [consumer] = await store.listConsumers();
+
+    expect(apiKey).toMatch(/^lts_[A-Za-z0-9_-]{43}$/);
+    expect(consumer.keyHash).toBe(consumers.hashKey(apiKey));
+    expect(consumer.keyHash).not.toContain(apiKey);
+    expect(consumer.keyPrefix).toBe(apiKey.substring(0, 10));
+  });
+
+  test("lists consumers with their revocation state", async () => {
+    const { consumers } = await createApi();
+    await consumers.createConsumer("billing");
+    await consumers.revokeConsumer("billing");
+
+    const listed = await consumers.listConsumers();
+
+    expect(listed.map((consumer) => [consumer.name, consumer.enabled])).toEqual([
+      ["billing", false],
+      ["reports", true],
+    ]);
+    expect(listed[0].revokedAt).toBeInstanceOf(Date);
+    expect((await consumers.cliList()).formatted).toContain("⛔ billing");
+  });
+
+  test("refuses duplicate names and unknown consumers", async () => {
+    const { consumers } = await createApi();
+
+    await expect(consumers.createConsumer(" reports ")).rejects.toThrow('Consumer "reports" already exists');
+    await expect(consumers.revokeConsumer("nobody")).rejects.toThrow('Consumer "nobody" not found');
+  });
+
+  test("records lastUsedAt at most once a minute", async () => {
+    const { consumers, store, clock, apiKey } = await createApi();
+    let writes = 0;
+    const updateConsumer = store.updateConsumer.bind(store);
+    store.updateConsumer = async (id, update) => {
+      writes++;
+      return await updateConsumer(id, update);
+    };
+
+    const first = await consumers.authenticate(apiKey);
+    clock.advance(30 * 1000);
+    await consumers.authenticate(apiKey);
+    expect(writes).toBe(1);
+    expect((await consumers.getConsumer("reports"))?.lastUsedAt).toEqual(first?.lastUsedAt ?? null);
+
+    clock.advance(30 * 1000);
+    await consumers.authenticate(apiKey);
+    expect(writes).toBe(2);
+    expect((await consumers.getConsumer("reports"))?.lastUsedAt).toEqual(clock.now());
+  });
+});
@@ -0,0 +1,199 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { AlertService } from "../services/alert-service";
+import { TokenScheduler } from "../services/token-scheduler";
+import { ManualTimers, createTestService } from "./helpers";
+
+function createTestScheduler() {
+  const context = createTestService();
+  return { ...context, scheduler: new TokenScheduler(context.service) };
+}
+
+describe("TokenScheduler.checkAndRefreshTokens", () => {
+  test("does nothing while no tokens are configured", async () => {
+    const { scheduler, endpoint } = createTestScheduler();
+
+    await scheduler.checkAndRefreshTokens();
+
+    expect(endpoint.requests).toHaveLength(0);
+    expect(scheduler.getSchedulerStatus().managedAccounts).toEqual([]);
+  });
+
+  test("starts managing tokens when they appear, without refreshing fresh ones", async () => {
+    const { scheduler, service, endpoint } = createTestScheduler();
+    await scheduler.checkAndRefreshTokens();
+
+    await service.saveTokens("access", "refresh", 3600, "shop");
+    await scheduler.checkAndRefreshTokens();
+
+    expect(scheduler.getSchedulerStatus().managedAccounts).toEqual(["shop"]);
+    expect(endpoint.requests).toHaveLength(0);
+  });
+
+  test("refreshes tokens once they enter the refresh buffer", async () => {
+    const { scheduler, service, clock, endpoint } = createTestScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+
+    clock.advanceMinutes(49);
+    await scheduler.checkAndRefreshTokens();
+    expect(endpoint.requests).toHaveLength(0);
+
+    clock.advanceMinutes(2);
+    await scheduler.checkAndRefreshTokens();
+    expect(endpoint.requests).toHaveLength(1);
+    expect(endpoint.requests[0].refresh_token).toBe("refresh");
+
+    const status = await service.getTokenStatus();
+    expect(status?.needsRefresh).toBe(false);
+    expect(status?.expiresIn).toBe(60);
+  });
+
+  test("stops managing an account when its tokens are removed", async () => {
+    const { scheduler, service } = createTestScheduler();
+    await service.saveTokens("access", "refresh", 3600, "shop-a");
+    await service.saveTokens("access", "refresh", 3600, "shop-b");
+    await scheduler.checkAndRefreshTokens();
+
+    await service.clearTokens("shop-a");
+    await scheduler.checkAndRefreshTokens();
+
+    expect(scheduler.getSchedulerStatus().managedAccounts).toEqual(["shop-b"]);
+  });
+
+  test("resumes managing an account when tokens come back", async () => {
+    const { scheduler, service } = createTestScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+    await scheduler.checkAndRefreshTokens();
+    await service.clearTokens();
+    await scheduler.checkAndRefreshTokens();
+
+    await service.saveTokens("access-2", "refresh-2", 3600);
+    await scheduler.checkAndRefreshTokens();
+
+    expect(scheduler.getSchedulerStatus().managedAccounts).toEqual(["default"]);
+  });
+
+  test("keeps refreshing other accounts when one refresh fails", async () => {
+    const { scheduler, service, clock, endpoint } = createTestScheduler();
+    await service.saveTokens("access-a", "refresh-a", 3600, "shop-a");
+    await service.saveTokens("access-b", "refresh-b", 3600, "shop-b");
+    clock.advanceMinutes(55);
+
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+    await scheduler.checkAndRefreshTokens();
+
+    expect(endpoint.requests.map((request) => request.refresh_token)).toEqual([
+      "refresh-a",
+      "refresh-b",
+    ]);
+    expect((await service.getTokenStatus("shop-a"))?.needsRefresh).toBe(true);
+    expect((await service.getTokenStatus("shop-b"))?.needsRefresh).toBe(false);
+  });
+
+  test("stops retrying a rejected refresh token until new tokens are stored", async () => {
+    const { scheduler, service, clock, endpoint } = createTestScheduler();
+    await service.saveTokens("access", "dead-refresh", 3600);
+    clock.advanceMinutes(55);
+
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+    await scheduler.checkAndRefreshTokens();
+    await scheduler.checkAndRefreshTokens();
+    expect(endpoint.requests).toHaveLength(1);
+
+    clock.advanceMinutes(1);
+    await service.saveTokens("access", "new-refresh", 60);
+    await scheduler.checkAndRefreshTokens();
+    expect(endpoint.requests).toHaveLength(2);
+    expect(endpoint.requests[1].refresh_token).toBe("new-refresh");
+  });
+});
+
+describe("TokenScheduler refresh timers", () => {
+  let running: TokenScheduler | null = null;
+
+  afterEach(() => {
+    running?.stopAll();
+    running = null;
+  });
+
+  function createTimedScheduler() {
+    const context = createTestService();
+    const timers = new ManualTimers();
+    const scheduler = new TokenScheduler(context.service, new AlertService([]), {
+      clock: context.clock,
+      timers,
+    });
+    running = scheduler;
+    return { ...context, scheduler, timers };
+  }
+
+  async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await Bun.sleep(1);
+    }
+    expect(condition()).toBe(true);
+  }
+
+  test("catches up on an overdue refresh at startup and schedules the next one", async () => {
+    const { scheduler, service, clock, endpoint, timers } = createTimedScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advanceMinutes(70); // Expired while the service was down
+
+    await scheduler.startRefreshScheduler();
+
+    expect(endpoint.requests).toHaveLength(1);
+    expect(timers.delays()).toEqual([50 * 60 * 1000]);
+    expect(scheduler.getSchedulerStatus().nextRefreshes).toEqual({
+      default: new Date(clock.now().getTime() + 50 * 60 * 1000),
+    });
+  });
+
+  test("refreshes when the timer fires and sets the next timer", async () => {
+    const { scheduler, service, clock, endpoint, timers } = createTimedScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+    await scheduler.startRefreshScheduler();
+    expect(endpoint.requests).toHaveLength(0);
+
+    clock.advanceMinutes(50);
+    timers.fireAll();
+
+    await waitFor(() => endpoint.requests.length === 1 && timers.delays().length === 1);
+    expect(timers.delays()).toEqual([50 * 60 * 1000]);
+  });
+
+  test("reschedules when tokens are stored or cleared in this process", async () => {
+    const { scheduler, service, timers } = createTimedScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+    await scheduler.startRefreshScheduler();
+
+    await service.saveTokens("access-2", "refresh-2", 900);
+    await waitFor(() => timers.delays()[0] === 5 * 60 * 1000);
+
+    await service.clearTokens();
+    await waitFor(() => timers.delays().length === 0);
+  });
+
+  test("retries a failed refresh after a minute instead of at once", async () => {
+    const { scheduler, service, clock, endpoint, timers } = createTimedScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advanceMinutes(55);
+    for (let i = 0; i < 4; i++) {
+      endpoint.respondWithError(503);
+    }
+
+    await scheduler.startRefreshScheduler();
+
+    expect(endpoint.requests).toHaveLength(4);
+    expect(timers.delays()).toEqual([60 * 1000]);
+  });
+
+  test("cancels timers when stopped", async () => {
+    const { scheduler, service, timers } = createTimedScheduler();
+    await service.saveTokens("access", "refresh", 3600);
+    await scheduler.startRefreshScheduler();
+
+    scheduler.stopAll();
+
+    expect(timers.delays()).toEqual([]);
+    expect(scheduler.getSchedulerStatus().nextRefreshes).toEqual({});
+  });
+});
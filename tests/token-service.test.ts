@@ -0,0 +1,502 @@
+import { describe, expect, test } from "bun:test";
+import {
+  InvalidClientError,
+  InvalidGrantError,
+  RefreshInProgressError,
+  type LightspeedToken,
+} from "../services/token-service";
+import { LeaseService, type Lease } from "../services/lease-service";
+import { createTestService } from "./helpers";
+
+const MINUTE = 60 * 1000;
+
+function tokenExpiringAt(expiresAt: Date | null): LightspeedToken {
+  return {
+    id: 1,
+    accountId: "default",
+    accessToken: "encrypted-access",
+    refreshToken: "encrypted-refresh",
+    expiresAt,
+    scope: null,
+    updatedAt: new Date(0),
+  };
+}
+
+describe("needsRefresh", () => {
+  test("refreshes tokens without an expiry", () => {
+    const { service } = createTestService();
+    expect(service.needsRefresh(tokenExpiringAt(null))).toBe(true);
+  });
+
+  test("does not refresh outside the 10 minute buffer", () => {
+    const { service, clock } = createTestService();
+    const expiresAt = new Date(clock.now().getTime() + 10 * MINUTE + 1);
+    expect(service.needsRefresh(tokenExpiringAt(expiresAt))).toBe(false);
+  });
+
+  test("refreshes exactly at the buffer boundary", () => {
+    const { service, clock } = createTestService();
+    const expiresAt = new Date(clock.now().getTime() + 10 * MINUTE);
+    expect(service.needsRefresh(tokenExpiringAt(expiresAt))).toBe(true);
+  });
+
+  test("refreshes expired tokens", () => {
+    const { service, clock } = createTestService();
+    const expiresAt = new Date(clock.now().getTime() - MINUTE);
+    expect(service.needsRefresh(tokenExpiringAt(expiresAt))).toBe(true);
+  });
+});
+
+describe("getTokenStatus", () => {
+  test("returns null when no tokens are stored", async () => {
+    const { service } = createTestService();
+    expect(await service.getTokenStatus()).toBeNull();
+  });
+
+  test("reports valid tokens with whole minutes remaining", async () => {
+    const { service, clock } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advance(30 * MINUTE + 30 * 1000);
+
+    const status = await service.getTokenStatus();
+    expect(status).toMatchObject({
+      accountId: "default",
+      isValid: true,
+      expiresIn: 29,
+      needsRefresh: false,
+    });
+  });
+
+  test("flags tokens inside the refresh buffer", async () => {
+    const { service, clock } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advanceMinutes(55);
+
+    const status = await service.getTokenStatus();
+    expect(status?.isValid).toBe(true);
+    expect(status?.needsRefresh).toBe(true);
+  });
+
+  test("reports expired tokens as invalid with zero minutes left", async () => {
+    const { service, clock } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advanceMinutes(61);
+
+    const status = await service.getTokenStatus();
+    expect(status?.isValid).toBe(false);
+    expect(status?.expiresIn).toBe(0);
+  });
+
+  test("treats tokens without an expiry as invalid", async () => {
+    const { service, store } = createTestService();
+    await store.insertTokens({
+      accountId: "default",
+      accessToken: "a",
+      refreshToken: "r",
+      expiresAt: null,
+      scope: null,
+      updatedAt: new Date(),
+    });
+
+    const status = await service.getTokenStatus();
+    expect(status?.isValid).toBe(false);
+    expect(status?.needsRefresh).toBe(true);
+  });
+
+  test("keeps accounts separate", async () => {
+    const { service } = createTestService();
+    await service.saveTokens("access", "refresh", 3600, "shop-a");
+
+    expect(await service.getTokenStatus("shop-a")).not.toBeNull();
+    expect(await service.getTokenStatus("shop-b")).toBeNull();
+  });
+});
+
+describe("loginWithAuthCode", () => {
+  test("exchanges the code and stores encrypted tokens", async () => {
+    const { service, store, clock, endpoint } = createTestService();
+    endpoint.respondWithTokens({ access_token: "at-1", refresh_token: "rt-1", expires_in: 1800 });
+
+    const stored = await service.loginWithAuthCode(" auth\ncode ");
+
+    expect(endpoint.requests).toEqual([
+      {
+        grant_type: "authorization_code",
+        client_id: "test-client",
+        client_secret: "test-secret",
+        code: "authcode",
+      },
+    ]);
+    expect(stored?.expiresAt).toEqual(new Date(clock.now().getTime() + 30 * MINUTE));
+
+    const record = await store.getLatestTokens("default");
+    expect(record?.accessToken).not.toContain("at-1");
+    expect(await service.decrypt(record!.accessToken)).toBe("at-1");
+    expect(await service.decrypt(record!.refreshToken)).toBe("rt-1");
+    expect(await service.getValidAccessToken()).toBe("at-1");
+  });
+
+  test("replaces the existing record on a second login", async () => {
+    const { service, store } = createTestService();
+    const first = await service.loginWithAuthCode("code-1");
+    const second = await service.loginWithAuthCode("code-2");
+
+    expect(second?.id).toBe(first!.id);
+    expect(await store.listAccounts()).toEqual(["default"]);
+    expect(await service.decrypt(second!.refreshToken)).toBe("refresh-2");
+  });
+
+  test("returns null and records a failure when the exchange is rejected", async () => {
+    const { service, store, endpoint } = createTestService();
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+
+    expect(await service.loginWithAuthCode("used-code", "shop")).toBeNull();
+    expect(await store.getLatestTokens("shop")).toBeNull();
+
+    const events = await store.listEvents({ accountId: "shop" });
+    expect(events.map((event) => event.type)).toEqual(["login_failure"]);
+  });
+
+  test("returns null when the token endpoint is unreachable", async () => {
+    const { service, endpoint } = createTestService();
+    endpoint.failWithNetworkError();
+
+    expect(await service.loginWithAuthCode("code")).toBeNull();
+  });
+});
+
+describe("refreshTokens", () => {
+  test("updates the existing record in place", async () => {
+    const { service, store, clock, endpoint } = createTestService();
+    const original = await service.saveTokens("old-access", "old-refresh", 3600);
+    clock.advanceMinutes(55);
+    endpoint.respondWithTokens({ access_token: "new-access", refresh_token: "new-refresh" });
+
+    const refreshed = await service.refreshTokens("old-refresh");
+
+    expect(endpoint.requests[0]).toMatchObject({
+      grant_type: "refresh_token",
+      refresh_token: "old-refresh",
+    });
+    expect(refreshed?.id).toBe(original.id);
+    expect(await service.decrypt(refreshed!.refreshToken)).toBe("new-refresh");
+    expect(refreshed?.expiresAt).toEqual(new Date(clock.now().getTime() + 60 * MINUTE));
+    expect(await store.listAccounts()).toEqual(["default"]);
+
+    const events = await store.listEvents({ accountId: "default" });
+    expect(events.map((event) => event.type)).toEqual(["refresh_success", "refresh_attempt"]);
+  });
+
+  test("inserts a record when none exists", async () => {
+    const { service, store, endpoint } = createTestService();
+    endpoint.respondWithTokens({ access_token: "new-access", refresh_token: "new-refresh" });
+
+    const refreshed = await service.refreshTokens("seed-refresh", "shop");
+
+    expect(refreshed?.accountId).toBe("shop");
+    expect(await store.listAccounts()).toEqual(["shop"]);
+    expect(await service.decrypt(refreshed!.accessToken)).toBe("new-access");
+  });
+
+  test("leaves stored tokens untouched and records the failure when refresh is rejected", async () => {
+    const { service, store, endpoint } = createTestService();
+    const original = await service.saveTokens("access", "dead-refresh", 3600);
+    endpoint.respondWithError(400, {
+      error: "invalid_grant",
+      refresh_token: "dead-refresh",
+    });
+
+    await expect(service.refreshTokens("dead-refresh")).rejects.toBeInstanceOf(InvalidGrantError);
+    expect(await store.getLatestTokens("default")).toEqual(original);
+
+    const [failure] = await store.listEvents({ type: "refresh_failure" });
+    expect(failure.httpStatus).toBe(400);
+    expect(failure.errorBody).not.toContain("dead-refresh");
+  });
+
+  test("retries storing refreshed tokens before giving up", async () => {
+    const { service, store, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    const updateTokens = store.updateTokens.bind(store);
+    let failures = 1;
+    store.updateTokens = async (id, update) => {
+      if (failures-- > 0) throw new Error("connection reset");
+      return await updateTokens(id, update);
+    };
+    endpoint.respondWithTokens({ refresh_token: "rotated-refresh" });
+
+    const refreshed = await service.refreshTokens("refresh");
+
+    expect(await service.decrypt(refreshed!.refreshToken)).toBe("rotated-refresh");
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  test("keeps rotated tokens the store rejected and saves them on the next refresh", async () => {
+    const { service, store, clock, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    const updateTokens = store.updateTokens.bind(store);
+    store.updateTokens = async () => {
+      throw new Error("database is down");
+    };
+    endpoint.respondWithTokens({ access_token: "rotated-access", refresh_token: "rotated-refresh" });
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+    expect(await service.decrypt((await store.getLatestTokens("default"))!.refreshToken)).toBe("refresh");
+
+    store.updateTokens = updateTokens;
+    clock.advanceMinutes(5);
+    const saved = await service.refreshTokens("refresh");
+
+    expect(endpoint.requests).toHaveLength(1); // The dead refresh token is never sent again
+    expect(await service.decrypt(saved!.refreshToken)).toBe("rotated-refresh");
+    expect(await service.getValidAccessToken()).toBe("rotated-access");
+    expect(saved?.expiresAt).toEqual(new Date(clock.now().getTime() + 55 * MINUTE));
+  });
+
+  test("shares one request between concurrent callers", async () => {
+    const { service, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+
+    const results = await Promise.all([
+      service.refreshTokens("refresh"),
+      service.refreshTokens("refresh"),
+      service.refreshTokens("refresh"),
+    ]);
+
+    expect(endpoint.requests).toHaveLength(1);
+    expect(new Set(results.map((result) => result?.id)).size).toBe(1);
+  });
+
+  test("getValidAccessToken refreshes once tokens enter the buffer", async () => {
+    const { service, clock, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+
+    expect(await service.getValidAccessToken()).toBe("access");
+    expect(endpoint.requests).toHaveLength(0);
+
+    clock.advanceMinutes(51);
+    endpoint.respondWithTokens({ access_token: "fresh-access" });
+
+    expect(await service.getValidAccessToken()).toBe("fresh-access");
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  test("uses the tokens another process stored once it releases the refresh lock", async () => {
+    const { service, store, clock, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advanceMinutes(51);
+    const other = new LeaseService(store, "other-process", clock);
+    const lease = await other.acquire("refresh:default", 3 * MINUTE);
+    store.isLeaseHeld = async () => {
+      // The other process finishes its refresh while we poll
+      await service.saveTokens("other-access", "other-refresh", 3600);
+      await other.release(lease!);
+      return false;
+    };
+
+    expect(await service.getValidAccessToken()).toBe("other-access");
+    expect(endpoint.requests).toHaveLength(0);
+  });
+
+  test("stops an on-demand caller waiting on another process's refresh after 10 seconds", async () => {
+    const { service, store, clock, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    clock.advanceMinutes(51);
+    await new LeaseService(store, "other-process", clock).acquire("refresh:default", 3 * MINUTE);
+    const waitStartedAt = clock.now().getTime();
+
+    await expect(service.getValidToken()).rejects.toBeInstanceOf(RefreshInProgressError);
+    expect(clock.now().getTime() - waitStartedAt).toBe(10 * 1000);
+    expect(endpoint.requests).toHaveLength(0);
+  });
+
+  test("lets the scheduler wait out the whole refresh lock", async () => {
+    const { service, store, clock } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    await new LeaseService(store, "other-process", clock).acquire("refresh:default", 3 * MINUTE);
+    const waitStartedAt = clock.now().getTime();
+
+    await expect(service.refreshTokens("refresh", "default", "scheduler")).rejects.toBeInstanceOf(
+      RefreshInProgressError
+    );
+    expect(clock.now().getTime() - waitStartedAt).toBe(3 * MINUTE);
+  });
+});
+
+describe("refresh retries", () => {
+  test("retries 5xx responses with exponential backoff", async () => {
+    const { service, endpoint, sleeps } = createTestService();
+    await service.saveTokens("access", "refresh", 3600);
+    endpoint.respondWithError(500);
+    endpoint.respondWithError(502);
+
+    const refreshed = await service.refreshTokens("refresh");
+
+    expect(refreshed).not.toBeNull();
+    expect(endpoint.requests).toHaveLength(3);
+    expect(sleeps).toEqual([500, 1000]); // Half of 1s, then half of 2s with fixed jitter
+  });
+
+  test("retries network errors", async () => {
+    const { service, endpoint } = createTestService();
+    endpoint.failWithNetworkError();
+
+    expect(await service.refreshTokens("refresh")).not.toBeNull();
+    expect(endpoint.requests).toHaveLength(2);
+  });
+
+  test("waits for Retry-After on 429", async () => {
+    const { service, endpoint, sleeps } = createTestService();
+    endpoint.respondWithError(429, { error: "rate_limited" }, { "Retry-After": "7" });
+
+    expect(await service.refreshTokens("refresh")).not.toBeNull();
+    expect(sleeps).toEqual([7000]);
+  });
+
+  test("gives up without waiting when Retry-After is too long", async () => {
+    const { service, endpoint, sleeps } = createTestService();
+    endpoint.respondWithError(429, { error: "rate_limited" }, { "Retry-After": "3600" });
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+    expect(endpoint.requests).toHaveLength(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  test("retries a 2xx response whose body is not JSON", async () => {
+    const { service, endpoint, sleeps } = createTestService();
+    endpoint.respondWithText(200, "<html>Maintenance</html>");
+
+    expect(await service.refreshTokens("refresh")).not.toBeNull();
+    expect(endpoint.requests).toHaveLength(2);
+    expect(sleeps).toHaveLength(1);
+  });
+
+  test("records a truncated body once every non-JSON response has failed", async () => {
+    const { service, store, endpoint } = createTestService();
+    const page = `<html>${"Maintenance ".repeat(100)}</html>`;
+    for (let i = 0; i < 4; i++) {
+      endpoint.respondWithText(200, page);
+    }
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+
+    const [failure] = await store.listEvents({ type: "refresh_failure" });
+    expect(failure.httpStatus).toBe(200);
+    expect(failure.message).toBe("Invalid refresh response - HTTP 200 body is not JSON");
+    expect(failure.errorBody).toBe(page.substring(0, 500));
+  });
+
+  test("returns null once every attempt has failed", async () => {
+    const { service, store, endpoint } = createTestService();
+    for (let i = 0; i < 4; i++) {
+      endpoint.respondWithError(503);
+    }
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+    expect(endpoint.requests).toHaveLength(4);
+
+    const [failure] = await store.listEvents({ type: "refresh_failure" });
+    expect(failure.httpStatus).toBe(503);
+  });
+
+  test("renews the refresh lock before every retry", async () => {
+    const { service, store, endpoint } = createTestService();
+    const renewed: number[] = [];
+    const renewLease = store.renewLease.bind(store);
+    store.renewLease = async (lease, ttlMs) => {
+      renewed.push(endpoint.requests.length);
+      return await renewLease(lease, ttlMs);
+    };
+    endpoint.respondWithError(500);
+    endpoint.respondWithError(500);
+
+    expect(await service.refreshTokens("refresh")).not.toBeNull();
+    expect(renewed).toEqual([1, 2]);
+  });
+
+  test("stops retrying once another process has taken over the refresh lock", async () => {
+    const { service, store, endpoint } = createTestService();
+    store.renewLease = async () => null;
+    endpoint.respondWithError(500);
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+    expect(endpoint.requests).toHaveLength(1);
+
+    const [failure] = await store.listEvents({ type: "refresh_failure" });
+    expect(failure.message).toContain("Lost the refresh lock");
+  });
+
+  test("discards refreshed tokens once another process has taken over the refresh lock", async () => {
+    const { service, store, endpoint } = createTestService();
+    const before = await service.saveTokens("access", "refresh", 3600);
+    const acquireLease = store.acquireLease.bind(store);
+    let takeover: Lease | null = null;
+    store.acquireLease = async (name, holder, ttlMs) => {
+      // Our lease runs out mid-refresh and another process takes it over
+      const lease = await acquireLease(name, holder, ttlMs);
+      await store.releaseLease(lease!);
+      takeover = await acquireLease(name, "other-process", ttlMs);
+      return lease;
+    };
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+    expect(await store.getLatestTokens(before.accountId)).toEqual(before);
+
+    const [failure] = await store.listEvents({ type: "refresh_failure" });
+    expect(failure.message).toContain("fencing token");
+
+    // Nothing was kept back to overwrite the other process's tokens later
+    store.acquireLease = acquireLease;
+    await store.releaseLease(takeover!);
+    expect(await service.refreshTokens("refresh")).not.toBeNull();
+    expect(endpoint.requests).toHaveLength(2);
+  });
+
+  test("does not retry invalid_grant", async () => {
+    const { service, endpoint, sleeps } = createTestService();
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+
+    await expect(service.refreshTokens("refresh")).rejects.toBeInstanceOf(InvalidGrantError);
+    expect(endpoint.requests).toHaveLength(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  test("does not retry invalid_client", async () => {
+    const { service, endpoint } = createTestService();
+    endpoint.respondWithError(401, { error: "invalid_client" });
+
+    await expect(service.refreshTokens("refresh")).rejects.toBeInstanceOf(InvalidClientError);
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  test("treats a 401 without an OAuth error as a generic failure", async () => {
+    const { service, store, endpoint } = createTestService();
+    endpoint.respondWithError(401, { message: "Unauthorized" });
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+    expect(endpoint.requests).toHaveLength(1);
+
+    const [failure] = await store.listEvents({ type: "refresh_failure" });
+    expect(failure.message).toBe("Token refresh failed with HTTP 401");
+  });
+
+  test("does not retry other client errors", async () => {
+    const { service, endpoint } = createTestService();
+    endpoint.respondWithError(400, { error: "invalid_request" });
+
+    expect(await service.refreshTokens("refresh")).toBeNull();
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  test("cliRefresh explains a rejected refresh token", async () => {
+    const { service, endpoint } = createTestService();
+    await service.saveTokens("access", "refresh", 3600, "shop");
+    endpoint.respondWithError(400, { error: "invalid_grant" });
+
+    const result = await service.cliRefresh("shop");
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe("invalid_grant");
+    expect(result.message).toContain("login --account shop");
+  });
+});
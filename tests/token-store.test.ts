@@ -0,0 +1,317 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { StaleLeaseError } from "../services/lease-service";
+import type { NewTokenRecord, TokenStore } from "../services/token-store";
+import { FileTokenStore } from "../services/stores/file-store";
+import { MemoryTokenStore } from "../services/stores/memory-store";
+import { SqliteTokenStore } from "../services/stores/sqlite-store";
+import { createTestCipher } from "./helpers";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempPath(name: string): string {
+  const dir = mkdtempSync(join(tmpdir(), "token-store-"));
+  tempDirs.push(dir);
+  return join(dir, name);
+}
+
+function tokenRecord(accountId: string, overrides: Partial<NewTokenRecord> = {}): NewTokenRecord {
+  return {
+    accountId,
+    accessToken: `enc-access-${accountId}`,
+    refreshToken: `enc-refresh-${accountId}`,
+    expiresAt: new Date("2026-01-01T01:00:00Z"),
+    scope: "employee:all",
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+const backends: [string, () => TokenStore][] = [
+  ["memory", () => new MemoryTokenStore()],
+  ["sqlite", () => new SqliteTokenStore(tempPath("tokens.sqlite"))],
+  ["file", () => new FileTokenStore(tempPath("tokens.json.enc"), createTestCipher())],
+];
+
+// Every backend must behave the same through the TokenStore interface
+for (const [name, createStore] of backends) {
+  describe(`${name} store`, () => {
+    let store: TokenStore;
+
+    afterEach(async () => {
+      await store.close();
+    });
+
+    function create(): TokenStore {
+      store = createStore();
+      return store;
+    }
+
+    describe("tokens", () => {
+      test("inserts, reads and lists records per account", async () => {
+        const store = create();
+        expect(await store.getLatestTokens("shop")).toBeNull();
+
+        const inserted = await store.insertTokens(tokenRecord("shop"));
+        await store.insertTokens(tokenRecord("outlet"));
+
+        expect(await store.getLatestTokens("shop")).toEqual({ ...tokenRecord("shop"), id: inserted.id });
+        expect(await store.listAccounts()).toEqual(["outlet", "shop"]);
+      });
+
+      test("refuses a second record for the same account", async () => {
+        const store = create();
+        await store.insertTokens(tokenRecord("shop"));
+
+        await expect(store.insertTokens(tokenRecord("shop"))).rejects.toThrow();
+      });
+
+      test("updates only the given fields", async () => {
+        const store = create();
+        const { id } = await store.insertTokens(tokenRecord("shop"));
+
+        const updated = await store.updateTokens(id, {
+          accessToken: "enc-access-2",
+          expiresAt: null,
+          updatedAt: new Date("2026-01-01T00:30:00Z"),
+        });
+
+        expect(updated).toEqual({
+          ...tokenRecord("shop"),
+          id,
+          accessToken: "enc-access-2",
+          expiresAt: null,
+          updatedAt: new Date("2026-01-01T00:30:00Z"),
+        });
+        expect(await store.getLatestTokens("shop")).toEqual(updated);
+        await expect(store.updateTokens(id + 100, { accessToken: "x" })).rejects.toThrow("not found");
+      });
+
+      test("deletes one account or all of them", async () => {
+        const store = create();
+        for (const accountId of ["a", "b", "c"]) {
+          await store.insertTokens(tokenRecord(accountId));
+        }
+
+        expect(await store.deleteTokens("a")).toBe(1);
+        expect(await store.listAccounts()).toEqual(["b", "c"]);
+        expect(await store.deleteTokens()).toBe(2);
+        expect(await store.listAccounts()).toEqual([]);
+      });
+
+      test("rewrites records all or nothing", async () => {
+        const store = create();
+        await store.insertTokens(tokenRecord("a"));
+        await store.insertTokens(tokenRecord("b"));
+
+        await expect(
+          store.rewriteTokens(async (token) => {
+            if (token.accountId === "b") throw new Error("cannot decrypt");
+            return { accessToken: "new", refreshToken: "new" };
+          })
+        ).rejects.toThrow("cannot decrypt");
+        expect((await store.getLatestTokens("a"))?.accessToken).toBe("enc-access-a");
+
+        const rewritten = await store.rewriteTokens(async (token) =>
+          token.accountId === "a" ? { accessToken: "new-a", refreshToken: "new-a" } : null
+        );
+        expect(rewritten).toBe(1);
+        expect((await store.getLatestTokens("a"))?.refreshToken).toBe("new-a");
+        expect((await store.getLatestTokens("b"))?.refreshToken).toBe("enc-refresh-b");
+      });
+    });
+
+    describe("leases", () => {
+      test("grants a lease to one holder at a time, with a growing fencing token", async () => {
+        const store = create();
+
+        const first = await store.acquireLease("refresh:shop", "a", 60 * 1000);
+        expect(first).toMatchObject({ name: "refresh:shop", holder: "a", fencingToken: 1 });
+        expect(await store.acquireLease("refresh:shop", "b", 60 * 1000)).toBeNull();
+        expect(await store.isLeaseHeld("refresh:shop")).toBe(true);
+
+        await store.releaseLease(first!);
+        expect(await store.isLeaseHeld("refresh:shop")).toBe(false);
+
+        const second = await store.acquireLease("refresh:shop", "b", 60 * 1000);
+        expect(second).toMatchObject({ holder: "b", fencingToken: 2 });
+      });
+
+      test("lets another holder take an expired lease, after which renewal fails", async () => {
+        const store = create();
+        const stale = await store.acquireLease("leader", "a", 1);
+        await Bun.sleep(5);
+
+        const current = await store.acquireLease("leader", "b", 60 * 1000);
+
+        expect(current?.fencingToken).toBe(stale!.fencingToken + 1);
+        expect(await store.renewLease(stale!, 60 * 1000)).toBeNull();
+        await store.releaseLease(stale!); // A stale holder cannot release the new lease
+        expect(await store.isLeaseHeld("leader")).toBe(true);
+      });
+
+      test("applies a fenced token update only while its lease is held", async () => {
+        const store = create();
+        const { id } = await store.insertTokens(tokenRecord("shop"));
+        const stale = await store.acquireLease("refresh:shop", "a", 1);
+
+        expect(await store.updateTokens(id, { accessToken: "enc-access-a" }, stale!)).toMatchObject({
+          accessToken: "enc-access-a",
+        });
+
+        await Bun.sleep(5);
+        const current = await store.acquireLease("refresh:shop", "b", 60 * 1000);
+
+        await expect(store.updateTokens(id, { accessToken: "enc-access-stale" }, stale!)).rejects.toBeInstanceOf(
+          StaleLeaseError
+        );
+        expect((await store.getLatestTokens("shop"))?.accessToken).toBe("enc-access-a");
+        expect(await store.updateTokens(id, { accessToken: "enc-access-b" }, current!)).toMatchObject({
+          accessToken: "enc-access-b",
+        });
+        await expect(store.updateTokens(id + 100, { accessToken: "x" }, current!)).rejects.toThrow("not found");
+      });
+
+      test("renews a lease still held under the same fencing token", async () => {
+        const store = create();
+        const lease = await store.acquireLease("leader", "a", 20);
+
+        const renewed = await store.renewLease(lease!, 60 * 1000);
+        await Bun.sleep(30);
+
+        expect(renewed).toMatchObject({ holder: "a", fencingToken: lease!.fencingToken });
+        expect(renewed!.expiresAt.getTime()).toBeGreaterThan(lease!.expiresAt.getTime());
+        expect(await store.acquireLease("leader", "b", 60 * 1000)).toBeNull();
+      });
+    });
+
+    describe("events", () => {
+      test("records events and lists them newest first, filtered", async () => {
+        const store = create();
+        await store.recordEvent({ accountId: "shop", type: "refresh_attempt", source: "scheduler" });
+        await store.recordEvent({
+          accountId: "shop",
+          type: "refresh_failure",
+          source: "scheduler",
+          httpStatus: 503,
+          message: "Token refresh failed with HTTP 503",
+          refreshTokenFingerprint: "abc123",
+        });
+        await store.recordEvent({ accountId: "outlet", type: "login", source: "cli" });
+
+        const shop = await store.listEvents({ accountId: "shop" });
+        expect(shop.map((event) => event.type)).toEqual(["refresh_failure", "refresh_attempt"]);
+        expect(shop[0]).toMatchObject({
+          httpStatus: 503,
+          message: "Token refresh failed with HTTP 503",
+          errorBody: null,
+          refreshTokenFingerprint: "abc123",
+          newTokenFingerprint: null,
+          expiresAt: null,
+        });
+        expect(shop[0].createdAt).toBeInstanceOf(Date);
+
+        expect(await store.listEvents({ type: "login" })).toHaveLength(1);
+        expect(await store.listEvents({ source: "scheduler", limit: 1 })).toHaveLength(1);
+        expect(await store.listEvents({ since: new Date(Date.now() + 60 * 1000) })).toEqual([]);
+      });
+
+      test("prunes events older than a date", async () => {
+        const store = create();
+        await store.recordEvent({ accountId: "shop", type: "login", source: "cli" });
+
+        expect(await store.pruneEvents(new Date(Date.now() - 60 * 1000))).toBe(0);
+        expect(await store.pruneEvents(new Date(Date.now() + 60 * 1000))).toBe(1);
+        expect(await store.listEvents({})).toEqual([]);
+      });
+    });
+
+    describe("consumers", () => {
+      test("creates, finds, lists and updates consumers", async () => {
+        const store = create();
+        const created = await store.createConsumer({ name: "reports", keyHash: "hash-1", keyPrefix: "lts_abc" });
+        await store.createConsumer({ name: "billing", keyHash: "hash-2", keyPrefix: "lts_def" });
+
+        expect(created).toMatchObject({ name: "reports", enabled: true, lastUsedAt: null, revokedAt: null });
+        expect(await store.getConsumer("reports")).toEqual(created);
+        expect(await store.getConsumerByKeyHash("hash-1")).toEqual(created);
+        expect(await store.getConsumer("nobody")).toBeNull();
+        expect((await store.listConsumers()).map((consumer) => consumer.name)).toEqual(["billing", "reports"]);
+
+        const revokedAt = new Date("2026-02-01T00:00:00Z");
+        const revoked = await store.updateConsumer(created.id, { enabled: false, revokedAt });
+        expect(revoked).toMatchObject({ name: "reports", keyHash: "hash-1", enabled: false, revokedAt });
+
+        await store.updateConsumer(created.id, { keyHash: "hash-3" });
+        expect(await store.getConsumerByKeyHash("hash-1")).toBeNull();
+        expect((await store.getConsumerByKeyHash("hash-3"))?.name).toBe("reports");
+      });
+
+      test("refuses duplicate names and unknown ids", async () => {
+        const store = create();
+        const { id } = await store.createConsumer({ name: "reports", keyHash: "hash-1", keyPrefix: "lts_abc" });
+
+        await expect(
+          store.createConsumer({ name: "reports", keyHash: "hash-2", keyPrefix: "lts_def" })
+        ).rejects.toThrow();
+        await expect(store.updateConsumer(id + 100, { enabled: false })).rejects.toThrow("not found");
+      });
+    });
+  });
+}
+
+describe("FileTokenStore", () => {
+  test("persists encrypted data that another instance can read", async () => {
+    const path = tempPath("tokens.json.enc");
+    const writer = new FileTokenStore(path, createTestCipher());
+    await writer.insertTokens(tokenRecord("shop", { scope: "employee:reports" }));
+
+    expect(readFileSync(path, "utf8")).not.toContain("employee:reports");
+
+    const reader = new FileTokenStore(path, createTestCipher());
+    expect(await reader.getLatestTokens("shop")).toMatchObject({ accountId: "shop", scope: "employee:reports" });
+  });
+
+  test("instances sharing a file take leases one at a time", async () => {
+    const path = tempPath("tokens.json.enc");
+    const replicas = [1, 2, 3, 4].map(() => new FileTokenStore(path, createTestCipher()));
+
+    const leases = await Promise.all(
+      replicas.map((replica, i) => replica.acquireLease("refresh:shop", `replica-${i}`, 60 * 1000))
+    );
+
+    expect(leases.filter((lease) => lease !== null)).toHaveLength(1);
+  });
+
+  test("keeps writes from every instance sharing a file", async () => {
+    const path = tempPath("tokens.json.enc");
+    const replicas = [1, 2, 3].map(() => new FileTokenStore(path, createTestCipher()));
+
+    await Promise.all(
+      replicas.flatMap((replica) =>
+        [1, 2, 3].map(() => replica.recordEvent({ accountId: "shop", type: "refresh_attempt", source: "scheduler" }))
+      )
+    );
+
+    expect(await new FileTokenStore(path, createTestCipher()).listEvents({})).toHaveLength(9);
+  });
+
+  test("keeps only the newest 1000 events", async () => {
+    const store = new FileTokenStore(tempPath("tokens.json.enc"), createTestCipher());
+    for (let i = 0; i < 1005; i++) {
+      await store.recordEvent({ accountId: "shop", type: "refresh_attempt", source: "scheduler", message: `#${i}` });
+    }
+
+    const events = await store.listEvents({});
+    expect(events).toHaveLength(1000);
+    expect(events.at(-1)?.message).toBe("#5");
+  });
+});